@@ -1,15 +1,46 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { MouseEvent } from 'react';
 import type { Brand } from '@/types/brand';
+import type {
+  BrandComparisonSelection,
+  ClustersSelection,
+  ComparisonSelection,
+  GridFilterState,
+  HeatmapSelection,
+  InsightsSelection,
+  LeaderboardSelection,
+  PowerGridSelection,
+  ViewRoute,
+} from '@/types/routes';
 import { loadBrands } from '@/services/brandLoader';
+import { useRoute } from '@/hooks/useRoute';
+import {
+  DEFAULT_CLUSTERS,
+  DEFAULT_HEATMAP,
+  DEFAULT_INSIGHTS,
+  DEFAULT_LEADERBOARD,
+  DEFAULT_POWER_GRID,
+  findBrandByRouteKey,
+  getBackgroundRoute,
+  getBrandRouteKey,
+  isViewRoute,
+} from '@/utils/routes';
 import { LogoGrid } from '@/components/LogoGrid/LogoGrid';
 import { LogoModal } from '@/components/LogoModal/LogoModal';
+import { BrandComparison } from '@/components/BrandComparison';
+import { Leaderboard } from '@/components/Leaderboard';
+import { PowerGrid } from '@/components/PowerGrid';
+import { Clusters } from '@/components/Clusters';
+import { Insights } from '@/components/Insights';
+import { Heatmap } from '@/components/Heatmap';
+import { BrandReport } from '@/components/BrandReport';
 import './App.css';
 
 function App() {
   const [brands, setBrands] = useState<Brand[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedBrand, setSelectedBrand] = useState<Brand | null>(null);
+  const [route, navigate] = useRoute();
 
   useEffect(() => {
     loadBrands()
@@ -26,6 +57,212 @@ function App() {
       });
   }, []);
 
+  // Brand addressed by the current URL (if any)
+  const brandKey =
+    route.name === 'brand' || route.name === 'compare' || route.name === 'report'
+      ? route.brandKey
+      : null;
+  const selectedBrand = brandKey ? findBrandByRouteKey(brands, brandKey) ?? null : null;
+  const brandNotFound = !loading && brandKey !== null && selectedBrand === null;
+  const comparison = route.name === 'compare' ? route.comparison : null;
+  const reportBrand = route.name === 'report' ? selectedBrand : null;
+
+  // Top-level view shown behind any modal; modals opened from it return to it
+  const background = useMemo(() => getBackgroundRoute(route), [route]);
+  const view = background.name;
+
+  // Brands in the brand-vs-brand comparison (unknown keys are dropped)
+  const comparedBrands = useMemo(() => {
+    if (route.name !== 'compare-brands') return [];
+    return route.brandKeys
+      .map((key) => findBrandByRouteKey(brands, key))
+      .filter((brand): brand is Brand => brand !== undefined);
+  }, [route, brands]);
+
+  const handleBrandClick = useCallback(
+    (brand: Brand) => {
+      navigate({
+        name: 'brand',
+        brandKey: getBrandRouteKey(brand, brands),
+        filters: route.filters,
+        background,
+      });
+    },
+    [navigate, brands, route.filters, background]
+  );
+
+  const handleFiltersChange = useCallback(
+    (filters: GridFilterState) => {
+      navigate({ ...route, filters }, { replace: true });
+    },
+    [navigate, route]
+  );
+
+  const handleClose = useCallback(() => {
+    navigate(background);
+  }, [navigate, background]);
+
+  // Settings changes in the view, also while a modal is open over it
+  const handleViewChange = useCallback(
+    (next: ViewRoute) => {
+      navigate(isViewRoute(route) ? next : { ...route, background: next }, { replace: true });
+    },
+    [navigate, route]
+  );
+
+  const handleComparisonChange = useCallback(
+    (selection: ComparisonSelection | null) => {
+      if (!brandKey) return;
+
+      if (selection === null) {
+        navigate({ name: 'brand', brandKey, filters: route.filters, background });
+      } else {
+        // Opening the comparison is a new history entry; tweaking its selection is not
+        navigate(
+          { name: 'compare', brandKey, comparison: selection, filters: route.filters, background },
+          { replace: route.name === 'compare' }
+        );
+      }
+    },
+    [navigate, brandKey, route.name, route.filters, background]
+  );
+
+  const handleOpenReport = useCallback(
+    (brand: Brand) => {
+      navigate({
+        name: 'report',
+        brandKey: getBrandRouteKey(brand, brands),
+        filters: route.filters,
+        background,
+      });
+    },
+    [navigate, brands, route.filters, background]
+  );
+
+  const handleCloseReport = useCallback(() => {
+    if (!brandKey) return;
+    navigate({ name: 'brand', brandKey, filters: route.filters, background });
+  }, [navigate, brandKey, route.filters, background]);
+
+  const openQuarterComparison = useCallback(
+    (brand: Brand, comparison: ComparisonSelection) => {
+      navigate({
+        name: 'compare',
+        brandKey: getBrandRouteKey(brand, brands),
+        comparison,
+        filters: route.filters,
+        background,
+      });
+    },
+    [navigate, brands, route.filters, background]
+  );
+
+  const openBrandComparison = useCallback(
+    (selected: Brand[]) => {
+      navigate({
+        name: 'compare-brands',
+        brandKeys: selected.map((brand) => getBrandRouteKey(brand, brands)),
+        selection: { quarter: '', metrics: [] },
+        filters: route.filters,
+        background,
+      });
+    },
+    [navigate, brands, route.filters, background]
+  );
+
+  const handleCompareWith = useCallback(
+    (brand: Brand) => openBrandComparison([brand]),
+    [openBrandComparison]
+  );
+
+  const handleComparedBrandsChange = useCallback(
+    (selected: Brand[]) => {
+      if (route.name !== 'compare-brands') return;
+      navigate(
+        { ...route, brandKeys: selected.map((brand) => getBrandRouteKey(brand, brands)) },
+        { replace: true }
+      );
+    },
+    [navigate, route, brands]
+  );
+
+  const handleBrandComparisonSelectionChange = useCallback(
+    (selection: BrandComparisonSelection) => {
+      if (route.name !== 'compare-brands') return;
+      navigate({ ...route, selection }, { replace: true });
+    },
+    [navigate, route]
+  );
+
+  const handleLeaderboardChange = useCallback(
+    (leaderboard: LeaderboardSelection) => {
+      if (background.name !== 'leaderboard') return;
+      handleViewChange({ ...background, leaderboard });
+    },
+    [handleViewChange, background]
+  );
+
+  const handlePowerGridChange = useCallback(
+    (powerGrid: PowerGridSelection) => {
+      if (background.name !== 'power-grid') return;
+      handleViewChange({ ...background, powerGrid });
+    },
+    [handleViewChange, background]
+  );
+
+  const handleClustersChange = useCallback(
+    (clusters: ClustersSelection) => {
+      if (background.name !== 'clusters') return;
+      handleViewChange({ ...background, clusters });
+    },
+    [handleViewChange, background]
+  );
+
+  const handleInsightsChange = useCallback(
+    (insights: InsightsSelection) => {
+      if (background.name !== 'insights') return;
+      handleViewChange({ ...background, insights });
+    },
+    [handleViewChange, background]
+  );
+
+  const handleHeatmapChange = useCallback(
+    (heatmap: HeatmapSelection) => {
+      if (background.name !== 'heatmap') return;
+      handleViewChange({ ...background, heatmap });
+    },
+    [handleViewChange, background]
+  );
+
+  const handleNavClick = (
+    event: MouseEvent<HTMLAnchorElement>,
+    target: 'grid' | 'leaderboard' | 'power-grid' | 'heatmap' | 'clusters' | 'insights'
+  ) => {
+    // Let modified clicks open a new tab
+    if (event.metaKey || event.ctrlKey || event.shiftKey || event.button !== 0) return;
+    event.preventDefault();
+    if (target === view && route.name === target) return;
+
+    if (target === 'leaderboard') {
+      navigate({ name: 'leaderboard', leaderboard: DEFAULT_LEADERBOARD, filters: route.filters });
+    } else if (target === 'power-grid') {
+      navigate({ name: 'power-grid', powerGrid: DEFAULT_POWER_GRID, filters: route.filters });
+    } else if (target === 'heatmap') {
+      navigate({ name: 'heatmap', heatmap: DEFAULT_HEATMAP, filters: route.filters });
+    } else if (target === 'clusters') {
+      navigate({ name: 'clusters', clusters: DEFAULT_CLUSTERS, filters: route.filters });
+    } else if (target === 'insights') {
+      navigate({ name: 'insights', insights: DEFAULT_INSIGHTS, filters: route.filters });
+    } else {
+      navigate({ name: 'grid', filters: route.filters });
+    }
+  };
+
+  // Reflect the open brand in the document title for shared links and history
+  useEffect(() => {
+    document.title = selectedBrand ? `${selectedBrand.name} | Brand Logo Browser` : 'Brand Logo Browser';
+  }, [selectedBrand]);
+
   return (
     <div className="app">
       <header className="app__header">
@@ -34,16 +271,112 @@ function App() {
           <p className="app__subtitle">
             Explore {brands.length} brand {brands.length === 1 ? 'logo' : 'logos'}
           </p>
+          <nav className="app__nav" aria-label="Views">
+            <a
+              href="/"
+              className="app__nav-link"
+              aria-current={view === 'grid' ? 'page' : undefined}
+              onClick={(e) => handleNavClick(e, 'grid')}
+            >
+              Brands
+            </a>
+            <a
+              href="/leaderboard"
+              className="app__nav-link"
+              aria-current={view === 'leaderboard' ? 'page' : undefined}
+              onClick={(e) => handleNavClick(e, 'leaderboard')}
+            >
+              Leaderboards
+            </a>
+            <a
+              href="/power-grid"
+              className="app__nav-link"
+              aria-current={view === 'power-grid' ? 'page' : undefined}
+              onClick={(e) => handleNavClick(e, 'power-grid')}
+            >
+              Power Grid
+            </a>
+            <a
+              href="/heatmap"
+              className="app__nav-link"
+              aria-current={view === 'heatmap' ? 'page' : undefined}
+              onClick={(e) => handleNavClick(e, 'heatmap')}
+            >
+              Heatmap
+            </a>
+            <a
+              href="/clusters"
+              className="app__nav-link"
+              aria-current={view === 'clusters' ? 'page' : undefined}
+              onClick={(e) => handleNavClick(e, 'clusters')}
+            >
+              Clusters
+            </a>
+            <a
+              href="/insights"
+              className="app__nav-link"
+              aria-current={view === 'insights' ? 'page' : undefined}
+              onClick={(e) => handleNavClick(e, 'insights')}
+            >
+              Insights
+            </a>
+          </nav>
         </div>
       </header>
 
       <main className="app__main">
+        {brandNotFound && (
+          <div className="app__notice" role="status">
+            No brand found for “{brandKey}”.{' '}
+            <button className="app__notice-dismiss" onClick={handleClose}>
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {error ? (
           <div className="app__error">{error}</div>
+        ) : reportBrand ? (
+          <BrandReport brand={reportBrand} onClose={handleCloseReport} />
+        ) : background.name === 'leaderboard' ? (
+          <Leaderboard
+            selection={background.leaderboard}
+            onSelectionChange={handleLeaderboardChange}
+            onBrandClick={handleBrandClick}
+          />
+        ) : background.name === 'power-grid' ? (
+          <PowerGrid
+            selection={background.powerGrid}
+            onSelectionChange={handlePowerGridChange}
+            onBrandClick={handleBrandClick}
+            onCompareBrands={openBrandComparison}
+          />
+        ) : background.name === 'heatmap' ? (
+          <Heatmap
+            selection={background.heatmap}
+            onSelectionChange={handleHeatmapChange}
+            onBrandClick={handleBrandClick}
+          />
+        ) : background.name === 'clusters' ? (
+          <Clusters
+            selection={background.clusters}
+            onSelectionChange={handleClustersChange}
+            onBrandClick={handleBrandClick}
+          />
+        ) : background.name === 'insights' ? (
+          <Insights
+            selection={background.insights}
+            onSelectionChange={handleInsightsChange}
+            onBrandClick={handleBrandClick}
+            onShowChange={openQuarterComparison}
+          />
         ) : (
           <LogoGrid
             brands={brands}
-            onBrandClick={setSelectedBrand}
+            onBrandClick={handleBrandClick}
+            filters={route.filters}
+            onFiltersChange={handleFiltersChange}
+            onCompareBrands={openBrandComparison}
             loading={loading}
             emptyMessage="No brand logos available"
           />
@@ -51,10 +384,26 @@ function App() {
       </main>
 
       <LogoModal
-        brand={selectedBrand}
-        open={selectedBrand !== null}
-        onClose={() => setSelectedBrand(null)}
+        brand={reportBrand ? null : selectedBrand}
+        open={selectedBrand !== null && reportBrand === null}
+        onClose={handleClose}
+        comparison={comparison}
+        onComparisonChange={handleComparisonChange}
+        onCompareWith={handleCompareWith}
+        onBrandClick={handleBrandClick}
+        onOpenReport={handleOpenReport}
       />
+
+      {route.name === 'compare-brands' && !loading && (
+        <BrandComparison
+          allBrands={brands}
+          brands={comparedBrands}
+          selection={route.selection}
+          onBrandsChange={handleComparedBrandsChange}
+          onSelectionChange={handleBrandComparisonSelectionChange}
+          onClose={handleClose}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,124 @@
+/**
+ * BrandBarChart Component
+ *
+ * Pure SVG horizontal bars comparing one metric across brands in a single quarter,
+ * savable as SVG or PNG
+ */
+
+import React, { useRef } from 'react';
+import type { MetricKey } from '../../types/quarterlyData';
+import { formatMetricValue, getMetricLabel } from '../../utils/metricRegistry';
+import { linearScale, niceTicks } from '../../utils/chartScale';
+import { svgElementToImage } from '../../utils/imageExport';
+import { ImageExportMenu } from '../ExportMenu';
+
+export interface BrandBar {
+  id: string;
+  label: string;
+  color: string;
+  value: number | null;
+}
+
+interface BrandBarChartProps {
+  metricKey: MetricKey;
+  quarter: string;
+  bars: BrandBar[];
+}
+
+const WIDTH = 640;
+const BAR_HEIGHT = 28;
+const BAR_GAP = 10;
+const MARGIN = { top: 8, right: 72, bottom: 28, left: 140 };
+
+export const BrandBarChart: React.FC<BrandBarChartProps> = ({ metricKey, quarter, bars }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const values = bars.map(b => b.value).filter((v): v is number => v !== null);
+
+  if (values.length === 0) {
+    return <p className="comparison-table-empty">No data for {quarter}</p>;
+  }
+
+  const height = MARGIN.top + bars.length * (BAR_HEIGHT + BAR_GAP) - BAR_GAP + MARGIN.bottom;
+  const { domain, ticks } = niceTicks(Math.min(0, ...values), Math.max(0, ...values), 4);
+  const x = linearScale(domain, [MARGIN.left, WIDTH - MARGIN.right]);
+
+  const title = `${getMetricLabel(metricKey)}, ${quarter}`;
+
+  return (
+    <div className="brand-bar-chart-wrapper">
+      <div className="brand-bar-chart-toolbar">
+        <ImageExportMenu
+          description="bar chart"
+          filename={`${metricKey}-${quarter}`.toLowerCase()}
+          getImage={() => svgElementToImage(svgRef.current, { title })}
+        />
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="brand-bar-chart"
+        role="img"
+        aria-label={`${getMetricLabel(metricKey)} in ${quarter}: ${bars
+          .map(b => `${b.label} ${formatMetricValue(b.value, metricKey)}`)
+          .join(', ')}`}
+      >
+        {ticks.map(tick => (
+          <g key={tick} className="trend-chart-gridline">
+            <line x1={x(tick)} x2={x(tick)} y1={MARGIN.top} y2={height - MARGIN.bottom} />
+            <text x={x(tick)} y={height - MARGIN.bottom + 16} textAnchor="middle">
+              {tick}
+            </text>
+          </g>
+        ))}
+
+        {bars.map((bar, index) => {
+          const y = MARGIN.top + index * (BAR_HEIGHT + BAR_GAP);
+          const start = x(Math.max(domain[0], 0));
+
+          return (
+            <g key={bar.id}>
+              <text
+                className="trend-chart-axis-label"
+                x={MARGIN.left - 8}
+                y={y + BAR_HEIGHT / 2}
+                dy="0.32em"
+                textAnchor="end"
+              >
+                {bar.label}
+              </text>
+              {bar.value !== null ? (
+                <>
+                  <rect
+                    x={Math.min(start, x(bar.value))}
+                    y={y}
+                    width={Math.abs(x(bar.value) - start)}
+                    height={BAR_HEIGHT}
+                    fill={bar.color}
+                    rx={3}
+                  />
+                  <text
+                    className="trend-chart-axis-label"
+                    x={Math.max(start, x(bar.value)) + 6}
+                    y={y + BAR_HEIGHT / 2}
+                    dy="0.32em"
+                  >
+                    {formatMetricValue(bar.value, metricKey)}
+                  </text>
+                </>
+              ) : (
+                <text
+                  className="trend-chart-axis-label"
+                  x={start + 6}
+                  y={y + BAR_HEIGHT / 2}
+                  dy="0.32em"
+                >
+                  No data
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,278 @@
+/**
+ * BrandComparison Component
+ *
+ * Brand-vs-brand comparison workspace: pick 2-6 brands and compare any
+ * metrics side by side in one quarter or across all quarters.
+ * Brands, quarter and metrics are owned by the URL so comparisons can be shared.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Brand } from '../../types/brand';
+import type { BrandComparisonData, MetricKey } from '../../types/quarterlyData';
+import type { BrandComparisonSelection } from '../../types/routes';
+import {
+  brandAssociationService,
+  MAX_COMPARISON_BRANDS,
+  MIN_COMPARISON_BRANDS,
+} from '../../services/brandAssociationService';
+import { getMetricLabel, isMetricKey } from '../../utils/metricRegistry';
+import { seriesColor } from '../../utils/chartScale';
+import { MetricSelector } from '../QuarterComparison/MetricSelector';
+import { MetricTrendChart } from '../QuarterComparison/MetricTrendChart';
+import { BrandPicker } from './BrandPicker';
+import { BrandComparisonTable } from './BrandComparisonTable';
+import { BrandBarChart } from './BrandBarChart';
+import '../QuarterComparison/QuarterComparison.css';
+import './BrandComparison.css';
+
+interface BrandComparisonProps {
+  /** Full catalog, for adding brands */
+  allBrands: Brand[];
+  /** Brands being compared, in display order */
+  brands: Brand[];
+  selection: BrandComparisonSelection;
+  onBrandsChange: (brands: Brand[]) => void;
+  onSelectionChange: (selection: BrandComparisonSelection) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_METRICS: MetricKey[] = ['Brand_Stature_C', 'Brand_Strength_C', 'Brand_Asset_C'];
+
+export const BrandComparison: React.FC<BrandComparisonProps> = ({
+  allBrands,
+  brands,
+  selection,
+  onBrandsChange,
+  onSelectionChange,
+  onClose,
+}) => {
+  const [data, setData] = useState<BrandComparisonData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [chartMetric, setChartMetric] = useState<MetricKey | null>(null);
+
+  const knownMetrics = selection.metrics.filter(isMetricKey);
+  const metrics = knownMetrics.length > 0 ? knownMetrics : DEFAULT_METRICS;
+  const activeChartMetric = chartMetric && metrics.includes(chartMetric) ? chartMetric : metrics[0];
+
+  const brandIdsKey = brands.map(b => b.id).join(',');
+  const canCompare = brands.length >= MIN_COMPARISON_BRANDS;
+
+  // Escape closes the workspace
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'unset';
+    };
+  }, [onClose]);
+
+  useEffect(() => {
+    if (!canCompare) {
+      setData(null);
+      return;
+    }
+
+    let mounted = true;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const comparison = await brandAssociationService.compareBrands(brandIdsKey.split(','));
+
+        if (mounted) {
+          setData(comparison);
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load comparison data');
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadData();
+
+    return () => {
+      mounted = false;
+    };
+  }, [brandIdsKey, canCompare]);
+
+  const quarters = data?.quarters ?? [];
+  // Ignore a quarter from the URL that none of the brands has data for
+  const quarter = quarters.includes(selection.quarter) ? selection.quarter : '';
+
+  // One chart line per brand for the chart metric
+  const trendSeries = useMemo(() => {
+    if (!data) return [];
+
+    return brands.map(brand => ({
+      id: brand.id,
+      label: brand.name,
+      metricKey: activeChartMetric,
+      values: data.quarters.map(q => data.metricsByBrand.get(brand.id)?.get(q)?.[activeChartMetric] ?? null),
+    }));
+  }, [data, brands, activeChartMetric]);
+
+  const handleAddBrand = (brand: Brand) => {
+    if (brands.length < MAX_COMPARISON_BRANDS) {
+      onBrandsChange([...brands, brand]);
+    }
+  };
+
+  const handleRemoveBrand = (brandId: string) => {
+    onBrandsChange(brands.filter(b => b.id !== brandId));
+  };
+
+  const handleMetricChange = (nextMetrics: string[]) => {
+    onSelectionChange({ ...selection, metrics: nextMetrics });
+  };
+
+  return (
+    <div
+      className="brand-comparison-overlay"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="brand-comparison-title"
+    >
+      <div className="quarter-comparison brand-comparison" role="document">
+        <div className="quarter-comparison-header">
+          <h2 id="brand-comparison-title">Compare Brands</h2>
+          <button
+            onClick={onClose}
+            className="btn-close"
+            aria-label="Close comparison (press Escape)"
+            title="Close (Escape)"
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Selected brands */}
+        <div className="brand-comparison-brands">
+          <ul className="brand-chips" aria-label="Brands being compared">
+            {brands.map((brand, index) => (
+              <li key={brand.id} className="brand-chip">
+                <span className="brand-swatch" style={{ background: seriesColor(index) }} />
+                {brand.name}
+                <button
+                  type="button"
+                  className="brand-chip-remove"
+                  onClick={() => handleRemoveBrand(brand.id)}
+                  aria-label={`Remove ${brand.name}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+          <BrandPicker
+            brands={allBrands}
+            excludeIds={brands.map(b => b.id)}
+            onSelect={handleAddBrand}
+            disabled={brands.length >= MAX_COMPARISON_BRANDS}
+          />
+        </div>
+
+        {!canCompare ? (
+          <p className="brand-comparison-hint">
+            Add {MIN_COMPARISON_BRANDS - brands.length} more brand
+            {MIN_COMPARISON_BRANDS - brands.length !== 1 ? 's' : ''} to compare (up to{' '}
+            {MAX_COMPARISON_BRANDS}).
+          </p>
+        ) : loading && !data ? (
+          <div className="quarter-comparison--loading">
+            <div className="spinner"></div>
+            <p>Loading comparison data...</p>
+          </div>
+        ) : error ? (
+          <p className="error-message" role="alert">
+            ❌ {error}
+          </p>
+        ) : data && quarters.length === 0 ? (
+          <p className="empty-message">None of these brands has quarterly data.</p>
+        ) : data ? (
+          <div className="quarter-comparison-content">
+            <div className="quarter-comparison-sidebar">
+              <div className="brand-comparison-quarter">
+                <label htmlFor="brand-comparison-quarter">Quarter</label>
+                <select
+                  id="brand-comparison-quarter"
+                  value={quarter}
+                  onChange={e => onSelectionChange({ ...selection, quarter: e.target.value })}
+                >
+                  <option value="">All quarters</option>
+                  {quarters.map(q => (
+                    <option key={q} value={q}>
+                      {q}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <MetricSelector selectedMetrics={metrics} onSelectionChange={handleMetricChange} />
+            </div>
+
+            <div className="quarter-comparison-main">
+              <div className="brand-comparison-chart-metric">
+                <label htmlFor="brand-comparison-chart-metric">Chart metric</label>
+                <select
+                  id="brand-comparison-chart-metric"
+                  value={activeChartMetric}
+                  onChange={e => setChartMetric(e.target.value as MetricKey)}
+                >
+                  {metrics.map(key => (
+                    <option key={key} value={key}>
+                      {getMetricLabel(key)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {quarter ? (
+                <BrandBarChart
+                  metricKey={activeChartMetric}
+                  quarter={quarter}
+                  bars={brands.map((brand, index) => ({
+                    id: brand.id,
+                    label: brand.name,
+                    color: seriesColor(index),
+                    value: data.metricsByBrand.get(brand.id)?.get(quarter)?.[activeChartMetric] ?? null,
+                  }))}
+                />
+              ) : (
+                <MetricTrendChart
+                  quarters={quarters}
+                  series={trendSeries}
+                  title={getMetricLabel(activeChartMetric)}
+                  exportTitle={`${getMetricLabel(activeChartMetric)}: ${brands
+                    .map(brand => brand.name)
+                    .join(' vs ')}`}
+                />
+              )}
+
+              <BrandComparisonTable
+                brands={brands}
+                metrics={metrics}
+                metricsByBrand={data.metricsByBrand}
+                quarter={quarter}
+              />
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
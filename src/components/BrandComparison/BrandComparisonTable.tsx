@@ -0,0 +1,143 @@
+/**
+ * BrandComparisonTable Component
+ *
+ * Metrics (rows) × brands (columns) for one quarter, or — across all
+ * quarters — each brand's latest value and its change since its first quarter.
+ * The leading brand in each row is highlighted.
+ */
+
+import React from 'react';
+import type { Brand } from '../../types/brand';
+import type { BrandMetrics, MetricKey } from '../../types/quarterlyData';
+import {
+  formatMetricValue,
+  getChangeDirection,
+  getMetricDefinition,
+  getMetricUnitSuffix,
+} from '../../utils/metricRegistry';
+import { seriesColor } from '../../utils/chartScale';
+
+interface BrandComparisonTableProps {
+  brands: Brand[];
+  metrics: MetricKey[];
+  metricsByBrand: Map<string, Map<string, BrandMetrics>>;
+  /** Quarter to compare, or empty string for all quarters */
+  quarter: string;
+}
+
+interface BrandCell {
+  value: number | null;
+  /** Quarter the value comes from (all-quarters mode) */
+  valueQuarter: string | null;
+  /** Change from the brand's first to latest quarter (all-quarters mode) */
+  change: number | null;
+}
+
+function getCell(
+  brandMetrics: Map<string, BrandMetrics> | undefined,
+  key: MetricKey,
+  quarter: string
+): BrandCell {
+  if (!brandMetrics) {
+    return { value: null, valueQuarter: null, change: null };
+  }
+
+  if (quarter) {
+    return { value: brandMetrics.get(quarter)?.[key] ?? null, valueQuarter: quarter, change: null };
+  }
+
+  const points = Array.from(brandMetrics.entries())
+    .filter(([, metrics]) => metrics[key] !== null)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  if (points.length === 0) {
+    return { value: null, valueQuarter: null, change: null };
+  }
+
+  const [firstQuarter, first] = points[0];
+  const [lastQuarter, last] = points[points.length - 1];
+
+  return {
+    value: last[key],
+    valueQuarter: lastQuarter,
+    change: firstQuarter !== lastQuarter ? (last[key] as number) - (first[key] as number) : null,
+  };
+}
+
+export const BrandComparisonTable: React.FC<BrandComparisonTableProps> = ({
+  brands,
+  metrics,
+  metricsByBrand,
+  quarter,
+}) => {
+  if (metrics.length === 0) {
+    return (
+      <div className="comparison-table-empty">
+        <p>Select metrics to compare</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="comparison-table-wrapper">
+      <table className="comparison-table brand-comparison-table">
+        <caption className="brand-comparison-caption">
+          {quarter ? `Values in ${quarter}` : "Latest value and change since each brand's first quarter"}
+        </caption>
+        <thead>
+          <tr>
+            <th scope="col">Metric</th>
+            {brands.map((brand, index) => (
+              <th key={brand.id} scope="col">
+                <span className="brand-swatch" style={{ background: seriesColor(index) }} />
+                {brand.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.map(key => {
+            const definition = getMetricDefinition(key);
+            const cells = brands.map(brand => getCell(metricsByBrand.get(brand.id), key, quarter));
+
+            // Leader: highest value (lowest for negative attributes), only if 2+ brands have data
+            const values = cells.map(c => c.value).filter((v): v is number => v !== null);
+            const best =
+              values.length > 1
+                ? definition.higherIsBetter
+                  ? Math.max(...values)
+                  : Math.min(...values)
+                : null;
+
+            return (
+              <tr key={key}>
+                <th scope="row" className="metric-name" title={definition.description}>
+                  {definition.label}
+                </th>
+                {cells.map((cell, index) => (
+                  <td
+                    key={brands[index].id}
+                    className={`metric-value ${cell.value !== null && cell.value === best ? 'best' : ''}`}
+                  >
+                    {formatMetricValue(cell.value, key)}
+                    {!quarter && cell.valueQuarter && (
+                      <span className="brand-comparison-value-quarter"> ({cell.valueQuarter})</span>
+                    )}
+                    {cell.change !== null && (
+                      <span className={`change-value ${getChangeDirection(cell.change, key)}`}>
+                        {' '}
+                        {cell.change > 0 ? '+' : ''}
+                        {cell.change.toFixed(2)}
+                        {getMetricUnitSuffix(key)}
+                      </span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
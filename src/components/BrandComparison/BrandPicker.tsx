@@ -0,0 +1,123 @@
+/**
+ * BrandPicker Component
+ *
+ * Search-as-you-type combobox for adding a brand to the comparison.
+ * Brands with quarterly data are suggested first.
+ */
+
+import React, { useId, useMemo, useState } from 'react';
+import type { Brand } from '../../types/brand';
+import { searchBrandsRanked } from '../../services/brandSearch';
+import { brandAvailabilityIndex } from '../../services/brandAvailabilityIndex';
+
+const MAX_SUGGESTIONS = 8;
+
+interface BrandPickerProps {
+  brands: Brand[];
+  excludeIds: string[];
+  onSelect: (brand: Brand) => void;
+  disabled?: boolean;
+}
+
+export const BrandPicker: React.FC<BrandPickerProps> = ({
+  brands,
+  excludeIds,
+  onSelect,
+  disabled = false,
+}) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listId = useId();
+
+  const suggestions = useMemo(() => {
+    if (!query.trim()) return [];
+
+    const indexReady = brandAvailabilityIndex.isReady();
+    const candidates = searchBrandsRanked(brands, query)
+      .map(result => result.brand)
+      .filter(brand => !excludeIds.includes(brand.id));
+
+    // Stable partition: brands with data first, relevance order otherwise kept
+    const withData = indexReady ? candidates.filter(b => brandAvailabilityIndex.hasData(b.id)) : candidates;
+    const withoutData = indexReady ? candidates.filter(b => !brandAvailabilityIndex.hasData(b.id)) : [];
+
+    return [...withData, ...withoutData].slice(0, MAX_SUGGESTIONS);
+  }, [brands, query, excludeIds]);
+
+  const choose = (brand: Brand) => {
+    onSelect(brand);
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(prev => (prev + 1) % suggestions.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(prev => (prev - 1 + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      choose(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (event.key === 'Escape') {
+      // Clear the suggestions without closing the comparison
+      event.stopPropagation();
+      setQuery('');
+    }
+  };
+
+  const expanded = suggestions.length > 0;
+
+  return (
+    <div className="brand-picker">
+      <input
+        type="search"
+        className="brand-picker-input"
+        value={query}
+        onChange={e => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder={disabled ? 'Maximum brands selected' : 'Add a brand…'}
+        disabled={disabled}
+        role="combobox"
+        aria-label="Add a brand to compare"
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={expanded ? `${listId}-${activeIndex}` : undefined}
+      />
+
+      {expanded && (
+        <ul id={listId} className="brand-picker-list" role="listbox">
+          {suggestions.map((brand, index) => {
+            const hasData = !brandAvailabilityIndex.isReady() || brandAvailabilityIndex.hasData(brand.id);
+
+            return (
+              <li
+                key={brand.id}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`brand-picker-option ${index === activeIndex ? 'active' : ''}`}
+                // Keep focus in the input while clicking an option
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => choose(brand)}
+              >
+                <span>{brand.name}</span>
+                <span className="brand-picker-meta">
+                  {brand.category}
+                  {!hasData && ' · no quarterly data'}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
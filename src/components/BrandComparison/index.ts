@@ -0,0 +1 @@
+export { BrandComparison } from './BrandComparison';
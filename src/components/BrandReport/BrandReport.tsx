@@ -0,0 +1,210 @@
+/**
+ * BrandReport Component
+ * Feature: 004-quarterly-data-association
+ *
+ * One-page brand summary for printing or saving as PDF: logo, category,
+ * data coverage, headline metrics for the latest quarter and their trends.
+ * The summary card can also be saved as SVG or PNG for slides.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { Brand } from '../../types/brand';
+import type { BrandReport as BrandReportData, MetricKey } from '../../types/quarterlyData';
+import { brandReportService } from '../../services/brandReportService';
+import {
+  formatMetricValue,
+  getChangeDirection,
+  getMetricDefinition,
+  getMetricUnitSuffix,
+} from '../../utils/metricRegistry';
+import { formatPercentile } from '../../utils/benchmarks';
+import { createBrandCardImage } from '../../utils/brandCard';
+import { MetricTrendChart, type TrendSeriesInput } from '../QuarterComparison/MetricTrendChart';
+import { ImageExportMenu } from '../ExportMenu';
+import '../QuarterComparison/QuarterComparison.css';
+import './BrandReport.css';
+
+interface BrandReportProps {
+  brand: Brand;
+  /** Leave the report (back to the brand) */
+  onClose: () => void;
+}
+
+function trendSeries(report: BrandReportData, metrics: MetricKey[]): TrendSeriesInput[] {
+  return metrics.map(metric => ({
+    id: metric,
+    label: getMetricDefinition(metric).label,
+    metricKey: metric,
+    values: report.quarters.map(quarter => report.metricsByQuarter.get(quarter)?.[metric] ?? null),
+  }));
+}
+
+export const BrandReport: React.FC<BrandReportProps> = ({ brand, onClose }) => {
+  const [report, setReport] = useState<BrandReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await brandReportService.getBrandReport(brand.id);
+
+        if (mounted) {
+          setReport(result);
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load brand report');
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadData();
+
+    return () => {
+      mounted = false;
+    };
+  }, [brand.id]);
+
+  const keyMetrics = report?.keyMetrics.map(summary => summary.metric) ?? [];
+  const scoreMetrics = keyMetrics.filter(metric => getMetricDefinition(metric).unit === 'score');
+  const percentMetrics = keyMetrics.filter(metric => getMetricDefinition(metric).unit === 'percent');
+
+  return (
+    <section className="brand-report" aria-labelledby="brand-report-title">
+      <div className="brand-report-toolbar">
+        <button type="button" className="brand-report-back" onClick={onClose}>
+          ← Back to {brand.name}
+        </button>
+        <div className="brand-report-actions">
+          <ImageExportMenu
+            description={`${brand.name} summary card`}
+            filename={`${brand.slug}-card`}
+            disabled={!report}
+            getImage={() => {
+              if (!report) throw new Error('The report is still loading');
+              return createBrandCardImage(report);
+            }}
+          />
+          <button
+            type="button"
+            className="brand-report-print"
+            onClick={() => window.print()}
+            disabled={!report}
+          >
+            Print / Save as PDF
+          </button>
+        </div>
+      </div>
+
+      <article className="brand-report-page">
+        <header className="brand-report-header">
+          <img src={`/${brand.logoPath}`} alt={`${brand.name} logo`} className="brand-report-logo" />
+          <div>
+            <h2 id="brand-report-title">{brand.name}</h2>
+            <p className="brand-report-category">
+              {brand.category}
+              {report?.surveyCategory && report.surveyCategory !== brand.category && (
+                <> · surveyed as {report.surveyCategory}</>
+              )}
+            </p>
+            {report && (
+              <p className="brand-report-coverage">
+                {report.coverage.quartersWithData > 0
+                  ? `Perception data in ${report.coverage.quartersWithData} of ${report.coverage.totalQuarters} quarters (${report.coverage.earliestQuarter}–${report.coverage.latestQuarter}, ${Math.round(report.coverage.coveragePercent)}% coverage)`
+                  : 'No quarterly perception data for this brand'}
+              </p>
+            )}
+            {brand.description && <p className="brand-report-description">{brand.description}</p>}
+          </div>
+        </header>
+
+        {error ? (
+          <p className="brand-report-message brand-report-message--error" role="alert">
+            {error}
+          </p>
+        ) : loading || !report ? (
+          <p className="brand-report-message" role="status">
+            Loading report...
+          </p>
+        ) : report.latestQuarter ? (
+          <>
+            <section className="brand-report-section" aria-labelledby="brand-report-metrics">
+              <h3 id="brand-report-metrics">
+                Key metrics, {report.latestQuarter}
+                {report.previousQuarter && (
+                  <span className="brand-report-subtitle"> · change vs {report.previousQuarter}</span>
+                )}
+              </h3>
+              <dl className="brand-report-metrics">
+                {report.keyMetrics.map(summary => {
+                  const definition = getMetricDefinition(summary.metric);
+                  const direction =
+                    summary.change !== null
+                      ? getChangeDirection(summary.change, summary.metric)
+                      : 'neutral';
+
+                  return (
+                    <div key={summary.metric} className="brand-report-metric">
+                      <dt title={definition.description}>{definition.label}</dt>
+                      <dd className="brand-report-value">
+                        {formatMetricValue(summary.value, summary.metric)}
+                      </dd>
+                      {summary.change !== null && (
+                        <dd className={`brand-report-change ${direction}`}>
+                          {summary.change > 0 ? '▲' : summary.change < 0 ? '▼' : '–'}{' '}
+                          {Math.abs(summary.change).toFixed(2)}
+                          {getMetricUnitSuffix(summary.metric)}
+                        </dd>
+                      )}
+                      {summary.percentile !== null && (
+                        <dd className="brand-report-percentile">
+                          {formatPercentile(Math.round(summary.percentile))} percentile in category
+                        </dd>
+                      )}
+                    </div>
+                  );
+                })}
+              </dl>
+            </section>
+
+            {report.quarters.length > 1 && (
+              <section className="brand-report-section brand-report-trends">
+                <MetricTrendChart
+                  quarters={report.quarters}
+                  series={trendSeries(report, scoreMetrics)}
+                  title="Brand equity scores"
+                  exportTitle={`${brand.name}: brand equity scores`}
+                />
+                <MetricTrendChart
+                  quarters={report.quarters}
+                  series={trendSeries(report, percentMetrics)}
+                  title="Usage and preference"
+                  exportTitle={`${brand.name}: usage and preference`}
+                />
+              </section>
+            )}
+          </>
+        ) : (
+          <p className="brand-report-message">
+            This brand was not included in the quarterly perception surveys.
+          </p>
+        )}
+
+        <footer className="brand-report-footer">
+          Quarterly brand perception data · {window.location.host}
+          {window.location.pathname} · {new Date().toLocaleDateString()}
+        </footer>
+      </article>
+    </section>
+  );
+};
@@ -0,0 +1 @@
+export { BrandReport } from './BrandReport';
@@ -0,0 +1,329 @@
+/**
+ * Clusters Component
+ * Feature: 004-quarterly-data-association
+ *
+ * Segments a quarter's brands with k-means or hierarchical clustering over
+ * chosen metrics. Each cluster shows its centroid profile, distinctive
+ * traits and member logos; assignments can be exported as CSV.
+ * Quarter, method, k and metrics are owned by the URL.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { Brand } from '../../types/brand';
+import type { BrandClustering, MetricGroup, MetricKey } from '../../types/quarterlyData';
+import type { ClustersSelection } from '../../types/routes';
+import {
+  DEFAULT_CLUSTER_METRICS,
+  MAX_CLUSTERS,
+  MIN_CLUSTERS,
+  clusteringService,
+} from '../../services/clusteringService';
+import { quarterlyDataLoader } from '../../services/quarterlyDataLoader';
+import {
+  METRIC_GROUPS,
+  formatMetricValue,
+  getMetricLabel,
+  getMetricsByGroup,
+  isMetricKey,
+} from '../../utils/metricRegistry';
+import { seriesColor } from '../../utils/chartScale';
+import { downloadFile } from '../../utils/csvExport';
+import './Clusters.css';
+
+interface ClustersProps {
+  selection: ClustersSelection;
+  onSelectionChange: (selection: ClustersSelection) => void;
+  onBrandClick: (brand: Brand) => void;
+}
+
+const CLUSTER_COUNTS = Array.from(
+  { length: MAX_CLUSTERS - MIN_CLUSTERS + 1 },
+  (_, index) => MIN_CLUSTERS + index
+);
+
+/**
+ * The metric group exactly matching a metric list, if any (for the preset select)
+ */
+function matchingGroup(metrics: MetricKey[]): MetricGroup | '' {
+  const group = METRIC_GROUPS.find(g => {
+    const keys = getMetricsByGroup(g).map(m => m.key);
+    return keys.length === metrics.length && keys.every(key => metrics.includes(key));
+  });
+  return group ?? '';
+}
+
+export const Clusters: React.FC<ClustersProps> = ({
+  selection,
+  onSelectionChange,
+  onBrandClick,
+}) => {
+  const [quarters, setQuarters] = useState<string[]>([]);
+  const [clustering, setClustering] = useState<BrandClustering | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to the latest quarter; ignore quarters that aren't available
+  const quarter = quarters.includes(selection.quarter)
+    ? selection.quarter
+    : quarters[quarters.length - 1] || '';
+  const k = Math.min(Math.max(selection.k, MIN_CLUSTERS), MAX_CLUSTERS);
+  const chosenMetrics = selection.metrics.filter(isMetricKey);
+  const metrics = chosenMetrics.length > 0 ? chosenMetrics : DEFAULT_CLUSTER_METRICS;
+  const metricsKey = metrics.join(',');
+  const preset = matchingGroup(metrics);
+
+  useEffect(() => {
+    let mounted = true;
+
+    quarterlyDataLoader
+      .getAvailableQuarters()
+      .then(available => {
+        if (mounted) setQuarters(available);
+      })
+      .catch(err => {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load quarters');
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!quarter) return;
+
+    let mounted = true;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await clusteringService.clusterQuarter(quarter, {
+          algorithm: selection.algorithm,
+          k,
+          metrics: metricsKey.split(',') as MetricKey[],
+        });
+
+        if (mounted) {
+          setClustering(result);
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to cluster brands');
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadData();
+
+    return () => {
+      mounted = false;
+    };
+  }, [quarter, selection.algorithm, k, metricsKey]);
+
+  const update = (changes: Partial<ClustersSelection>) => {
+    onSelectionChange({ ...selection, quarter, k, metrics: chosenMetrics, ...changes });
+  };
+
+  const toggleMetric = (metric: MetricKey, checked: boolean) => {
+    const next = checked ? [...metrics, metric] : metrics.filter(m => m !== metric);
+    // Keep at least one metric
+    if (next.length > 0) update({ metrics: next });
+  };
+
+  const handleExport = () => {
+    if (!clustering) return;
+    downloadFile(
+      `clusters-${clustering.quarter}-${clustering.algorithm}-k${clustering.clusters.length}.csv`,
+      clusteringService.toAssignmentsCsv(clustering),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  return (
+    <section className="clusters" aria-labelledby="clusters-title">
+      <h2 id="clusters-title">Brand Clusters</h2>
+
+      <div className="clusters-controls">
+        <label>
+          Quarter
+          <select value={quarter} onChange={e => update({ quarter: e.target.value })}>
+            {quarters.map(q => (
+              <option key={q} value={q}>
+                {q}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Method
+          <select
+            value={selection.algorithm}
+            onChange={e =>
+              update({ algorithm: e.target.value === 'hierarchical' ? 'hierarchical' : 'kmeans' })
+            }
+          >
+            <option value="kmeans">k-means</option>
+            <option value="hierarchical">Hierarchical (average linkage)</option>
+          </select>
+        </label>
+
+        <label>
+          Clusters
+          <select value={k} onChange={e => update({ k: Number(e.target.value) })}>
+            {CLUSTER_COUNTS.map(count => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Metrics
+          <select
+            value={preset}
+            onChange={e => {
+              const group = METRIC_GROUPS.find(g => g === e.target.value);
+              if (group) update({ metrics: getMetricsByGroup(group).map(m => m.key) });
+            }}
+          >
+            {!preset && <option value="">Custom ({metrics.length})</option>}
+            {METRIC_GROUPS.map(group => (
+              <option key={group} value={group}>
+                {group}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          type="button"
+          className="clusters-export"
+          onClick={handleExport}
+          disabled={!clustering || loading}
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <details className="clusters-metrics">
+        <summary>Choose individual metrics ({metrics.length} selected)</summary>
+        {METRIC_GROUPS.map(group => (
+          <fieldset key={group}>
+            <legend>{group}</legend>
+            {getMetricsByGroup(group).map(metric => (
+              <label key={metric.key}>
+                <input
+                  type="checkbox"
+                  checked={metrics.includes(metric.key)}
+                  onChange={e => toggleMetric(metric.key, e.target.checked)}
+                />
+                {metric.label}
+              </label>
+            ))}
+          </fieldset>
+        ))}
+      </details>
+
+      {error ? (
+        <p className="clusters-message clusters-message--error" role="alert">
+          {error}
+        </p>
+      ) : !clustering ? (
+        <p className="clusters-message" role="status">
+          Clustering brands...
+        </p>
+      ) : (
+        <>
+          <p className="clusters-summary" aria-live="polite">
+            {clustering.clusters.reduce((sum, cluster) => sum + cluster.members.length, 0)} brands
+            in {clustering.quarter} grouped into {clustering.clusters.length} clusters by{' '}
+            {clustering.metrics.length} metric{clustering.metrics.length !== 1 ? 's' : ''}
+            {loading && <span className="clusters-loading"> · updating…</span>}
+          </p>
+
+          <ol className="clusters-list">
+            {clustering.clusters.map(cluster => (
+              <li
+                key={cluster.id}
+                className="clusters-card"
+                style={{ borderTopColor: seriesColor(cluster.id - 1) }}
+              >
+                <h3>
+                  Cluster {cluster.id}{' '}
+                  <span className="clusters-count">
+                    {cluster.members.length} brand{cluster.members.length !== 1 ? 's' : ''}
+                  </span>
+                </h3>
+
+                {cluster.traits.length > 0 && (
+                  <ul className="clusters-traits" aria-label="Distinctive traits">
+                    {cluster.traits.map(trait => (
+                      <li
+                        key={trait.metric}
+                        className={trait.z >= 0 ? 'is-high' : 'is-low'}
+                        title={`${formatMetricValue(trait.value, trait.metric)} (${trait.z > 0 ? '+' : ''}${trait.z.toFixed(2)} SD from the quarter mean)`}
+                      >
+                        {trait.z >= 0 ? 'High' : 'Low'} {getMetricLabel(trait.metric)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <details className="clusters-profile">
+                  <summary>Centroid profile</summary>
+                  <table>
+                    <tbody>
+                      {clustering.metrics.map(metric => {
+                        const value = cluster.centroid[metric];
+                        const trait = cluster.traits.find(t => t.metric === metric);
+                        return (
+                          <tr key={metric} className={trait ? 'is-distinctive' : undefined}>
+                            <th scope="row">{getMetricLabel(metric)}</th>
+                            <td>{formatMetricValue(value ?? null, metric)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </details>
+
+                <ul className="clusters-members">
+                  {cluster.members.map(brand => (
+                    <li key={brand.id}>
+                      <button
+                        type="button"
+                        className="clusters-member"
+                        onClick={() => onBrandClick(brand)}
+                        title={brand.name}
+                      >
+                        <img src={`/${brand.logoPath}`} alt={brand.name} loading="lazy" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+
+          {clustering.excluded.length > 0 && (
+            <p className="clusters-excluded">
+              Not clustered (missing most of these metrics):{' '}
+              {clustering.excluded.map(brand => brand.name).join(', ')}
+            </p>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
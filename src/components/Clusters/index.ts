@@ -0,0 +1 @@
+export { Clusters } from './Clusters';
@@ -0,0 +1,73 @@
+/**
+ * ExportMenu Component
+ *
+ * CSV / XLSX / JSON download buttons for whatever a view is showing.
+ * The dataset is built on demand, so views only pay for it when exporting.
+ */
+
+import React, { useState } from 'react';
+import {
+  EXPORT_FORMATS,
+  exportDataset,
+  type ExportDataset,
+  type ExportFormat,
+} from '../../utils/dataExport';
+import './ExportMenu.css';
+
+interface ExportMenuProps {
+  /** Build the dataset to export (may load data) */
+  getDataset: () => ExportDataset | Promise<ExportDataset>;
+  disabled?: boolean;
+  /** Describes what is exported, for screen readers, e.g. "leaderboard" */
+  description?: string;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'XLSX',
+  json: 'JSON',
+};
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  getDataset,
+  disabled = false,
+  description = 'data',
+}) => {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(true);
+      setError(null);
+      exportDataset(await getDataset(), format);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="export-menu" role="group" aria-label={`Export ${description}`}>
+      <span className="export-menu-label">Export</span>
+      {EXPORT_FORMATS.map(format => (
+        <button
+          key={format}
+          type="button"
+          className="export-menu-button"
+          onClick={() => handleExport(format)}
+          disabled={disabled || exporting}
+          aria-label={`Export ${description} as ${FORMAT_LABELS[format]}`}
+        >
+          {FORMAT_LABELS[format]}
+        </button>
+      ))}
+      {error && (
+        <span className="export-menu-error" role="alert">
+          {error}
+        </span>
+      )}
+    </div>
+  );
+};
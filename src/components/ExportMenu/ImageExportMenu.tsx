@@ -0,0 +1,73 @@
+/**
+ * ImageExportMenu Component
+ *
+ * SVG / PNG download buttons for a chart or any other SVG image.
+ */
+
+import React, { useState } from 'react';
+import { downloadPngImage, downloadSvgImage, type SvgImage } from '../../utils/imageExport';
+import './ExportMenu.css';
+
+type ImageFormat = 'svg' | 'png';
+
+interface ImageExportMenuProps {
+  /** Build the image to export, e.g. () => svgElementToImage(svgRef.current) */
+  getImage: () => Promise<SvgImage>;
+  /** File name without extension */
+  filename: string;
+  /** Describes what is exported, for screen readers, e.g. "trend chart" */
+  description?: string;
+  disabled?: boolean;
+}
+
+const FORMATS: ImageFormat[] = ['svg', 'png'];
+
+export const ImageExportMenu: React.FC<ImageExportMenuProps> = ({
+  getImage,
+  filename,
+  description = 'chart',
+  disabled = false,
+}) => {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ImageFormat) => {
+    try {
+      setExporting(true);
+      setError(null);
+      const image = await getImage();
+      if (format === 'svg') {
+        downloadSvgImage(image, filename);
+      } else {
+        await downloadPngImage(image, filename);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="export-menu" role="group" aria-label={`Save ${description} as an image`}>
+      <span className="export-menu-label">Save</span>
+      {FORMATS.map(format => (
+        <button
+          key={format}
+          type="button"
+          className="export-menu-button"
+          onClick={() => handleExport(format)}
+          disabled={disabled || exporting}
+          aria-label={`Save ${description} as ${format.toUpperCase()}`}
+        >
+          {format.toUpperCase()}
+        </button>
+      ))}
+      {error && (
+        <span className="export-menu-error" role="alert">
+          {error}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { ExportMenu } from './ExportMenu';
+export { ImageExportMenu } from './ImageExportMenu';
@@ -0,0 +1,302 @@
+/**
+ * Heatmap Component
+ * Feature: 004-quarterly-data-association
+ *
+ * Brands (rows) × quarters (columns) for one metric, colored on a
+ * sequential scale. Rows can be filtered by category or name and sorted by
+ * latest value or change; missing cells are hatched. Metric, filters and
+ * sort are owned by the URL.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Brand } from '../../types/brand';
+import type { HeatmapRow, MetricHeatmap } from '../../types/quarterlyData';
+import type { HeatmapSelection, HeatmapSort } from '../../types/routes';
+import { heatmapService } from '../../services/heatmapService';
+import {
+  METRIC_GROUPS,
+  formatMetricValue,
+  getMetricDefinition,
+  getMetricsByGroup,
+  isMetricKey,
+} from '../../utils/metricRegistry';
+import { getAllCategories, isValidCategory } from '../../utils/categoryInference';
+import { sequentialColor, sequentialGradient } from '../../utils/chartScale';
+import './Heatmap.css';
+
+interface HeatmapProps {
+  selection: HeatmapSelection;
+  onSelectionChange: (selection: HeatmapSelection) => void;
+  onBrandClick: (brand: Brand) => void;
+}
+
+const DEFAULT_METRIC = 'Brand_Strength_C';
+
+const SORT_LABELS: Record<HeatmapSort, string> = {
+  latest: 'Latest value',
+  change: 'Change since first quarter',
+  name: 'Name',
+};
+const SORTS = Object.keys(SORT_LABELS) as HeatmapSort[];
+const DEFAULT_SORT: HeatmapSort = 'latest';
+
+// Text on the brighter half of the palette is dark, on the darker half light
+const LIGHT_CELL_THRESHOLD = 0.6;
+
+/**
+ * Order rows; brands without a sort value go last
+ */
+function sortRows(rows: HeatmapRow[], sort: HeatmapSort, direction: 'asc' | 'desc'): HeatmapRow[] {
+  if (sort === 'name') {
+    return rows;
+  }
+
+  const sign = direction === 'desc' ? -1 : 1;
+  return [...rows].sort((a, b) => {
+    const av = a[sort];
+    const bv = b[sort];
+    if (av === null || bv === null) {
+      return (
+        (av === null ? 1 : 0) - (bv === null ? 1 : 0) || a.brand.name.localeCompare(b.brand.name)
+      );
+    }
+    return sign * (av - bv) || a.brand.name.localeCompare(b.brand.name);
+  });
+}
+
+export const Heatmap: React.FC<HeatmapProps> = ({ selection, onSelectionChange, onBrandClick }) => {
+  const [heatmap, setHeatmap] = useState<MetricHeatmap | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const metric = isMetricKey(selection.metric) ? selection.metric : DEFAULT_METRIC;
+  const definition = getMetricDefinition(metric);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await heatmapService.getMetricHeatmap(metric);
+
+        if (mounted) {
+          setHeatmap(result);
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load heatmap');
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadData();
+
+    return () => {
+      mounted = false;
+    };
+  }, [metric]);
+
+  const rows = useMemo(() => {
+    if (!heatmap) return [];
+
+    const search = selection.search.trim().toLowerCase();
+    const filtered = heatmap.rows.filter(
+      row =>
+        (!selection.category || row.brand.category === selection.category) &&
+        (!search || row.brand.name.toLowerCase().includes(search))
+    );
+    return sortRows(filtered, selection.sort, selection.direction);
+  }, [heatmap, selection.category, selection.search, selection.sort, selection.direction]);
+
+  const update = (changes: Partial<HeatmapSelection>) => {
+    onSelectionChange({ ...selection, metric, ...changes });
+  };
+
+  const domain = heatmap?.domain ?? null;
+  const position = (value: number) =>
+    domain && domain[1] > domain[0] ? (value - domain[0]) / (domain[1] - domain[0]) : 0.5;
+
+  return (
+    <section className="heatmap" aria-labelledby="heatmap-title">
+      <h2 id="heatmap-title">Heatmap</h2>
+
+      <div className="heatmap-controls">
+        <label>
+          Metric
+          <select value={metric} onChange={e => update({ metric: e.target.value })}>
+            {METRIC_GROUPS.map(group => (
+              <optgroup key={group} label={group}>
+                {getMetricsByGroup(group).map(m => (
+                  <option key={m.key} value={m.key}>
+                    {m.label}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Category
+          <select
+            value={selection.category}
+            onChange={e =>
+              update({ category: isValidCategory(e.target.value) ? e.target.value : '' })
+            }
+          >
+            <option value="">All categories</option>
+            {getAllCategories().map(category => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Brand
+          <input
+            type="search"
+            value={selection.search}
+            placeholder="Filter brands"
+            onChange={e => update({ search: e.target.value })}
+          />
+        </label>
+
+        <label>
+          Sort by
+          <select
+            value={selection.sort}
+            onChange={e =>
+              update({ sort: SORTS.find(sort => sort === e.target.value) ?? DEFAULT_SORT })
+            }
+          >
+            {SORTS.map(sort => (
+              <option key={sort} value={sort}>
+                {SORT_LABELS[sort]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {selection.sort !== 'name' && (
+          <label>
+            Order
+            <select
+              value={selection.direction}
+              onChange={e => update({ direction: e.target.value === 'asc' ? 'asc' : 'desc' })}
+            >
+              <option value="desc">
+                {selection.sort === 'change' ? 'Biggest rise first' : 'Highest first'}
+              </option>
+              <option value="asc">
+                {selection.sort === 'change' ? 'Biggest fall first' : 'Lowest first'}
+              </option>
+            </select>
+          </label>
+        )}
+      </div>
+
+      <p className="heatmap-description">{definition.description}</p>
+
+      {error ? (
+        <p className="heatmap-message heatmap-message--error" role="alert">
+          {error}
+        </p>
+      ) : !heatmap ? (
+        <p className="heatmap-message" role="status">
+          Loading heatmap...
+        </p>
+      ) : (
+        <>
+          <div className="heatmap-legend" aria-hidden="true">
+            <span>{domain ? formatMetricValue(domain[0], heatmap.metric) : ''}</span>
+            <span className="heatmap-legend-scale" style={{ background: sequentialGradient() }} />
+            <span>{domain ? formatMetricValue(domain[1], heatmap.metric) : ''}</span>
+            <span className="heatmap-legend-empty">
+              <span className="heatmap-cell--empty heatmap-legend-swatch" /> No data
+            </span>
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="heatmap-message">No brands match these filters.</p>
+          ) : (
+            <div className={`heatmap-scroll ${loading ? 'is-updating' : ''}`}>
+              <table className="heatmap-table">
+                <caption className="visually-hidden">
+                  {definition.label} by brand and quarter, {rows.length} brands
+                </caption>
+                <thead>
+                  <tr>
+                    <th scope="col">Brand</th>
+                    {heatmap.quarters.map(quarter => (
+                      <th key={quarter} scope="col">
+                        {quarter}
+                      </th>
+                    ))}
+                    <th scope="col" className="heatmap-change">
+                      Change
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.brand.id}>
+                      <th scope="row">
+                        <button
+                          type="button"
+                          className="heatmap-brand"
+                          onClick={() => onBrandClick(row.brand)}
+                        >
+                          {row.brand.name}
+                        </button>
+                      </th>
+                      {row.values.map((value, index) => {
+                        const quarter = heatmap.quarters[index];
+                        if (value === null) {
+                          return (
+                            <td
+                              key={quarter}
+                              className="heatmap-cell heatmap-cell--empty"
+                              title={`${row.brand.name}, ${quarter}: no data`}
+                            >
+                              <span className="visually-hidden">No data</span>
+                            </td>
+                          );
+                        }
+
+                        const t = position(value);
+                        return (
+                          <td
+                            key={quarter}
+                            className={`heatmap-cell ${t >= LIGHT_CELL_THRESHOLD ? 'is-light' : ''}`}
+                            style={{ background: sequentialColor(t) }}
+                            title={`${row.brand.name}, ${quarter}: ${formatMetricValue(value, heatmap.metric)}`}
+                          >
+                            {formatMetricValue(value, heatmap.metric)}
+                          </td>
+                        );
+                      })}
+                      <td className="heatmap-change">
+                        {row.change === null
+                          ? '–'
+                          : `${row.change > 0 ? '+' : ''}${row.change.toFixed(2)}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1 @@
+export { Heatmap } from './Heatmap';
@@ -0,0 +1,42 @@
+/**
+ * HighlightedText Component
+ *
+ * Renders text with matched character spans wrapped in <mark>
+ */
+
+import React from 'react';
+import type { MatchSpan } from '../../types/search';
+import './HighlightedText.css';
+
+interface HighlightedTextProps {
+  text: string;
+  /** Non-overlapping [start, end) spans, sorted by start */
+  spans?: MatchSpan[];
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, spans }) => {
+  if (!spans || spans.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  spans.forEach((span, index) => {
+    if (span.start > cursor) {
+      parts.push(text.slice(cursor, span.start));
+    }
+    parts.push(
+      <mark key={index} className="search-highlight">
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  });
+
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+
+  return <>{parts}</>;
+};
@@ -0,0 +1,310 @@
+/**
+ * Insights Component
+ * Feature: 004-quarterly-data-association
+ *
+ * Notable movers: the quarter's most unusual metric changes, split into
+ * risers and fallers. Each move is scored against the brand's own history
+ * and its category's moves; brands and changes link into the brand.
+ * Quarter, metric scope and threshold are owned by the URL.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { Brand } from '../../types/brand';
+import type { MetricKey, NotableMove, QuarterMovers } from '../../types/quarterlyData';
+import type { ComparisonSelection, InsightsSelection } from '../../types/routes';
+import { moversService } from '../../services/moversService';
+import { quarterlyDataLoader } from '../../services/quarterlyDataLoader';
+import {
+  METRIC_GROUPS,
+  METRIC_KEYS,
+  formatMetricValue,
+  getMetricLabel,
+  getMetricUnitSuffix,
+  getMetricsByGroup,
+  isMetricKey,
+} from '../../utils/metricRegistry';
+import './Insights.css';
+
+interface InsightsProps {
+  selection: InsightsSelection;
+  onSelectionChange: (selection: InsightsSelection) => void;
+  onBrandClick: (brand: Brand) => void;
+  /** Open a brand's quarter comparison for one move */
+  onShowChange: (brand: Brand, comparison: ComparisonSelection) => void;
+}
+
+const THRESHOLD_OPTIONS = [1.5, 2, 2.5, 3];
+const LIST_LIMIT = 15;
+
+function formatZ(z: number | null): string {
+  if (z === null) return '–';
+  return `${z > 0 ? '+' : ''}${z.toFixed(1)}σ`;
+}
+
+const MoveTable: React.FC<{
+  title: string;
+  moves: NotableMove[];
+  direction: 'up' | 'down';
+  quarters: [string, string];
+  onBrandClick: (brand: Brand) => void;
+  onShowChange: (brand: Brand, comparison: ComparisonSelection) => void;
+}> = ({ title, moves, direction, quarters, onBrandClick, onShowChange }) => (
+  <section className={`insights-list insights-list--${direction}`}>
+    <h3>{title}</h3>
+    {moves.length === 0 ? (
+      <p className="insights-empty">No notable moves</p>
+    ) : (
+      <table className="insights-table">
+        <thead>
+          <tr>
+            <th scope="col">Brand</th>
+            <th scope="col">Metric</th>
+            <th scope="col" className="insights-number">
+              Change
+            </th>
+            <th scope="col" className="insights-number" title="Versus peers' changes this quarter">
+              vs category
+            </th>
+            <th scope="col" className="insights-number" title="Versus the brand's earlier changes">
+              vs own history
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {moves.map(move => (
+            <tr key={`${move.brand.id}-${move.metric}`}>
+              <td>
+                <button
+                  type="button"
+                  className="insights-brand"
+                  onClick={() => onBrandClick(move.brand)}
+                >
+                  <img
+                    src={`/${move.brand.logoPath}`}
+                    alt=""
+                    loading="lazy"
+                    decoding="async"
+                    className="insights-logo"
+                  />
+                  {move.brand.name}
+                </button>
+              </td>
+              <td>{getMetricLabel(move.metric)}</td>
+              <td className="insights-number">
+                <button
+                  type="button"
+                  className="insights-change"
+                  onClick={() =>
+                    onShowChange(move.brand, { quarters, metrics: [move.metric] })
+                  }
+                  title={`${formatMetricValue(move.previousValue, move.metric)} → ${formatMetricValue(move.value, move.metric)}. Compare quarters`}
+                >
+                  {move.change > 0 ? '+' : ''}
+                  {move.change.toFixed(2)}
+                  {getMetricUnitSuffix(move.metric)}
+                </button>
+              </td>
+              <td className="insights-number" title={move.peerGroup}>
+                {formatZ(move.categoryZ)}
+              </td>
+              <td className="insights-number">{formatZ(move.historyZ)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </section>
+);
+
+export const Insights: React.FC<InsightsProps> = ({
+  selection,
+  onSelectionChange,
+  onBrandClick,
+  onShowChange,
+}) => {
+  const [quarters, setQuarters] = useState<string[]>([]);
+  const [movers, setMovers] = useState<QuarterMovers | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to the latest quarter; ignore quarters that aren't available
+  const quarter = quarters.includes(selection.quarter)
+    ? selection.quarter
+    : quarters[quarters.length - 1] || '';
+  const metric = isMetricKey(selection.metric) ? selection.metric : '';
+  const metrics: MetricKey[] = metric
+    ? [metric]
+    : selection.group
+      ? getMetricsByGroup(selection.group).map(m => m.key)
+      : METRIC_KEYS;
+  const metricsKey = metrics.join(',');
+
+  useEffect(() => {
+    let mounted = true;
+
+    quarterlyDataLoader
+      .getAvailableQuarters()
+      .then(available => {
+        if (mounted) setQuarters(available);
+      })
+      .catch(err => {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load quarters');
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!quarter) return;
+
+    let mounted = true;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await moversService.getNotableMovers(quarter, {
+          metrics: metricsKey.split(',') as MetricKey[],
+          minZ: selection.minZ,
+          limit: LIST_LIMIT,
+        });
+
+        if (mounted) {
+          setMovers(result);
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to find notable movers');
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadData();
+
+    return () => {
+      mounted = false;
+    };
+  }, [quarter, metricsKey, selection.minZ]);
+
+  const update = (changes: Partial<InsightsSelection>) => {
+    onSelectionChange({ ...selection, quarter, metric, ...changes });
+  };
+
+  return (
+    <section className="insights" aria-labelledby="insights-title">
+      <h2 id="insights-title">Insights</h2>
+
+      <div className="insights-controls">
+        <label>
+          Quarter
+          <select value={quarter} onChange={e => update({ quarter: e.target.value })}>
+            {quarters.map(q => (
+              <option key={q} value={q}>
+                {q}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Metric group
+          <select
+            value={selection.group}
+            onChange={e =>
+              update({ group: METRIC_GROUPS.find(g => g === e.target.value) ?? '', metric: '' })
+            }
+          >
+            <option value="">All groups</option>
+            {METRIC_GROUPS.map(group => (
+              <option key={group} value={group}>
+                {group}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Metric
+          <select value={metric} onChange={e => update({ metric: e.target.value })}>
+            <option value="">All metrics{selection.group ? ' in group' : ''}</option>
+            {(selection.group ? [selection.group] : METRIC_GROUPS).map(group => (
+              <optgroup key={group} label={group}>
+                {getMetricsByGroup(group).map(m => (
+                  <option key={m.key} value={m.key}>
+                    {m.label}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Notable at
+          <select value={selection.minZ} onChange={e => update({ minZ: Number(e.target.value) })}>
+            {THRESHOLD_OPTIONS.map(z => (
+              <option key={z} value={z}>
+                |z| ≥ {z}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="insights-description">
+        Changes since the previous quarter, scored as z-scores against the brand's own earlier
+        changes and against the changes of brands in the same survey category.
+      </p>
+
+      {error ? (
+        <p className="insights-message insights-message--error" role="alert">
+          {error}
+        </p>
+      ) : loading && !movers ? (
+        <p className="insights-message" role="status">
+          Finding notable movers...
+        </p>
+      ) : movers && !movers.previousQuarter ? (
+        <p className="insights-message">
+          {movers.quarter} is the first quarter - there is nothing to compare it with.
+        </p>
+      ) : movers && movers.previousQuarter ? (
+        <>
+          <p className="insights-summary" aria-live="polite">
+            {movers.totalNotable} notable move{movers.totalNotable !== 1 ? 's' : ''} from{' '}
+            {movers.previousQuarter} to {movers.quarter}
+            {loading && <span className="insights-loading"> · updating…</span>}
+          </p>
+          <div className={`insights-body ${loading ? 'is-updating' : ''}`}>
+            <MoveTable
+              title="Top risers"
+              moves={movers.risers}
+              direction="up"
+              quarters={[movers.previousQuarter, movers.quarter]}
+              onBrandClick={onBrandClick}
+              onShowChange={onShowChange}
+            />
+            <MoveTable
+              title="Top fallers"
+              moves={movers.fallers}
+              direction="down"
+              quarters={[movers.previousQuarter, movers.quarter]}
+              onBrandClick={onBrandClick}
+              onShowChange={onShowChange}
+            />
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+};
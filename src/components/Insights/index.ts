@@ -0,0 +1 @@
+export { Insights } from './Insights';
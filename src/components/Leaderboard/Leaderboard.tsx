@@ -0,0 +1,338 @@
+/**
+ * Leaderboard Component
+ * Feature: 004-quarterly-data-association
+ *
+ * Ranks brands by a metric within a quarter, with rank movement versus
+ * the previous available quarter. Settings are owned by the URL; the
+ * ranking shown can be exported as CSV, XLSX or JSON.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { Brand } from '../../types/brand';
+import type { Leaderboard as LeaderboardData, LeaderboardEntry } from '../../types/quarterlyData';
+import type { LeaderboardSelection } from '../../types/routes';
+import { leaderboardService } from '../../services/leaderboardService';
+import { quarterlyDataLoader } from '../../services/quarterlyDataLoader';
+import {
+  METRIC_GROUPS,
+  formatMetricValue,
+  getMetricDefinition,
+  getMetricsByGroup,
+  isMetricKey,
+} from '../../utils/metricRegistry';
+import { getAllCategories, isValidCategory } from '../../utils/categoryInference';
+import { metricUnit, type ExportDataset } from '../../utils/dataExport';
+import { ExportMenu } from '../ExportMenu';
+import './Leaderboard.css';
+
+interface LeaderboardProps {
+  selection: LeaderboardSelection;
+  onSelectionChange: (selection: LeaderboardSelection) => void;
+  onBrandClick: (brand: Brand) => void;
+}
+
+const DEFAULT_METRIC = 'Brand_Strength_C';
+const LIMIT_OPTIONS = [10, 25, 50, 100, 0];
+
+/**
+ * The ranking as shown, for export
+ */
+function toDataset(leaderboard: LeaderboardData): ExportDataset {
+  const definition = getMetricDefinition(leaderboard.metric);
+
+  return {
+    title: `${definition.label} ${leaderboard.quarter}`,
+    filename: ['leaderboard', leaderboard.metric, leaderboard.quarter, leaderboard.category]
+      .filter(Boolean)
+      .join('-')
+      .toLowerCase(),
+    columns: [
+      { key: 'rank', label: 'Rank' },
+      {
+        key: 'previous_rank',
+        label: leaderboard.previousQuarter ? `Rank ${leaderboard.previousQuarter}` : 'Previous rank',
+      },
+      { key: 'rank_change', label: 'Rank change' },
+      { key: 'brand_id', label: 'Brand ID' },
+      { key: 'brand_name', label: 'Brand' },
+      { key: 'category', label: 'Category' },
+      { key: 'quarter', label: 'Quarter' },
+      { key: 'metric', label: 'Metric key' },
+      { key: 'value', label: definition.label, unit: metricUnit(leaderboard.metric) },
+    ],
+    rows: leaderboard.entries.map(entry => ({
+      rank: entry.rank,
+      previous_rank: entry.previousRank,
+      rank_change: entry.rankChange,
+      brand_id: entry.brand.id,
+      brand_name: entry.brand.name,
+      category: entry.brand.category,
+      quarter: leaderboard.quarter,
+      metric: leaderboard.metric,
+      value: entry.value,
+    })),
+  };
+}
+
+const RankChange: React.FC<{ entry: LeaderboardEntry; previousQuarter: string }> = ({
+  entry,
+  previousQuarter,
+}) => {
+  if (entry.rankChange === null) {
+    return (
+      <span className="rank-change rank-change--new" title={`Not ranked in ${previousQuarter}`}>
+        New
+      </span>
+    );
+  }
+  if (entry.rankChange === 0) {
+    return (
+      <span className="rank-change rank-change--same" aria-label="No change">
+        –
+      </span>
+    );
+  }
+
+  const up = entry.rankChange > 0;
+  return (
+    <span
+      className={`rank-change ${up ? 'rank-change--up' : 'rank-change--down'}`}
+      aria-label={`${up ? 'Up' : 'Down'} ${Math.abs(entry.rankChange)} from #${entry.previousRank}`}
+      title={`#${entry.previousRank} previously`}
+    >
+      {up ? '▲' : '▼'} {Math.abs(entry.rankChange)}
+    </span>
+  );
+};
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({
+  selection,
+  onSelectionChange,
+  onBrandClick,
+}) => {
+  const [quarters, setQuarters] = useState<string[]>([]);
+  const [data, setData] = useState<LeaderboardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const metric = isMetricKey(selection.metric) ? selection.metric : DEFAULT_METRIC;
+  // Default to the latest quarter; ignore quarters that aren't available
+  const quarter = quarters.includes(selection.quarter)
+    ? selection.quarter
+    : quarters[quarters.length - 1] || '';
+
+  useEffect(() => {
+    let mounted = true;
+
+    quarterlyDataLoader
+      .getAvailableQuarters()
+      .then(available => {
+        if (mounted) setQuarters(available);
+      })
+      .catch(err => {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load quarters');
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!quarter) return;
+
+    let mounted = true;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const leaderboard = await leaderboardService.getLeaderboard(quarter, metric, {
+          category: selection.category || undefined,
+          direction: selection.direction,
+          limit: selection.limit > 0 ? selection.limit : undefined,
+        });
+
+        if (mounted) {
+          setData(leaderboard);
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load leaderboard');
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadData();
+
+    return () => {
+      mounted = false;
+    };
+  }, [quarter, metric, selection.category, selection.direction, selection.limit]);
+
+  const update = (changes: Partial<LeaderboardSelection>) => {
+    onSelectionChange({ ...selection, metric, quarter, ...changes });
+  };
+
+  const definition = getMetricDefinition(metric);
+
+  return (
+    <section className="leaderboard" aria-labelledby="leaderboard-title">
+      <h2 id="leaderboard-title">Leaderboard</h2>
+
+      <div className="leaderboard-controls">
+        <label>
+          Metric
+          <select value={metric} onChange={e => update({ metric: e.target.value })}>
+            {METRIC_GROUPS.map(group => (
+              <optgroup key={group} label={group}>
+                {getMetricsByGroup(group).map(m => (
+                  <option key={m.key} value={m.key}>
+                    {m.label}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Quarter
+          <select value={quarter} onChange={e => update({ quarter: e.target.value })}>
+            {quarters.map(q => (
+              <option key={q} value={q}>
+                {q}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Category
+          <select
+            value={selection.category}
+            onChange={e =>
+              update({ category: isValidCategory(e.target.value) ? e.target.value : '' })
+            }
+          >
+            <option value="">All categories</option>
+            {getAllCategories().map(category => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Order
+          <select
+            value={selection.direction}
+            onChange={e => update({ direction: e.target.value === 'asc' ? 'asc' : 'desc' })}
+          >
+            <option value="desc">Highest first</option>
+            <option value="asc">Lowest first</option>
+          </select>
+        </label>
+
+        <label>
+          Show
+          <select value={selection.limit} onChange={e => update({ limit: Number(e.target.value) })}>
+            {LIMIT_OPTIONS.map(limit => (
+              <option key={limit} value={limit}>
+                {limit === 0 ? 'All' : `Top ${limit}`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="leaderboard-export">
+          <ExportMenu
+            description={`${definition.label} leaderboard`}
+            disabled={!data || data.entries.length === 0 || loading}
+            getDataset={() => toDataset(data as LeaderboardData)}
+          />
+        </div>
+      </div>
+
+      <p className="leaderboard-description">{definition.description}</p>
+
+      {error ? (
+        <p className="leaderboard-message leaderboard-message--error" role="alert">
+          {error}
+        </p>
+      ) : loading && !data ? (
+        <p className="leaderboard-message" role="status">
+          Loading leaderboard...
+        </p>
+      ) : data && data.entries.length === 0 ? (
+        <p className="leaderboard-message">
+          No brands have {definition.label} data in {quarter}
+          {selection.category ? ` for ${selection.category}` : ''}.
+        </p>
+      ) : data ? (
+        <>
+          <p className="leaderboard-summary" aria-live="polite">
+            {data.entries.length < data.totalRanked
+              ? `Top ${data.entries.length} of ${data.totalRanked} brands`
+              : `${data.totalRanked} brands`}
+            {data.previousQuarter
+              ? ` · rank change vs ${data.previousQuarter}`
+              : ' · no rank change available'}
+          </p>
+          <table className={`leaderboard-table ${loading ? 'is-updating' : ''}`}>
+            <thead>
+              <tr>
+                <th scope="col">Rank</th>
+                {data.previousQuarter && <th scope="col">Change</th>}
+                <th scope="col">Brand</th>
+                <th scope="col">Category</th>
+                <th scope="col" className="leaderboard-value">
+                  {definition.label}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.entries.map(entry => (
+                <tr key={entry.brand.id}>
+                  <td className="leaderboard-rank">{entry.rank}</td>
+                  {data.previousQuarter && (
+                    <td>
+                      <RankChange entry={entry} previousQuarter={data.previousQuarter} />
+                    </td>
+                  )}
+                  <td>
+                    <button
+                      type="button"
+                      className="leaderboard-brand"
+                      onClick={() => onBrandClick(entry.brand)}
+                    >
+                      <img
+                        src={`/${entry.brand.logoPath}`}
+                        alt=""
+                        loading="lazy"
+                        decoding="async"
+                        className="leaderboard-logo"
+                      />
+                      {entry.brand.name}
+                    </button>
+                  </td>
+                  <td className="leaderboard-category">{entry.brand.category}</td>
+                  <td className="leaderboard-value">{formatMetricValue(entry.value, metric)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ) : null}
+    </section>
+  );
+};
@@ -0,0 +1 @@
+export { Leaderboard } from './Leaderboard';
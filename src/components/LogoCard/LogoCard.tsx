@@ -1,6 +1,8 @@
 import React from 'react';
 import type { Brand } from '@/types/brand';
+import type { FieldMatch } from '@/types/search';
 import { DataAvailabilityBadge } from '../DataAvailabilityBadge';
+import { HighlightedText } from '../HighlightedText';
 import styles from './LogoCard.module.css';
 
 interface LogoCardProps {
@@ -11,12 +13,24 @@ interface LogoCardProps {
    * Pass undefined if not loaded yet, 0 if no data
    */
   quarterCount?: number;
+  /**
+   * Search matches to highlight (from the ranked brand search)
+   */
+  matches?: FieldMatch[];
+  /**
+   * Selection state while picking brands to compare (undefined = not selecting)
+   */
+  selected?: boolean;
 }
 
-export const LogoCard: React.FC<LogoCardProps> = React.memo(({ brand, onClick, quarterCount }) => {
+export const LogoCard: React.FC<LogoCardProps> = React.memo(({ brand, onClick, quarterCount, matches, selected }) => {
+  const nameMatch = matches?.find((m) => m.field === 'name');
+  // Explain why a brand matched when the name itself didn't
+  const otherMatch = nameMatch ? undefined : matches?.find((m) => m.field !== 'name');
+
   return (
     <article
-      className={styles.logoCard}
+      className={`${styles.logoCard} ${selected ? styles.selected : ''}`}
       onClick={onClick}
       onKeyDown={(e) => {
         if (e.key === 'Enter' || e.key === ' ') {
@@ -26,7 +40,10 @@ export const LogoCard: React.FC<LogoCardProps> = React.memo(({ brand, onClick, q
       }}
       role="button"
       tabIndex={0}
-      aria-label={`View ${brand.name} logo details`}
+      aria-label={
+        selected === undefined ? `View ${brand.name} logo details` : `Select ${brand.name} to compare`
+      }
+      aria-pressed={selected}
     >
       <div className={styles.imageContainer}>
         <img
@@ -48,6 +65,11 @@ export const LogoCard: React.FC<LogoCardProps> = React.memo(({ brand, onClick, q
             }
           }}
         />
+        {selected !== undefined && (
+          <span className={styles.selectionMark} aria-hidden="true">
+            {selected ? '✓' : ''}
+          </span>
+        )}
         {/* T033: Data availability badge */}
         {quarterCount !== undefined && (
           <div className={styles.badge}>
@@ -56,8 +78,16 @@ export const LogoCard: React.FC<LogoCardProps> = React.memo(({ brand, onClick, q
         )}
       </div>
       <div className={styles.content}>
-        <h3 className={styles.title}>{brand.name}</h3>
+        <h3 className={styles.title}>
+          <HighlightedText text={brand.name} spans={nameMatch?.spans} />
+        </h3>
         <p className={styles.category}>{brand.category}</p>
+        {otherMatch && (
+          <p className={styles.matchHint}>
+            {otherMatch.field === 'tags' ? 'Tag: ' : 'Description: '}
+            <HighlightedText text={otherMatch.value} spans={otherMatch.spans} />
+          </p>
+        )}
       </div>
     </article>
   );
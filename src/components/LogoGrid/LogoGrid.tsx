@@ -1,95 +1,260 @@
-import React, { useState, useEffect } from 'react';
-import type { Brand } from '@/types/brand';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import type { Brand, BrandCategory, SortOption } from '@/types/brand';
+import type { GridFilterState } from '@/types/routes';
 import { LogoCard } from '../LogoCard/LogoCard';
-import { filterByQuarterlyDataAvailability, filterBySpecificQuarter, getQuarterCountForBrand } from '@/services/searchFilter';
-import { quarterlyDataLoader } from '@/services/quarterlyDataLoader';
+import { ExportMenu } from '../ExportMenu';
+import { applyGridFilters, getCategoryFacetCounts, getQuarterCountForBrand } from '@/services/searchFilter';
+import { searchBrandsRanked } from '@/services/brandSearch';
+import { getAllCategories } from '@/utils/categoryInference';
+import { SORT_OPTIONS } from '@/utils/routes';
+import { firstRecordPerBrand, quarterlyDataLoader } from '@/services/quarterlyDataLoader';
+import { brandAvailabilityIndex } from '@/services/brandAvailabilityIndex';
+import { MAX_COMPARISON_BRANDS, MIN_COMPARISON_BRANDS } from '@/services/brandAssociationService';
+import { useVirtualGrid } from '@/hooks/useVirtualGrid';
+import type { GridTrackSizing } from '@/hooks/useVirtualGrid';
+import { METRICS } from '@/utils/metricRegistry';
+import { metricUnit, type ExportDataset } from '@/utils/dataExport';
 import styles from './LogoGrid.module.css';
 
+const SORT_LABELS: Record<SortOption, string> = {
+  relevance: 'Best match',
+  'alphabetical-asc': 'Name (A–Z)',
+  'alphabetical-desc': 'Name (Z–A)',
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  random: 'Random',
+};
+
+/**
+ * Column sizing per breakpoint (keep in sync with .grid in LogoGrid.module.css)
+ */
+function getTrackSizing(viewportWidth: number): GridTrackSizing {
+  if (viewportWidth <= 768) return { minColumnWidth: 150, gap: 16 };
+  if (viewportWidth >= 1200) return { minColumnWidth: 280, gap: 32 };
+  return { minColumnWidth: 250, gap: 24 };
+}
+
+const ESTIMATED_ROW_HEIGHT = 260;
+
+/**
+ * The filtered brands, for export
+ * With a quarter filter, each brand's metrics for that quarter are included
+ */
+async function buildGridDataset(
+  brands: Brand[],
+  quarter: string,
+  includeQuarterCount: boolean
+): Promise<ExportDataset> {
+  const dataset: ExportDataset = {
+    title: quarter ? `Brands ${quarter}` : 'Brands',
+    filename: quarter ? `brands-${quarter}` : 'brands',
+    columns: [
+      { key: 'brand_id', label: 'Brand ID' },
+      { key: 'brand_name', label: 'Brand' },
+      { key: 'category', label: 'Category' },
+      { key: 'website', label: 'Website' },
+      { key: 'tags', label: 'Tags' },
+      { key: 'description', label: 'Description' },
+      ...(includeQuarterCount ? [{ key: 'quarters_with_data', label: 'Quarters with data' }] : []),
+    ],
+    rows: brands.map((brand) => ({
+      brand_id: brand.id,
+      brand_name: brand.name,
+      category: brand.category,
+      website: brand.websiteUrl ?? null,
+      tags: brand.tags?.join('; ') ?? null,
+      description: brand.description ?? null,
+      quarters_with_data: includeQuarterCount ? getQuarterCountForBrand(brand.id) : null,
+    })),
+  };
+
+  if (!quarter) {
+    return dataset;
+  }
+
+  const { records } = await quarterlyDataLoader.loadQuarter(quarter);
+  const recordsByBrand = firstRecordPerBrand(records);
+
+  dataset.columns.push(
+    ...METRICS.map((metric) => ({ key: metric.key, label: metric.label, unit: metricUnit(metric.key) }))
+  );
+  dataset.rows.forEach((row, index) => {
+    const metrics = recordsByBrand.get(brands[index].id)?.metrics;
+    for (const metric of METRICS) {
+      row[metric.key] = metrics ? metrics[metric.key] : null;
+    }
+  });
+
+  return dataset;
+}
+
 interface LogoGridProps {
   brands: Brand[];
   onBrandClick: (brand: Brand) => void;
+  /** Filter state (owned by the URL so filtered views can be shared) */
+  filters: GridFilterState;
+  onFiltersChange: (filters: GridFilterState) => void;
   loading?: boolean;
   emptyMessage?: string;
+  /** Open the brand-vs-brand comparison for the selected brands (enables multi-select) */
+  onCompareBrands?: (brands: Brand[]) => void;
 }
 
 export const LogoGrid: React.FC<LogoGridProps> = ({
   brands,
   onBrandClick,
+  filters,
+  onFiltersChange,
   loading = false,
   emptyMessage = 'No logos found',
+  onCompareBrands,
 }) => {
   // T035: Filter state management
-  const [filterByData, setFilterByData] = useState(false);
-  const [filterByQuarter, setFilterByQuarter] = useState<string>('');
-  const [filteredBrands, setFilteredBrands] = useState<Brand[]>(brands);
-  const [quarterCounts, setQuarterCounts] = useState<Map<string, number>>(new Map());
+  const filterByData = filters.dataOnly;
+  const filterByQuarter = filters.quarter;
   const [availableQuarters, setAvailableQuarters] = useState<string[]>([]);
-  const [isFiltering, setIsFiltering] = useState(false);
+  const [indexReady, setIndexReady] = useState(brandAvailabilityIndex.isReady());
+  const [indexError, setIndexError] = useState(false);
 
-  // Load available quarters on mount
+  // Load available quarters and the availability index on mount
   useEffect(() => {
+    let mounted = true;
+
     const loadQuarters = async () => {
       try {
         const quarters = await quarterlyDataLoader.getAvailableQuarters();
-        setAvailableQuarters(quarters);
+        if (mounted) {
+          setAvailableQuarters(quarters);
+        }
       } catch (error) {
         console.error('Failed to load available quarters:', error);
       }
     };
+
+    const loadIndex = async () => {
+      try {
+        await brandAvailabilityIndex.load();
+        if (mounted) {
+          setIndexReady(true);
+        }
+      } catch (error) {
+        console.error('Failed to load brand availability index:', error);
+        if (mounted) {
+          setIndexError(true);
+        }
+      }
+    };
+
     loadQuarters();
+    loadIndex();
+
+    return () => {
+      mounted = false;
+    };
   }, []);
 
-  // Apply filters whenever filter state or brands change
-  useEffect(() => {
-    const applyFilters = async () => {
-      if (!filterByData && !filterByQuarter) {
-        // No filters active - show all brands
-        setFilteredBrands(brands);
-        setIsFiltering(false);
-        return;
-      }
+  // Quarterly criteria need the availability index; ignore them until it's ready
+  const effectiveFilters = useMemo(
+    () => (indexReady ? filters : { ...filters, dataOnly: false, quarter: '' }),
+    [filters, indexReady]
+  );
 
-      setIsFiltering(true);
-      let result = brands;
+  // Single pipeline: search → category → quarterly data → quarter → sort
+  const filteredBrands = useMemo(
+    () => applyGridFilters(brands, effectiveFilters),
+    [brands, effectiveFilters]
+  );
 
-      try {
-        // Apply quarterly data filter
-        if (filterByData) {
-          result = await filterByQuarterlyDataAvailability(result, true);
-        }
+  // Search highlights per brand (the search index caches the last query, so this is free)
+  const searchMatches = useMemo(
+    () => new Map(searchBrandsRanked(brands, filters.search).map((r) => [r.brand.id, r.matches])),
+    [brands, filters.search]
+  );
 
-        // Apply specific quarter filter
-        if (filterByQuarter) {
-          result = await filterBySpecificQuarter(result, filterByQuarter);
-        }
+  // Keep the focused card mounted while it's scrolled out of the window
+  const [focusedBrandId, setFocusedBrandId] = useState<string | null>(null);
+  const focusedIndex = focusedBrandId
+    ? filteredBrands.findIndex((brand) => brand.id === focusedBrandId)
+    : -1;
 
-        setFilteredBrands(result);
+  const { containerRef, columns, gap, rowStride, totalHeight, rows } = useVirtualGrid<HTMLDivElement>({
+    itemCount: filteredBrands.length,
+    getTrackSizing,
+    estimatedRowHeight: ESTIMATED_ROW_HEIGHT,
+    pinnedIndex: focusedIndex,
+  });
 
-        // Load quarter counts for filtered brands
-        const counts = new Map<string, number>();
-        for (const brand of result) {
-          const count = await getQuarterCountForBrand(brand.id);
-          counts.set(brand.id, count);
-        }
-        setQuarterCounts(counts);
-      } catch (error) {
-        console.error('Error applying filters:', error);
-        setFilteredBrands(brands);
-      } finally {
-        setIsFiltering(false);
-      }
-    };
+  // When filters move the focused card to another row, scroll with it so it stays in place
+  const focusedRowRef = useRef(-1);
+  useLayoutEffect(() => {
+    const row = focusedIndex >= 0 ? Math.floor(focusedIndex / columns) : -1;
+    if (row >= 0 && focusedRowRef.current >= 0 && row !== focusedRowRef.current) {
+      window.scrollBy({ top: (row - focusedRowRef.current) * rowStride });
+    }
+    focusedRowRef.current = row;
+  }, [focusedIndex, columns, rowStride]);
 
-    applyFilters();
-  }, [filterByData, filterByQuarter, brands]);
+  const handleGridFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    const item = (e.target as HTMLElement).closest<HTMLElement>('[data-brand-id]');
+    setFocusedBrandId(item?.dataset.brandId ?? null);
+  };
 
-  // T036: Clear filters handler
+  const handleGridBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setFocusedBrandId(null);
+    }
+  };
+
+  // Live facet counts for each category given all other criteria
+  const categoryCounts = useMemo(
+    () => getCategoryFacetCounts(brands, effectiveFilters),
+    [brands, effectiveFilters]
+  );
+
+  const handleCategoryToggle = (category: BrandCategory) => {
+    const categories = filters.categories.includes(category)
+      ? filters.categories.filter((c) => c !== category)
+      : [...filters.categories, category];
+    onFiltersChange({ ...filters, categories });
+  };
+
+  // T036: Clear filters handler (keeps the chosen sort order)
   const handleClearFilters = () => {
-    setFilterByData(false);
-    setFilterByQuarter('');
+    onFiltersChange({ ...filters, search: '', categories: [], quarter: '', dataOnly: false });
   };
 
-  const hasActiveFilters = filterByData || filterByQuarter !== '';
+  // Multi-select for brand-vs-brand comparison
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedBrands, setSelectedBrands] = useState<Brand[]>([]);
+
+  const handleCardClick = (brand: Brand) => {
+    if (!selectMode) {
+      onBrandClick(brand);
+      return;
+    }
+
+    setSelectedBrands((prev) => {
+      if (prev.some((b) => b.id === brand.id)) {
+        return prev.filter((b) => b.id !== brand.id);
+      }
+      return prev.length < MAX_COMPARISON_BRANDS ? [...prev, brand] : prev;
+    });
+  };
+
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelectedBrands([]);
+  };
+
+  const handleCompareSelected = () => {
+    onCompareBrands?.(selectedBrands);
+    exitSelectMode();
+  };
+
+  const hasQuarterlyFilters = filterByData || filterByQuarter !== '';
+  const hasActiveFilters =
+    hasQuarterlyFilters || filters.search.trim() !== '' || filters.categories.length > 0;
+  const isFiltering = hasQuarterlyFilters && !indexReady && !indexError;
 
   if (loading) {
     return <div className={styles.loading}>Loading logos...</div>;
@@ -99,12 +264,44 @@ export const LogoGrid: React.FC<LogoGridProps> = ({
     <div className={styles.container}>
       {/* T032: Filter controls */}
       <div className={styles.filterControls}>
+        <div className={`${styles.filterGroup} ${styles.searchGroup}`}>
+          <label htmlFor="brand-search" className={styles.visuallyHidden}>
+            Search brands
+          </label>
+          <input
+            id="brand-search"
+            type="search"
+            value={filters.search}
+            onChange={(e) => onFiltersChange({ ...filters, search: e.target.value })}
+            placeholder="Search brands, tags, descriptions..."
+            className={styles.searchInput}
+          />
+        </div>
+
+        <div className={styles.filterGroup}>
+          <label htmlFor="sort-order" className={styles.filterLabel}>
+            Sort by:
+          </label>
+          <select
+            id="sort-order"
+            value={filters.sort}
+            onChange={(e) => onFiltersChange({ ...filters, sort: e.target.value as SortOption })}
+            className={styles.filterSelect}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {SORT_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className={styles.filterGroup}>
           <label className={styles.filterLabel}>
             <input
               type="checkbox"
               checked={filterByData}
-              onChange={(e) => setFilterByData(e.target.checked)}
+              onChange={(e) => onFiltersChange({ ...filters, dataOnly: e.target.checked })}
               disabled={isFiltering}
               aria-label="Filter brands with quarterly data"
             />
@@ -119,7 +316,7 @@ export const LogoGrid: React.FC<LogoGridProps> = ({
           <select
             id="quarter-filter"
             value={filterByQuarter}
-            onChange={(e) => setFilterByQuarter(e.target.value)}
+            onChange={(e) => onFiltersChange({ ...filters, quarter: e.target.value })}
             disabled={isFiltering}
             className={styles.filterSelect}
             aria-label="Filter by specific quarter"
@@ -145,24 +342,126 @@ export const LogoGrid: React.FC<LogoGridProps> = ({
           </button>
         )}
 
+        {onCompareBrands && (
+          <button
+            onClick={selectMode ? exitSelectMode : () => setSelectMode(true)}
+            className={styles.selectModeBtn}
+            aria-pressed={selectMode}
+          >
+            {selectMode ? 'Cancel selection' : 'Select to compare'}
+          </button>
+        )}
+
+        <ExportMenu
+          description="filtered brands"
+          disabled={isFiltering || filteredBrands.length === 0}
+          getDataset={() => buildGridDataset(filteredBrands, effectiveFilters.quarter, indexReady)}
+        />
+
         <div className={styles.resultCount} aria-live="polite">
           {isFiltering ? 'Filtering...' : `Showing ${filteredBrands.length} of ${brands.length} brands`}
         </div>
+
+        {indexError && (
+          <p className={styles.filterError} role="alert">
+            Quarterly data could not be loaded, so the quarter and quarterly data filters are
+            unavailable{hasQuarterlyFilters ? ' and are not applied' : ''}.
+          </p>
+        )}
+
+        {/* Category facets with live counts */}
+        <fieldset className={styles.facets}>
+          <legend className={styles.facetsLegend}>Categories</legend>
+          {getAllCategories().map((category) => {
+            const isSelected = filters.categories.includes(category);
+            const count = categoryCounts[category];
+
+            return (
+              <label
+                key={category}
+                className={`${styles.facet} ${isSelected ? styles.facetSelected : ''} ${count === 0 && !isSelected ? styles.facetEmpty : ''}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => handleCategoryToggle(category)}
+                />
+                <span>{category}</span>
+                <span className={styles.facetCount} aria-label={`${count} brands`}>
+                  {count}
+                </span>
+              </label>
+            );
+          })}
+        </fieldset>
       </div>
 
-      {/* Brand grid */}
+      {/* Brand grid: only rows near the viewport are mounted */}
       {filteredBrands.length === 0 ? (
         <div className={styles.empty}>{hasActiveFilters ? 'No brands match the selected filters' : emptyMessage}</div>
       ) : (
-        <div className={styles.grid} role="list">
-          {filteredBrands.map((brand) => (
-            <LogoCard
-              key={brand.id}
-              brand={brand}
-              onClick={() => onBrandClick(brand)}
-              quarterCount={quarterCounts.get(brand.id)}
-            />
-          ))}
+        <div className={styles.grid}>
+          <div
+            ref={containerRef}
+            className={styles.gridWindow}
+            style={{ height: totalHeight }}
+            role="list"
+            aria-label="Brands"
+            onFocus={handleGridFocus}
+            onBlur={handleGridBlur}
+          >
+            {rows.map((row) => (
+              <div
+                key={row.index}
+                className={styles.gridRow}
+                role="presentation"
+                style={{
+                  transform: `translateY(${row.top}px)`,
+                  gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                  gap,
+                }}
+              >
+                {filteredBrands.slice(row.startItem, row.endItem).map((brand, offset) => (
+                  <div
+                    key={brand.id}
+                    className={styles.gridItem}
+                    role="listitem"
+                    aria-setsize={filteredBrands.length}
+                    aria-posinset={row.startItem + offset + 1}
+                    data-brand-id={brand.id}
+                  >
+                    <LogoCard
+                      brand={brand}
+                      onClick={() => handleCardClick(brand)}
+                      quarterCount={hasQuarterlyFilters && indexReady ? getQuarterCountForBrand(brand.id) : undefined}
+                      matches={searchMatches.get(brand.id)}
+                      selected={selectMode ? selectedBrands.some((b) => b.id === brand.id) : undefined}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Comparison selection bar */}
+      {selectMode && (
+        <div className={styles.selectionBar} role="region" aria-label="Brands selected for comparison">
+          <span aria-live="polite">
+            {selectedBrands.length === 0
+              ? `Select ${MIN_COMPARISON_BRANDS}–${MAX_COMPARISON_BRANDS} brands to compare`
+              : `${selectedBrands.length} selected${
+                  selectedBrands.length === MAX_COMPARISON_BRANDS ? ' (maximum)' : ''
+                }: ${selectedBrands.map((b) => b.name).join(', ')}`}
+          </span>
+          <button
+            onClick={handleCompareSelected}
+            disabled={selectedBrands.length < MIN_COMPARISON_BRANDS}
+            className={styles.clearFiltersBtn}
+          >
+            Compare {selectedBrands.length > 0 ? selectedBrands.length : ''} brands
+          </button>
         </div>
       )}
     </div>
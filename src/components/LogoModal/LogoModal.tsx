@@ -1,19 +1,45 @@
 import React, { useEffect } from 'react';
 import type { Brand } from '@/types/brand';
+import type { ComparisonSelection } from '@/types/routes';
 import { QuarterlyMetrics } from '../QuarterlyMetrics';
+import { SimilarBrands } from '../SimilarBrands';
 import { QuarterlyDataErrorBoundary } from '../ErrorBoundary';
+import { ImageExportMenu } from '../ExportMenu';
+import { brandReportService } from '../../services/brandReportService';
+import { createBrandCardImage } from '../../utils/brandCard';
 import styles from './LogoModal.module.css';
 
 interface LogoModalProps {
   brand: Brand | null;
   onClose: () => void;
   open: boolean;
+  /** Open quarter comparison (from the URL); null when closed */
+  comparison?: ComparisonSelection | null;
+  onComparisonChange?: (selection: ComparisonSelection | null) => void;
+  /** Open the brand-vs-brand comparison starting with this brand */
+  onCompareWith?: (brand: Brand) => void;
+  /** Open another brand (from the "Perceived similarly to" strip) */
+  onBrandClick?: (brand: Brand) => void;
+  /** Open the printable one-page report for this brand */
+  onOpenReport?: (brand: Brand) => void;
 }
 
-export const LogoModal: React.FC<LogoModalProps> = ({ brand, onClose, open }) => {
+export const LogoModal: React.FC<LogoModalProps> = ({
+  brand,
+  onClose,
+  open,
+  comparison = null,
+  onComparisonChange,
+  onCompareWith,
+  onBrandClick,
+  onOpenReport,
+}) => {
+  const comparisonOpen = comparison !== null;
+
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
+      // Escape closes the comparison overlay first, then the modal
+      if (e.key === 'Escape' && !comparisonOpen) {
         onClose();
       }
     };
@@ -27,7 +53,7 @@ export const LogoModal: React.FC<LogoModalProps> = ({ brand, onClose, open }) =>
       document.removeEventListener('keydown', handleEscape);
       document.body.style.overflow = 'unset';
     };
-  }, [open, onClose]);
+  }, [open, onClose, comparisonOpen]);
 
   if (!open || !brand) return null;
 
@@ -78,6 +104,35 @@ export const LogoModal: React.FC<LogoModalProps> = ({ brand, onClose, open }) =>
               </a>
             )}
 
+            {onCompareWith && (
+              <button
+                type="button"
+                className={styles.compareButton}
+                onClick={() => onCompareWith(brand)}
+              >
+                Compare with…
+              </button>
+            )}
+
+            <div className={styles.reportActions}>
+              {onOpenReport && (
+                <button
+                  type="button"
+                  className={styles.compareButton}
+                  onClick={() => onOpenReport(brand)}
+                >
+                  Printable report
+                </button>
+              )}
+              <ImageExportMenu
+                description={`${brand.name} summary card`}
+                filename={`${brand.slug}-card`}
+                getImage={async () =>
+                  createBrandCardImage(await brandReportService.getBrandReport(brand.id))
+                }
+              />
+            </div>
+
             {brand.tags && brand.tags.length > 0 && (
               <div className={styles.tags}>
                 {brand.tags.map((tag) => (
@@ -89,6 +144,8 @@ export const LogoModal: React.FC<LogoModalProps> = ({ brand, onClose, open }) =>
             )}
           </div>
 
+          {onBrandClick && <SimilarBrands brandId={brand.id} onBrandClick={onBrandClick} />}
+
           {/* Quarterly Brand Perception Data - T040: Wrapped with error boundary */}
           <div className={styles.quarterlyData}>
             <QuarterlyDataErrorBoundary
@@ -102,7 +159,11 @@ export const LogoModal: React.FC<LogoModalProps> = ({ brand, onClose, open }) =>
                 });
               }}
             >
-              <QuarterlyMetrics brandId={brand.id} />
+              <QuarterlyMetrics
+                brandId={brand.id}
+                comparison={comparison}
+                onComparisonChange={onComparisonChange}
+              />
             </QuarterlyDataErrorBoundary>
           </div>
         </div>
@@ -0,0 +1,432 @@
+/**
+ * PowerGrid Component
+ * Feature: 004-quarterly-data-association
+ *
+ * Scatter plot explorer: brands positioned by two metrics in a quarter
+ * (Brand Stature × Brand Strength by default), colored by category.
+ * Axes, quarter and markers are owned by the URL; brushed brands can be
+ * compared, and playback animates the grid across quarters.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Brand } from '../../types/brand';
+import type { MetricScatter } from '../../types/quarterlyData';
+import type { PowerGridSelection } from '../../types/routes';
+import { powerGridService } from '../../services/powerGridService';
+import { quarterlyDataLoader } from '../../services/quarterlyDataLoader';
+import { MAX_COMPARISON_BRANDS, MIN_COMPARISON_BRANDS } from '../../services/brandAssociationService';
+import {
+  METRIC_GROUPS,
+  formatMetricValue,
+  getMetricLabel,
+  getMetricsByGroup,
+  isMetricKey,
+} from '../../utils/metricRegistry';
+import { getAllCategories } from '../../utils/categoryInference';
+import { extent, seriesColor } from '../../utils/chartScale';
+import { svgElementToImage } from '../../utils/imageExport';
+import { ImageExportMenu } from '../ExportMenu';
+import { ScatterPlot, type TrailPoint } from './ScatterPlot';
+import './PowerGrid.css';
+
+interface PowerGridProps {
+  selection: PowerGridSelection;
+  onSelectionChange: (selection: PowerGridSelection) => void;
+  onBrandClick: (brand: Brand) => void;
+  onCompareBrands: (brands: Brand[]) => void;
+}
+
+const DEFAULT_X = 'Brand_Stature_C';
+const DEFAULT_Y = 'Brand_Strength_C';
+// Time each quarter stays on screen during playback
+const PLAYBACK_INTERVAL_MS = 1500;
+
+const CATEGORIES = getAllCategories();
+
+function categoryColor(brand: Brand): string {
+  return seriesColor(Math.max(CATEGORIES.indexOf(brand.category), 0));
+}
+
+const MetricOptions: React.FC = () => (
+  <>
+    {METRIC_GROUPS.map(group => (
+      <optgroup key={group} label={group}>
+        {getMetricsByGroup(group).map(m => (
+          <option key={m.key} value={m.key}>
+            {m.label}
+          </option>
+        ))}
+      </optgroup>
+    ))}
+  </>
+);
+
+export const PowerGrid: React.FC<PowerGridProps> = ({
+  selection,
+  onSelectionChange,
+  onBrandClick,
+  onCompareBrands,
+}) => {
+  const [quarters, setQuarters] = useState<string[]>([]);
+  // Scatter per quarter (filled lazily; all quarters for playback/trails)
+  const [scatters, setScatters] = useState<Map<string, MetricScatter>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showTrails, setShowTrails] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const xMetric = isMetricKey(selection.x) ? selection.x : DEFAULT_X;
+  const yMetric = isMetricKey(selection.y) ? selection.y : DEFAULT_Y;
+  // Default to the latest quarter; ignore quarters that aren't available
+  const quarter = quarters.includes(selection.quarter)
+    ? selection.quarter
+    : quarters[quarters.length - 1] || '';
+  const needsAllQuarters = playing || showTrails;
+
+  useEffect(() => {
+    let mounted = true;
+
+    quarterlyDataLoader
+      .getAvailableQuarters()
+      .then(available => {
+        if (mounted) setQuarters(available);
+      })
+      .catch(err => {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load quarters');
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  // Only scatters for the current axes
+  const axisScatters = useMemo(
+    () =>
+      new Map(
+        Array.from(scatters).filter(([, s]) => s.xMetric === xMetric && s.yMetric === yMetric)
+      ),
+    [scatters, xMetric, yMetric]
+  );
+
+  useEffect(() => {
+    if (!quarter) return;
+
+    const wanted = needsAllQuarters ? quarters : [quarter];
+    const missing = wanted.filter(q => !axisScatters.has(q));
+    if (missing.length === 0) {
+      setLoading(false);
+      return;
+    }
+
+    let mounted = true;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const loaded = await Promise.all(
+          missing.map(q => powerGridService.getScatter(q, xMetric, yMetric))
+        );
+
+        if (mounted) {
+          setScatters(previous => {
+            // Drop quarters loaded for other axes
+            const next = new Map(
+              Array.from(previous).filter(([, s]) => s.xMetric === xMetric && s.yMetric === yMetric)
+            );
+            loaded.forEach(scatter => next.set(scatter.quarter, scatter));
+            return next;
+          });
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load scatter data');
+          setPlaying(false);
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadData();
+
+    return () => {
+      mounted = false;
+    };
+  }, [quarter, quarters, needsAllQuarters, axisScatters, xMetric, yMetric]);
+
+  // Playback: step to the next quarter until the last one
+  const allLoaded = quarters.length > 0 && quarters.every(q => axisScatters.has(q));
+  useEffect(() => {
+    if (!playing || !allLoaded) return;
+
+    const index = quarters.indexOf(quarter);
+    if (index >= quarters.length - 1) {
+      setPlaying(false);
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      onSelectionChange({ ...selection, x: xMetric, y: yMetric, quarter: quarters[index + 1] });
+    }, PLAYBACK_INTERVAL_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [playing, allLoaded, quarter, quarters, selection, xMetric, yMetric, onSelectionChange]);
+
+  const scatter = axisScatters.get(quarter) ?? null;
+
+  // Stable axes: span every loaded quarter so markers don't jump when the scale changes
+  const domains = useMemo(() => {
+    const points = Array.from(axisScatters.values()).flatMap(s => s.points);
+    return {
+      x: extent(points.map(p => p.x)) ?? ([0, 1] as [number, number]),
+      y: extent(points.map(p => p.y)) ?? ([0, 1] as [number, number]),
+    };
+  }, [axisScatters]);
+
+  // Trails for selected brands, through the current quarter
+  const trails = useMemo(() => {
+    if (!showTrails || selectedIds.size === 0) return undefined;
+
+    const trailMap = new Map<string, TrailPoint[]>();
+    const currentIndex = quarters.indexOf(quarter);
+
+    for (const q of quarters.slice(0, currentIndex + 1)) {
+      const quarterScatter = axisScatters.get(q);
+      if (!quarterScatter) continue;
+
+      for (const point of quarterScatter.points) {
+        if (!selectedIds.has(point.brand.id)) continue;
+        const trail = trailMap.get(point.brand.id) ?? [];
+        trail.push({ quarter: q, x: point.x, y: point.y });
+        trailMap.set(point.brand.id, trail);
+      }
+    }
+
+    return trailMap;
+  }, [showTrails, selectedIds, quarters, quarter, axisScatters]);
+
+  const selectedPoints = scatter ? scatter.points.filter(p => selectedIds.has(p.brand.id)) : [];
+  const canCompare =
+    selectedPoints.length >= MIN_COMPARISON_BRANDS && selectedPoints.length <= MAX_COMPARISON_BRANDS;
+
+  const update = (changes: Partial<PowerGridSelection>) => {
+    onSelectionChange({ ...selection, x: xMetric, y: yMetric, quarter, ...changes });
+  };
+
+  const handlePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    // Restart from the first quarter when already at the end
+    if (quarters.indexOf(quarter) >= quarters.length - 1) {
+      update({ quarter: quarters[0] });
+    }
+    setPlaying(true);
+  };
+
+  return (
+    <section className="power-grid" aria-labelledby="power-grid-title">
+      <h2 id="power-grid-title">Power Grid</h2>
+
+      <div className="power-grid-controls">
+        <label>
+          X axis
+          <select value={xMetric} onChange={e => update({ x: e.target.value })}>
+            <MetricOptions />
+          </select>
+        </label>
+
+        <label>
+          Y axis
+          <select value={yMetric} onChange={e => update({ y: e.target.value })}>
+            <MetricOptions />
+          </select>
+        </label>
+
+        <label>
+          Quarter
+          <select
+            value={quarter}
+            onChange={e => {
+              setPlaying(false);
+              update({ quarter: e.target.value });
+            }}
+          >
+            {quarters.map(q => (
+              <option key={q} value={q}>
+                {q}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <fieldset className="power-grid-markers">
+          <legend>Markers</legend>
+          <label>
+            <input
+              type="radio"
+              name="power-grid-markers"
+              checked={selection.markers === 'logo'}
+              onChange={() => update({ markers: 'logo' })}
+            />
+            Logos
+          </label>
+          <label>
+            <input
+              type="radio"
+              name="power-grid-markers"
+              checked={selection.markers === 'dot'}
+              onChange={() => update({ markers: 'dot' })}
+            />
+            Dots
+          </label>
+        </fieldset>
+
+        <div className="power-grid-playback">
+          <button
+            type="button"
+            className="power-grid-play"
+            onClick={handlePlay}
+            disabled={quarters.length < 2}
+            aria-pressed={playing}
+          >
+            {playing ? '❚❚ Pause' : '▶ Play quarters'}
+          </button>
+          <label className="power-grid-trails">
+            <input
+              type="checkbox"
+              checked={showTrails}
+              onChange={e => setShowTrails(e.target.checked)}
+            />
+            Trails for selected brands
+          </label>
+        </div>
+      </div>
+
+      <p className="power-grid-hint">
+        Drag across the plot to select brands (Shift adds to the selection). Click a brand to open it.
+      </p>
+
+      {error ? (
+        <p className="power-grid-message power-grid-message--error" role="alert">
+          {error}
+        </p>
+      ) : !scatter ? (
+        <p className="power-grid-message" role="status">
+          {loading ? 'Loading power grid...' : 'No data'}
+        </p>
+      ) : (
+        <div className="power-grid-body">
+          <div className="power-grid-chart" ref={chartRef}>
+            <div className="power-grid-chart-header">
+              <div className="power-grid-quarter" aria-live="polite">
+                {scatter.quarter}
+                {loading && <span className="power-grid-loading"> · loading quarters…</span>}
+              </div>
+              <ImageExportMenu
+                description="power grid"
+                filename={`power-grid-${xMetric}-${yMetric}-${scatter.quarter}`.toLowerCase()}
+                disabled={scatter.points.length === 0}
+                getImage={() =>
+                  svgElementToImage(chartRef.current?.querySelector('svg') ?? null, {
+                    title: `${getMetricLabel(yMetric)} vs ${getMetricLabel(xMetric)}, ${scatter.quarter}`,
+                    legend: CATEGORIES.map((category, index) => ({
+                      label: category,
+                      color: seriesColor(index),
+                    })).filter(entry =>
+                      scatter.points.some(point => point.brand.category === entry.label)
+                    ),
+                  })
+                }
+              />
+            </div>
+            {scatter.points.length === 0 ? (
+              <p className="power-grid-message">
+                No brands have both {getMetricLabel(xMetric)} and {getMetricLabel(yMetric)} in{' '}
+                {scatter.quarter}.
+              </p>
+            ) : (
+              <ScatterPlot
+                scatter={scatter}
+                xDomain={domains.x}
+                yDomain={domains.y}
+                markers={selection.markers}
+                colorFor={categoryColor}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+                onBrandClick={onBrandClick}
+                trails={trails}
+              />
+            )}
+          </div>
+
+          <aside className="power-grid-sidebar">
+            <h3>Categories</h3>
+            <ul className="power-grid-legend">
+              {CATEGORIES.map((category, index) => (
+                <li key={category}>
+                  <span className="power-grid-swatch" style={{ background: seriesColor(index) }} />
+                  {category}
+                </li>
+              ))}
+            </ul>
+
+            <h3>
+              Selected <span className="power-grid-count">({selectedPoints.length})</span>
+            </h3>
+            {selectedPoints.length === 0 ? (
+              <p className="power-grid-empty">No brands selected</p>
+            ) : (
+              <>
+                <ul className="power-grid-selection">
+                  {selectedPoints.map(point => (
+                    <li key={point.brand.id}>
+                      <button
+                        type="button"
+                        className="power-grid-selection-name"
+                        onClick={() => onBrandClick(point.brand)}
+                      >
+                        {point.brand.name}
+                      </button>
+                      <span className="power-grid-selection-values">
+                        {formatMetricValue(point.x, xMetric)} · {formatMetricValue(point.y, yMetric)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="power-grid-selection-actions">
+                  <button
+                    type="button"
+                    onClick={() => onCompareBrands(selectedPoints.map(p => p.brand))}
+                    disabled={!canCompare}
+                    title={
+                      canCompare
+                        ? undefined
+                        : `Select ${MIN_COMPARISON_BRANDS}-${MAX_COMPARISON_BRANDS} brands to compare`
+                    }
+                  >
+                    Compare
+                  </button>
+                  <button type="button" onClick={() => setSelectedIds(new Set())}>
+                    Clear
+                  </button>
+                </div>
+              </>
+            )}
+          </aside>
+        </div>
+      )}
+    </section>
+  );
+};
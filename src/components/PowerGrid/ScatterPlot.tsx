@@ -0,0 +1,354 @@
+/**
+ * ScatterPlot Component
+ * Feature: 004-quarterly-data-association
+ *
+ * Pure SVG scatter of brands by two metrics
+ * - Quadrant lines at the quarter's medians
+ * - Logo or category-colored dot markers that glide between quarters
+ * - Drag to brush-select brands (Shift adds to the selection); click opens a brand
+ * - Optional trails showing selected brands' positions in earlier quarters
+ */
+
+import React, { useRef, useState } from 'react';
+import type { Brand } from '../../types/brand';
+import type { MetricKey, MetricScatter } from '../../types/quarterlyData';
+import { formatMetricValue, getMetricLabel } from '../../utils/metricRegistry';
+import { linearScale, niceTicks } from '../../utils/chartScale';
+
+/**
+ * A brand's position in one quarter, for trails
+ */
+export interface TrailPoint {
+  quarter: string;
+  x: number;
+  y: number;
+}
+
+interface ScatterPlotProps {
+  scatter: MetricScatter;
+  /** Axis ranges, kept stable while animating across quarters */
+  xDomain: [number, number];
+  yDomain: [number, number];
+  markers: 'logo' | 'dot';
+  colorFor: (brand: Brand) => string;
+  selectedIds: Set<string>;
+  onSelectionChange: (ids: Set<string>) => void;
+  onBrandClick: (brand: Brand) => void;
+  /** Positions per brand up to the current quarter, drawn as lines */
+  trails?: Map<string, TrailPoint[]>;
+}
+
+interface Brush {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  additive: boolean;
+}
+
+const WIDTH = 760;
+const HEIGHT = 540;
+const MARGIN = { top: 24, right: 24, bottom: 48, left: 60 };
+const LOGO_SIZE = 26;
+const DOT_RADIUS = 6;
+// Drags shorter than this count as a click on the background
+const MIN_BRUSH_SIZE = 4;
+
+/**
+ * Quadrant names, clockwise from top right
+ * The Stature × Strength grid has well-known names; other pairs are described
+ */
+function quadrantLabels(xMetric: MetricKey, yMetric: MetricKey): [string, string, string, string] {
+  if (xMetric === 'Brand_Stature_C' && yMetric === 'Brand_Strength_C') {
+    return ['Leadership', 'Eroding', 'New / unfocused', 'Unrealized potential'];
+  }
+
+  const x = getMetricLabel(xMetric);
+  const y = getMetricLabel(yMetric);
+  return [
+    `High ${x} · High ${y}`,
+    `High ${x} · Low ${y}`,
+    `Low ${x} · Low ${y}`,
+    `Low ${x} · High ${y}`,
+  ];
+}
+
+export const ScatterPlot: React.FC<ScatterPlotProps> = ({
+  scatter,
+  xDomain,
+  yDomain,
+  markers,
+  colorFor,
+  selectedIds,
+  onSelectionChange,
+  onBrandClick,
+  trails,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [brush, setBrush] = useState<Brush | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const { xMetric, yMetric } = scatter;
+  const xAxis = niceTicks(xDomain[0], xDomain[1], 6);
+  const yAxis = niceTicks(yDomain[0], yDomain[1], 6);
+  const x = linearScale(xAxis.domain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const y = linearScale(yAxis.domain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+  const plotLeft = MARGIN.left;
+  const plotRight = WIDTH - MARGIN.right;
+  const plotTop = MARGIN.top;
+  const plotBottom = HEIGHT - MARGIN.bottom;
+
+  const [topRight, bottomRight, bottomLeft, topLeft] = quadrantLabels(xMetric, yMetric);
+  const hasSelection = selectedIds.size > 0;
+
+  /**
+   * Convert a pointer position to SVG (viewBox) coordinates
+   */
+  const toSvgPoint = (event: React.PointerEvent): { x: number; y: number } | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return {
+      x: Math.min(Math.max(point.x, plotLeft), plotRight),
+      y: Math.min(Math.max(point.y, plotTop), plotBottom),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGRectElement>) => {
+    if (event.button !== 0) return;
+    const point = toSvgPoint(event);
+    if (!point) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setBrush({ x0: point.x, y0: point.y, x1: point.x, y1: point.y, additive: event.shiftKey });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGRectElement>) => {
+    if (!brush) return;
+    const point = toSvgPoint(event);
+    if (point) {
+      setBrush({ ...brush, x1: point.x, y1: point.y });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!brush) return;
+    setBrush(null);
+
+    const left = Math.min(brush.x0, brush.x1);
+    const right = Math.max(brush.x0, brush.x1);
+    const top = Math.min(brush.y0, brush.y1);
+    const bottom = Math.max(brush.y0, brush.y1);
+
+    // A click on the background clears the selection
+    if (right - left < MIN_BRUSH_SIZE && bottom - top < MIN_BRUSH_SIZE) {
+      if (!brush.additive) onSelectionChange(new Set());
+      return;
+    }
+
+    const next = new Set(brush.additive ? selectedIds : []);
+    for (const point of scatter.points) {
+      const px = x(point.x);
+      const py = y(point.y);
+      if (px >= left && px <= right && py >= top && py <= bottom) {
+        next.add(point.brand.id);
+      }
+    }
+    onSelectionChange(next);
+  };
+
+  const toggleSelected = (brandId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(brandId)) next.delete(brandId);
+    else next.add(brandId);
+    onSelectionChange(next);
+  };
+
+  const handleMarkerKeyDown = (event: React.KeyboardEvent, brand: Brand) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      onBrandClick(brand);
+    } else if (event.key === ' ') {
+      event.preventDefault();
+      toggleSelected(brand.id);
+    }
+  };
+
+  const handleMarkerClick = (event: React.MouseEvent, brand: Brand) => {
+    if (event.shiftKey) {
+      toggleSelected(brand.id);
+    } else {
+      onBrandClick(brand);
+    }
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="scatter-plot"
+      role="group"
+      aria-label={`${getMetricLabel(xMetric)} versus ${getMetricLabel(yMetric)} in ${scatter.quarter}, ${scatter.points.length} brands`}
+    >
+      {/* Gridlines and axes */}
+      {xAxis.ticks.map(tick => (
+        <g key={`x-${tick}`} className="scatter-gridline">
+          <line x1={x(tick)} x2={x(tick)} y1={plotTop} y2={plotBottom} />
+          <text x={x(tick)} y={plotBottom + 18} textAnchor="middle">
+            {tick}
+          </text>
+        </g>
+      ))}
+      {yAxis.ticks.map(tick => (
+        <g key={`y-${tick}`} className="scatter-gridline">
+          <line x1={plotLeft} x2={plotRight} y1={y(tick)} y2={y(tick)} />
+          <text x={plotLeft - 8} y={y(tick)} dy="0.32em" textAnchor="end">
+            {tick}
+          </text>
+        </g>
+      ))}
+      <text className="scatter-axis-title" x={(plotLeft + plotRight) / 2} y={HEIGHT - 8} textAnchor="middle">
+        {getMetricLabel(xMetric)}
+      </text>
+      <text
+        className="scatter-axis-title"
+        transform={`translate(16, ${(plotTop + plotBottom) / 2}) rotate(-90)`}
+        textAnchor="middle"
+      >
+        {getMetricLabel(yMetric)}
+      </text>
+
+      {/* Quadrants at the medians */}
+      {scatter.medians && (
+        <g className="scatter-quadrants">
+          <line
+            className="scatter-median"
+            x1={x(scatter.medians.x)}
+            x2={x(scatter.medians.x)}
+            y1={plotTop}
+            y2={plotBottom}
+          />
+          <line
+            className="scatter-median"
+            x1={plotLeft}
+            x2={plotRight}
+            y1={y(scatter.medians.y)}
+            y2={y(scatter.medians.y)}
+          />
+          <text x={plotRight - 6} y={plotTop + 14} textAnchor="end">
+            {topRight}
+          </text>
+          <text x={plotLeft + 6} y={plotTop + 14}>
+            {topLeft}
+          </text>
+          <text x={plotLeft + 6} y={plotBottom - 8}>
+            {bottomLeft}
+          </text>
+          <text x={plotRight - 6} y={plotBottom - 8} textAnchor="end">
+            {bottomRight}
+          </text>
+        </g>
+      )}
+
+      {/* Brush target (behind the markers) */}
+      <rect
+        className="scatter-brush-target"
+        data-export="exclude"
+        x={plotLeft}
+        y={plotTop}
+        width={plotRight - plotLeft}
+        height={plotBottom - plotTop}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setBrush(null)}
+      />
+
+      {/* Trails */}
+      {trails &&
+        Array.from(trails.entries()).map(([brandId, positions]) => {
+          const point = scatter.points.find(p => p.brand.id === brandId);
+          if (!point || positions.length < 2) return null;
+          const color = colorFor(point.brand);
+
+          return (
+            <g key={`trail-${brandId}`} className="scatter-trail" aria-hidden="true">
+              <polyline
+                points={positions.map(p => `${x(p.x)},${y(p.y)}`).join(' ')}
+                stroke={color}
+              />
+              {positions.slice(0, -1).map(p => (
+                <circle key={p.quarter} cx={x(p.x)} cy={y(p.y)} r={2.5} fill={color}>
+                  <title>{p.quarter}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+
+      {/* Markers */}
+      {scatter.points.map(point => {
+        const { brand } = point;
+        const selected = selectedIds.has(brand.id);
+        const highlighted = selected || hoveredId === brand.id;
+        const color = colorFor(brand);
+        const label = `${brand.name}: ${getMetricLabel(xMetric)} ${formatMetricValue(point.x, xMetric)}, ${getMetricLabel(yMetric)} ${formatMetricValue(point.y, yMetric)}`;
+
+        return (
+          <g
+            key={brand.id}
+            className={`scatter-marker ${selected ? 'is-selected' : ''} ${hasSelection && !selected ? 'is-dimmed' : ''}`}
+            style={{ transform: `translate(${x(point.x)}px, ${y(point.y)}px)` }}
+            role="button"
+            tabIndex={0}
+            aria-label={label}
+            aria-pressed={selected}
+            onClick={e => handleMarkerClick(e, brand)}
+            onKeyDown={e => handleMarkerKeyDown(e, brand)}
+            onMouseEnter={() => setHoveredId(brand.id)}
+            onMouseLeave={() => setHoveredId(null)}
+            onFocus={() => setHoveredId(brand.id)}
+            onBlur={() => setHoveredId(null)}
+          >
+            <title>{label}</title>
+            {markers === 'logo' ? (
+              <>
+                <circle r={LOGO_SIZE / 2 + 2} fill="#ffffff" stroke={color} strokeWidth={2} />
+                <image
+                  href={`/${brand.logoPath}`}
+                  x={-LOGO_SIZE / 2 + 2}
+                  y={-LOGO_SIZE / 2 + 2}
+                  width={LOGO_SIZE - 4}
+                  height={LOGO_SIZE - 4}
+                  preserveAspectRatio="xMidYMid meet"
+                />
+              </>
+            ) : (
+              <circle className="scatter-dot" r={DOT_RADIUS} fill={color} />
+            )}
+            {highlighted && (
+              <text className="scatter-marker-label" y={-(markers === 'logo' ? LOGO_SIZE / 2 + 6 : DOT_RADIUS + 5)} textAnchor="middle">
+                {brand.name}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {/* Active brush */}
+      {brush && (
+        <rect
+          className="scatter-brush"
+          data-export="exclude"
+          x={Math.min(brush.x0, brush.x1)}
+          y={Math.min(brush.y0, brush.y1)}
+          width={Math.abs(brush.x1 - brush.x0)}
+          height={Math.abs(brush.y1 - brush.y0)}
+        />
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1 @@
+export { PowerGrid } from './PowerGrid';
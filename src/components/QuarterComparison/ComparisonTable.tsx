@@ -4,22 +4,34 @@
  *
  * Side-by-side comparison table with difference calculations
  * Implements T026: percentage change calculation logic
+ * The selection can be exported as CSV, XLSX or JSON when the brand is known
  */
 
 import React from 'react';
+import type { Brand } from '../../types/brand';
 import type { BrandMetrics } from '../../types/quarterlyData';
-import { METRIC_OPTIONS } from './MetricSelector';
+import { ExportMenu } from '../ExportMenu';
+import { brandMetricsDataset } from '../../utils/dataExport';
+import {
+  formatMetricValue,
+  getChangeDirection,
+  getMetricDefinition,
+  isMetricKey,
+} from '../../utils/metricRegistry';
 
 interface ComparisonTableProps {
   quarters: string[];
   quarterlyData: Map<string, BrandMetrics>;
   selectedMetrics: string[];
+  /** Brand being compared; enables exporting the selection */
+  brand?: Pick<Brand, 'id' | 'name'>;
 }
 
 export const ComparisonTable: React.FC<ComparisonTableProps> = ({
   quarters,
   quarterlyData,
   selectedMetrics,
+  brand,
 }) => {
   // Calculate percentage change between two values
   const calculateChange = (oldValue: number | null, newValue: number | null): string => {
@@ -33,23 +45,6 @@ export const ComparisonTable: React.FC<ComparisonTableProps> = ({
     return `${changeSymbol}${change.toFixed(2)}`;
   };
 
-  // Get metric label from key
-  const getMetricLabel = (metricKey: string): string => {
-    const option = METRIC_OPTIONS.find(m => m.key === metricKey);
-    return option ? option.label : metricKey;
-  };
-
-  // Format metric value
-  const formatValue = (value: number | null, metricKey: string): string => {
-    if (value === null) {
-      return 'No data';
-    }
-
-    // Composite scores (_C suffix) don't use percentage
-    const isComposite = metricKey.endsWith('_C');
-    return isComposite ? value.toFixed(2) : `${value.toFixed(2)}%`;
-  };
-
   if (quarters.length === 0) {
     return (
       <div className="comparison-table-empty">
@@ -68,6 +63,22 @@ export const ComparisonTable: React.FC<ComparisonTableProps> = ({
 
   return (
     <div className="comparison-table-wrapper">
+      {brand && (
+        <div className="comparison-table-toolbar">
+          <ExportMenu
+            description="comparison"
+            getDataset={() =>
+              brandMetricsDataset(
+                brand,
+                quarters,
+                quarterlyData,
+                selectedMetrics.filter(isMetricKey),
+                'Quarter comparison'
+              )
+            }
+          />
+        </div>
+      )}
       <table className="comparison-table" role="table">
         <thead>
           <tr>
@@ -85,11 +96,11 @@ export const ComparisonTable: React.FC<ComparisonTableProps> = ({
           </tr>
         </thead>
         <tbody>
-          {selectedMetrics.map(metricKey => {
-            const label = getMetricLabel(metricKey);
+          {selectedMetrics.filter(isMetricKey).map(metricKey => {
+            const definition = getMetricDefinition(metricKey);
             const values = quarters.map(q => {
               const metrics = quarterlyData.get(q);
-              return metrics ? (metrics as any)[metricKey] as number | null : null;
+              return metrics ? metrics[metricKey] : null;
             });
 
             // Calculate change between first and last quarter
@@ -97,21 +108,20 @@ export const ComparisonTable: React.FC<ComparisonTableProps> = ({
             const lastValue = values[values.length - 1];
             const change = quarters.length > 1 ? calculateChange(firstValue, lastValue) : null;
 
-            // Determine change direction for styling
+            // Color by improvement, not sign: lower is better for negative attributes
             let changeClass = '';
             if (change && change !== 'N/A') {
-              const changeNum = parseFloat(change);
-              changeClass = changeNum > 0 ? 'positive' : changeNum < 0 ? 'negative' : 'neutral';
+              changeClass = getChangeDirection(parseFloat(change), metricKey);
             }
 
             return (
               <tr key={metricKey}>
-                <th scope="row" className="metric-name">
-                  {label}
+                <th scope="row" className="metric-name" title={definition.description}>
+                  {definition.label}
                 </th>
                 {values.map((value, index) => (
                   <td key={`${metricKey}-${quarters[index]}`} className="metric-value">
-                    {formatValue(value, metricKey)}
+                    {formatMetricValue(value, metricKey)}
                   </td>
                 ))}
                 {quarters.length > 1 && (
@@ -7,52 +7,13 @@
  */
 
 import React, { useEffect } from 'react';
-
-export interface MetricOption {
-  key: string;
-  label: string;
-  category: string;
-}
+import { METRIC_GROUPS, METRIC_KEYS, getMetricsByGroup } from '../../utils/metricRegistry';
 
 interface MetricSelectorProps {
   selectedMetrics: string[];
   onSelectionChange: (metrics: string[]) => void;
 }
 
-// Predefined metric options grouped by category
-const METRIC_OPTIONS: MetricOption[] = [
-  // Awareness & Preference
-  { key: 'Total_Users_pct', label: 'Total Users', category: 'Awareness' },
-  { key: 'Total_Prefer_pct', label: 'Total Prefer', category: 'Awareness' },
-
-  // Brand Equity
-  { key: 'Brand_Stature_C', label: 'Brand Stature', category: 'Brand Equity' },
-  { key: 'Brand_Strength_C', label: 'Brand Strength', category: 'Brand Equity' },
-  { key: 'Brand_Asset_C', label: 'Brand Asset', category: 'Brand Equity' },
-
-  // Differentiation
-  { key: 'Different_pct', label: 'Different', category: 'Differentiation' },
-  { key: 'Distinctive_pct', label: 'Distinctive', category: 'Differentiation' },
-  { key: 'Innovative_pct', label: 'Innovative', category: 'Differentiation' },
-  { key: 'Leader_pct', label: 'Leader', category: 'Differentiation' },
-
-  // Quality
-  { key: 'Reliable_pct', label: 'Reliable', category: 'Quality' },
-  { key: 'High_quality_pct', label: 'High Quality', category: 'Quality' },
-  { key: 'Trustworthy_pct', label: 'Trustworthy', category: 'Quality' },
-
-  // Personality
-  { key: 'Friendly_pct', label: 'Friendly', category: 'Personality' },
-  { key: 'Authentic_pct', label: 'Authentic', category: 'Personality' },
-  { key: 'Stylish_pct', label: 'Stylish', category: 'Personality' },
-  { key: 'Fun_pct', label: 'Fun', category: 'Personality' },
-
-  // Relationship
-  { key: 'Recommend_to_a_friend_pct', label: 'Recommend to Friend', category: 'Relationship' },
-  { key: 'Feel_loyal_pct', label: 'Feel Loyal', category: 'Relationship' },
-  { key: 'One_of_my_favorite_brands_pct', label: 'One of Favorites', category: 'Relationship' },
-];
-
 export const MetricSelector: React.FC<MetricSelectorProps> = ({
   selectedMetrics,
   onSelectionChange,
@@ -68,7 +29,7 @@ export const MetricSelector: React.FC<MetricSelectorProps> = ({
   };
 
   const handleSelectAll = () => {
-    onSelectionChange(METRIC_OPTIONS.map(m => m.key));
+    onSelectionChange([...METRIC_KEYS]);
   };
 
   const handleClearAll = () => {
@@ -87,7 +48,7 @@ export const MetricSelector: React.FC<MetricSelectorProps> = ({
       // Ctrl/Cmd + A to select all metrics
       if ((event.ctrlKey || event.metaKey) && event.key === 'a') {
         event.preventDefault();
-        if (selectedMetrics.length < METRIC_OPTIONS.length) {
+        if (selectedMetrics.length < METRIC_KEYS.length) {
           handleSelectAll();
         }
       }
@@ -107,8 +68,15 @@ export const MetricSelector: React.FC<MetricSelectorProps> = ({
     };
   }, [selectedMetrics, handleSelectAll, handleClearAll]);
 
-  // Group metrics by category
-  const categories = Array.from(new Set(METRIC_OPTIONS.map(m => m.category)));
+  // Select or clear a whole metric group
+  const handleGroupToggle = (groupKeys: string[], allSelected: boolean) => {
+    if (allSelected) {
+      onSelectionChange(selectedMetrics.filter(m => !groupKeys.includes(m)));
+    } else {
+      const additions = groupKeys.filter(key => !selectedMetrics.includes(key));
+      onSelectionChange([...selectedMetrics, ...additions]);
+    }
+  };
 
   return (
     <div className="metric-selector">
@@ -119,20 +87,39 @@ export const MetricSelector: React.FC<MetricSelectorProps> = ({
         </p>
       </div>
 
-      {categories.map(category => {
-        const categoryMetrics = METRIC_OPTIONS.filter(m => m.category === category);
+      {METRIC_GROUPS.map(group => {
+        const groupMetrics = getMetricsByGroup(group);
+        const groupKeys = groupMetrics.map(m => m.key as string);
+        const selectedCount = groupKeys.filter(key => selectedMetrics.includes(key)).length;
+        const allSelected = selectedCount === groupKeys.length;
 
         return (
-          <div key={category} className="metric-category-section">
-            <h5 className="metric-category-heading">{category}</h5>
+          <div key={group} className="metric-category-section">
+            <div className="metric-category-header">
+              <h5 className="metric-category-heading">
+                {group}{' '}
+                <span className="metric-category-count">
+                  ({selectedCount}/{groupKeys.length})
+                </span>
+              </h5>
+              <button
+                type="button"
+                className="metric-group-toggle"
+                onClick={() => handleGroupToggle(groupKeys, allSelected)}
+                aria-label={`${allSelected ? 'Clear' : 'Select'} all ${group} metrics`}
+              >
+                {allSelected ? 'Clear group' : 'Select group'}
+              </button>
+            </div>
             <div className="metric-options-grid">
-              {categoryMetrics.map(metric => {
+              {groupMetrics.map(metric => {
                 const isSelected = selectedMetrics.includes(metric.key);
 
                 return (
                   <label
                     key={metric.key}
                     className={`metric-checkbox ${isSelected ? 'selected' : ''}`}
+                    title={metric.description}
                   >
                     <input
                       type="checkbox"
@@ -157,5 +144,3 @@ export const MetricSelector: React.FC<MetricSelectorProps> = ({
     </div>
   );
 };
-
-export { METRIC_OPTIONS };
@@ -0,0 +1,402 @@
+/**
+ * MetricTrendChart Component
+ * Feature: 004-quarterly-data-association
+ *
+ * Pure SVG line chart of metric series across quarters
+ * (one brand × many metrics, or many brands × one metric)
+ * - Missing quarters break the line instead of interpolating across them; the axis
+ *   spans every calendar quarter in the range, so absent quarters show as gaps
+ * - Percentages and scores each get their own value axis (left and right)
+ * - Hover (or arrow keys) shows a tooltip with every metric for that quarter
+ * - Toggle between absolute values and change from the baseline quarter
+ * - Save as SVG or PNG (with title and legend) for slides
+ */
+
+import React, { useId, useMemo, useRef, useState } from 'react';
+import type { MetricKey, MetricUnit } from '../../types/quarterlyData';
+import {
+  formatMetricValue,
+  getMetricDefinition,
+  getMetricUnitSuffix,
+} from '../../utils/metricRegistry';
+import {
+  continuousQuarters,
+  extent,
+  linearScale,
+  niceTicks,
+  seriesColor,
+} from '../../utils/chartScale';
+import { svgElementToImage } from '../../utils/imageExport';
+import { ImageExportMenu } from '../ExportMenu';
+
+export type TrendMode = 'absolute' | 'change';
+
+/**
+ * One line on the chart
+ */
+export interface TrendSeriesInput {
+  id: string;
+  label: string;
+  /** Metric plotted (drives value formatting) */
+  metricKey: MetricKey;
+  /** Value per quarter, aligned with the chart's quarters (null = no data) */
+  values: Array<number | null>;
+}
+
+interface MetricTrendChartProps {
+  quarters: string[];
+  series: TrendSeriesInput[];
+  title?: string;
+  /** Title for saved images, e.g. including the brand name (defaults to title) */
+  exportTitle?: string;
+}
+
+interface TrendSeries {
+  id: string;
+  key: MetricKey;
+  unit: MetricUnit;
+  label: string;
+  color: string;
+  /** Value per axis quarter (null = no data), already adjusted for the mode */
+  values: Array<number | null>;
+  /** Raw values, for the tooltip */
+  rawValues: Array<number | null>;
+  /** Quarter whose value is the baseline for change mode */
+  baselineQuarter: string | null;
+}
+
+/**
+ * Value axis shared by every series with the same unit
+ */
+interface TrendAxis {
+  unit: MetricUnit;
+  /** A metric on this axis (drives the tick label suffix) */
+  key: MetricKey;
+  side: 'left' | 'right';
+  ticks: number[];
+  y: (value: number) => number;
+}
+
+const WIDTH = 640;
+const HEIGHT = 300;
+const MARGIN = { top: 16, right: 24, bottom: 36, left: 52 };
+/** Right margin when a second value axis is drawn there */
+const SECOND_AXIS_MARGIN = 52;
+
+/**
+ * Split a series into runs of consecutive non-null points
+ */
+function toSegments(points: Array<[number, number] | null>): Array<Array<[number, number]>> {
+  const segments: Array<Array<[number, number]>> = [];
+  let current: Array<[number, number]> = [];
+
+  for (const point of points) {
+    if (point) {
+      current.push(point);
+    } else if (current.length > 0) {
+      segments.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) segments.push(current);
+
+  return segments;
+}
+
+function formatChange(value: number, key: MetricKey): string {
+  const sign = value > 0 ? '+' : '';
+  return `${sign}${value.toFixed(2)}${getMetricUnitSuffix(key)}`;
+}
+
+export const MetricTrendChart: React.FC<MetricTrendChartProps> = ({
+  quarters,
+  series: seriesInput,
+  title = 'Trend',
+  exportTitle = title,
+}) => {
+  const modeName = useId();
+  const [mode, setMode] = useState<TrendMode>('absolute');
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Every calendar quarter from the first to the last, so missing ones stay visible as gaps
+  const axisQuarters = useMemo(() => continuousQuarters(quarters), [quarters]);
+
+  const series = useMemo<TrendSeries[]>(
+    () =>
+      seriesInput.map((input, index) => {
+        const rawValues = axisQuarters.map(quarter => {
+          const quarterIndex = quarters.indexOf(quarter);
+          return quarterIndex >= 0 ? input.values[quarterIndex] ?? null : null;
+        });
+        // Baseline: the first selected quarter with data
+        const baselineIndex = rawValues.findIndex(v => v !== null);
+        const baseline = baselineIndex >= 0 ? rawValues[baselineIndex] : null;
+        const values =
+          mode === 'change'
+            ? rawValues.map(v => (v !== null && baseline !== null ? v - baseline : null))
+            : rawValues;
+
+        return {
+          id: input.id,
+          key: input.metricKey,
+          unit: getMetricDefinition(input.metricKey).unit,
+          label: input.label,
+          color: seriesColor(index),
+          values,
+          rawValues,
+          baselineQuarter: baselineIndex >= 0 ? axisQuarters[baselineIndex] : null,
+        };
+      }),
+    [seriesInput, quarters, axisQuarters, mode]
+  );
+
+  // One value axis per unit (in order of first appearance), so a composite
+  // score isn't flattened against a 0-100 percentage scale
+  const axes: TrendAxis[] = [];
+  for (const unit of new Set(series.map(s => s.unit))) {
+    const unitSeries = series.filter(s => s.unit === unit);
+    const valueExtent = extent(unitSeries.flatMap(s => s.values));
+    if (!valueExtent) continue;
+
+    // Always show zero on the change axis so gains and losses read at a glance
+    const [minValue, maxValue] =
+      mode === 'change'
+        ? [Math.min(0, valueExtent[0]), Math.max(0, valueExtent[1])]
+        : valueExtent;
+    const { domain, ticks } = niceTicks(minValue, maxValue, 5);
+
+    axes.push({
+      unit,
+      key: unitSeries[0].key,
+      side: axes.length === 0 ? 'left' : 'right',
+      ticks,
+      y: linearScale(domain, [HEIGHT - MARGIN.bottom, MARGIN.top]),
+    });
+  }
+
+  if (axisQuarters.length < 2 || series.length === 0 || axes.length === 0) {
+    return null;
+  }
+
+  const axisByUnit = new Map(axes.map(axis => [axis.unit, axis]));
+  const hasSecondAxis = axes.length > 1;
+  const plotRight = WIDTH - (hasSecondAxis ? SECOND_AXIS_MARGIN : MARGIN.right);
+  const x = linearScale([0, axisQuarters.length - 1], [MARGIN.left, plotRight]);
+
+  const legendLabel = (s: TrendSeries) =>
+    `${s.label}${mode === 'change' && s.baselineQuarter ? ` (from ${s.baselineQuarter})` : ''}${
+      hasSecondAxis && axisByUnit.get(s.unit)?.side === 'right' ? ' (right axis)' : ''
+    }`;
+
+  // Thin out quarter labels when there are many quarters
+  const labelEvery = Math.ceil(axisQuarters.length / 10);
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const rect = svg.getBoundingClientRect();
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const step = (plotRight - MARGIN.left) / (axisQuarters.length - 1);
+    const index = Math.round((svgX - MARGIN.left) / step);
+    setActiveIndex(Math.max(0, Math.min(axisQuarters.length - 1, index)));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    if (event.key === 'ArrowRight' || event.key === 'ArrowLeft') {
+      event.preventDefault();
+      const delta = event.key === 'ArrowRight' ? 1 : -1;
+      setActiveIndex(prev =>
+        prev === null ? 0 : Math.max(0, Math.min(axisQuarters.length - 1, prev + delta))
+      );
+    } else if (event.key === 'Escape' && activeIndex !== null) {
+      // Dismiss the tooltip without closing the comparison
+      event.stopPropagation();
+      setActiveIndex(null);
+    }
+  };
+
+  const tooltipLeft = activeIndex !== null ? (x(activeIndex) / WIDTH) * 100 : 0;
+
+  return (
+    <div className="trend-chart">
+      <div className="trend-chart-header">
+        <h3>{title}</h3>
+        <div className="trend-chart-mode" role="radiogroup" aria-label="Chart values">
+          <label className={mode === 'absolute' ? 'selected' : ''}>
+            <input
+              type="radio"
+              name={modeName}
+              value="absolute"
+              checked={mode === 'absolute'}
+              onChange={() => setMode('absolute')}
+            />
+            Absolute
+          </label>
+          <label className={mode === 'change' ? 'selected' : ''}>
+            <input
+              type="radio"
+              name={modeName}
+              value="change"
+              checked={mode === 'change'}
+              onChange={() => setMode('change')}
+            />
+            Change from baseline
+          </label>
+        </div>
+        <ImageExportMenu
+          description={`${title} chart`}
+          filename={`${exportTitle}-${mode}`.toLowerCase()}
+          getImage={() =>
+            svgElementToImage(svgRef.current, {
+              title: mode === 'change' ? `${exportTitle} (change from baseline)` : exportTitle,
+              legend: series.map(s => ({ label: legendLabel(s), color: s.color })),
+            })
+          }
+        />
+      </div>
+
+      <div className="trend-chart-plot">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="trend-chart-svg"
+          role="img"
+          aria-label={`${mode === 'change' ? 'Change in' : 'Values of'} ${series
+            .map(s => s.label)
+            .join(', ')} from ${axisQuarters[0]} to ${
+            axisQuarters[axisQuarters.length - 1]
+          }. Use arrow keys to inspect quarters.`}
+          tabIndex={0}
+          onPointerMove={handlePointerMove}
+          onPointerLeave={() => setActiveIndex(null)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setActiveIndex(null)}
+        >
+          {/* Y axes: gridlines follow the left axis, the right axis only labels its ticks */}
+          {axes.map(axis =>
+            axis.ticks.map(tick => (
+              <g
+                key={`${axis.side}-${tick}`}
+                className={`trend-chart-gridline ${axis.side === 'left' && tick === 0 ? 'zero' : ''}`}
+              >
+                {axis.side === 'left' && (
+                  <line x1={MARGIN.left} x2={plotRight} y1={axis.y(tick)} y2={axis.y(tick)} />
+                )}
+                <text
+                  x={axis.side === 'left' ? MARGIN.left - 8 : plotRight + 8}
+                  y={axis.y(tick)}
+                  dy="0.32em"
+                  textAnchor={axis.side === 'left' ? 'end' : 'start'}
+                >
+                  {tick}
+                  {getMetricUnitSuffix(axis.key)}
+                </text>
+              </g>
+            ))
+          )}
+
+          {/* X axis labels */}
+          {axisQuarters.map((quarter, index) =>
+            index % labelEvery === 0 || index === axisQuarters.length - 1 ? (
+              <text
+                key={quarter}
+                className="trend-chart-axis-label"
+                x={x(index)}
+                y={HEIGHT - MARGIN.bottom + 20}
+                textAnchor="middle"
+              >
+                {quarter}
+              </text>
+            ) : null
+          )}
+
+          {/* Hover guide */}
+          {activeIndex !== null && (
+            <line
+              className="trend-chart-guide"
+              data-export="exclude"
+              x1={x(activeIndex)}
+              x2={x(activeIndex)}
+              y1={MARGIN.top}
+              y2={HEIGHT - MARGIN.bottom}
+            />
+          )}
+
+          {/* Series: one path per run of consecutive quarters, plus a dot per point */}
+          {series.map(s => {
+            const axis = axisByUnit.get(s.unit);
+            if (!axis) return null;
+
+            const points = s.values.map((value, index) =>
+              value === null ? null : ([x(index), axis.y(value)] as [number, number])
+            );
+
+            return (
+              <g key={s.id} className="trend-chart-series">
+                {toSegments(points).map((segment, segmentIndex) => (
+                  <path
+                    key={segmentIndex}
+                    d={segment.map(([px, py], i) => `${i === 0 ? 'M' : 'L'}${px},${py}`).join(' ')}
+                    fill="none"
+                    stroke={s.color}
+                    strokeWidth={2}
+                  />
+                ))}
+                {points.map((point, index) =>
+                  point ? (
+                    <circle
+                      key={index}
+                      cx={point[0]}
+                      cy={point[1]}
+                      r={index === activeIndex ? 5 : 3}
+                      fill={s.color}
+                    />
+                  ) : null
+                )}
+              </g>
+            );
+          })}
+        </svg>
+
+        {activeIndex !== null && (
+          <div
+            className={`trend-chart-tooltip ${tooltipLeft > 60 ? 'align-right' : ''}`}
+            style={{ left: `${tooltipLeft}%` }}
+            role="status"
+          >
+            <strong>{axisQuarters[activeIndex]}</strong>
+            <ul>
+              {series.map(s => {
+                const raw = s.rawValues[activeIndex];
+                const value = s.values[activeIndex];
+
+                return (
+                  <li key={s.id}>
+                    <span className="trend-chart-swatch" style={{ background: s.color }} />
+                    {s.label}:{' '}
+                    {raw === null
+                      ? 'No data'
+                      : mode === 'change' && value !== null
+                        ? `${formatChange(value, s.key)} (${formatMetricValue(raw, s.key)})`
+                        : formatMetricValue(raw, s.key)}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <ul className="trend-chart-legend">
+        {series.map(s => (
+          <li key={s.id}>
+            <span className="trend-chart-swatch" style={{ background: s.color }} />
+            {legendLabel(s)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
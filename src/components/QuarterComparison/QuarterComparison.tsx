@@ -6,36 +6,55 @@
  * Implements T027: sparse quarter handling
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { brandAssociationService } from '../../services/brandAssociationService';
 import type { BrandMetrics } from '../../types/quarterlyData';
+import type { ComparisonSelection } from '../../types/routes';
 import { QuarterSelector } from './QuarterSelector';
 import { MetricSelector } from './MetricSelector';
 import { ComparisonTable } from './ComparisonTable';
+import { MetricTrendChart } from './MetricTrendChart';
+import { getMetricLabel, isMetricKey } from '../../utils/metricRegistry';
 import './QuarterComparison.css';
 
 interface QuarterComparisonProps {
   brandId: string;
   brandName: string;
   onClose?: () => void;
+  /** Quarters to pre-select (e.g., from a shared link); defaults to all available */
+  initialQuarters?: string[];
+  /** Metrics to pre-select (e.g., from a shared link); unknown keys are ignored */
+  initialMetrics?: string[];
+  /** Called when the user changes the quarter or metric selection */
+  onSelectionChange?: (selection: ComparisonSelection) => void;
 }
 
+const DEFAULT_METRICS = ['Total_Users_pct', 'Total_Prefer_pct', 'Brand_Stature_C'];
+
 export const QuarterComparison: React.FC<QuarterComparisonProps> = ({
   brandId,
   brandName,
   onClose,
+  initialQuarters,
+  initialMetrics,
+  onSelectionChange,
 }) => {
   const [availableQuarters, setAvailableQuarters] = useState<string[]>([]);
   const [selectedQuarters, setSelectedQuarters] = useState<string[]>([]);
-  const [selectedMetrics, setSelectedMetrics] = useState<string[]>([
-    'Total_Users_pct',
-    'Total_Prefer_pct',
-    'Brand_Stature_C',
-  ]);
+  const [selectedMetrics, setSelectedMetrics] = useState<string[]>(() => {
+    const knownMetrics = (initialMetrics || []).filter(isMetricKey);
+    return knownMetrics.length > 0 ? knownMetrics : DEFAULT_METRICS;
+  });
   const [quarterlyData, setQuarterlyData] = useState<Map<string, BrandMetrics>>(new Map());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Initial quarters only apply when the brand loads, not on every selection change
+  const initialQuartersRef = useRef(initialQuarters);
+  useEffect(() => {
+    initialQuartersRef.current = initialQuarters;
+  }, [initialQuarters]);
+
   // T028: Keyboard navigation - Escape to close
   useEffect(() => {
     const handleEscape = (event: KeyboardEvent) => {
@@ -64,8 +83,9 @@ export const QuarterComparison: React.FC<QuarterComparisonProps> = ({
         if (mounted) {
           setAvailableQuarters(quarters);
 
-          // Auto-select all quarters by default
-          setSelectedQuarters(quarters);
+          // Pre-select requested quarters, or all quarters by default
+          const requestedQuarters = (initialQuartersRef.current || []).filter(q => quarters.includes(q));
+          setSelectedQuarters(requestedQuarters.length > 0 ? requestedQuarters.sort() : quarters);
 
           // Load data for all quarters (T027: handles sparse quarters)
           if (quarters.length > 0) {
@@ -94,13 +114,27 @@ export const QuarterComparison: React.FC<QuarterComparisonProps> = ({
   // Handle quarter selection changes
   const handleQuarterChange = (quarters: string[]) => {
     setSelectedQuarters(quarters);
+    onSelectionChange?.({ quarters, metrics: selectedMetrics });
   };
 
   // Handle metric selection changes
   const handleMetricChange = (metrics: string[]) => {
     setSelectedMetrics(metrics);
+    onSelectionChange?.({ quarters: selectedQuarters, metrics });
   };
 
+  // One chart line per selected metric
+  const trendSeries = useMemo(
+    () =>
+      selectedMetrics.filter(isMetricKey).map(key => ({
+        id: key,
+        label: getMetricLabel(key),
+        metricKey: key,
+        values: selectedQuarters.map(q => quarterlyData.get(q)?.[key] ?? null),
+      })),
+    [selectedMetrics, selectedQuarters, quarterlyData]
+  );
+
   if (loading) {
     return (
       <div className="quarter-comparison quarter-comparison--loading">
@@ -170,10 +204,17 @@ export const QuarterComparison: React.FC<QuarterComparisonProps> = ({
         </div>
 
         <div className="quarter-comparison-main">
+          <MetricTrendChart
+            quarters={selectedQuarters}
+            series={trendSeries}
+            exportTitle={`${brandName} trend`}
+          />
+
           <ComparisonTable
             quarters={selectedQuarters}
             quarterlyData={quarterlyData}
             selectedMetrics={selectedMetrics}
+            brand={{ id: brandId, name: brandName }}
           />
 
           {selectedQuarters.length > 1 && selectedMetrics.length > 0 && (
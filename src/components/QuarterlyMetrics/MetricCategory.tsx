@@ -6,6 +6,7 @@
  */
 
 import React from 'react';
+import type { MetricBenchmark } from '../../types/quarterlyData';
 import { MetricValue } from './MetricValue';
 
 interface MetricCategoryProps {
@@ -14,23 +15,54 @@ interface MetricCategoryProps {
     label: string;
     value: number | null;
     unit?: string;
+    description?: string;
+    benchmark?: MetricBenchmark;
+    percentile?: number;
   }>;
+  /** CSV category the benchmarks describe */
+  benchmarkCategory?: string;
+  /** Render as a disclosure that starts closed */
+  collapsible?: boolean;
 }
 
-export const MetricCategory: React.FC<MetricCategoryProps> = ({ title, metrics }) => {
+export const MetricCategory: React.FC<MetricCategoryProps> = ({
+  title,
+  metrics,
+  collapsible = false,
+  benchmarkCategory,
+}) => {
+  const grid = (
+    <div className="metric-category-grid">
+      {metrics.map((metric, index) => (
+        <MetricValue
+          key={`${metric.label}-${index}`}
+          label={metric.label}
+          value={metric.value}
+          unit={metric.unit}
+          description={metric.description}
+          benchmark={metric.benchmark}
+          percentile={metric.percentile}
+          benchmarkCategory={benchmarkCategory}
+        />
+      ))}
+    </div>
+  );
+
+  if (collapsible) {
+    return (
+      <details className="metric-category metric-category--collapsible">
+        <summary className="metric-category-title">
+          {title} <span className="metric-category-count">({metrics.length})</span>
+        </summary>
+        {grid}
+      </details>
+    );
+  }
+
   return (
     <div className="metric-category">
       <h4 className="metric-category-title">{title}</h4>
-      <div className="metric-category-grid">
-        {metrics.map((metric, index) => (
-          <MetricValue
-            key={`${metric.label}-${index}`}
-            label={metric.label}
-            value={metric.value}
-            unit={metric.unit}
-          />
-        ))}
-      </div>
+      {grid}
     </div>
   );
 };
@@ -2,28 +2,66 @@
  * MetricValue Component
  * Feature: 004-quarterly-data-association
  *
- * Displays individual metric with null handling (per SC-006)
+ * Displays individual metric with null handling (per SC-006),
+ * optionally alongside its category benchmark and percentile
  */
 
 import React from 'react';
+import type { MetricBenchmark } from '../../types/quarterlyData';
+import { formatPercentile } from '../../utils/benchmarks';
 
 interface MetricValueProps {
   label: string;
   value: number | null;
   unit?: string;
+  /** Shown as a tooltip */
+  description?: string;
+  /** Distribution of this metric in the brand's CSV category */
+  benchmark?: MetricBenchmark;
+  /** Percentile rank of the value within the category (0-100) */
+  percentile?: number;
+  /** Category label, for the tooltip */
+  benchmarkCategory?: string;
 }
 
-export const MetricValue: React.FC<MetricValueProps> = ({ label, value, unit = '%' }) => {
+export const MetricValue: React.FC<MetricValueProps> = ({
+  label,
+  value,
+  unit = '%',
+  description,
+  benchmark,
+  percentile,
+  benchmarkCategory,
+}) => {
   // Handle null values per FR-007 and SC-006
   const displayValue = value !== null ? `${value.toFixed(2)}${unit}` : 'No data';
   const hasData = value !== null;
+  const format = (n: number) => `${n.toFixed(2)}${unit}`;
+
+  const benchmarkDetail = benchmark
+    ? `${benchmarkCategory ?? 'Category'}: median ${format(benchmark.median)}, ` +
+      `middle half ${format(benchmark.q1)}–${format(benchmark.q3)}, ` +
+      `mean ${format(benchmark.mean)} (${benchmark.count} brands)`
+    : undefined;
+  const title = [description, benchmarkDetail].filter(Boolean).join('\n') || undefined;
 
   return (
-    <div className={`metric-value ${hasData ? 'has-data' : 'no-data'}`}>
+    <div className={`metric-value ${hasData ? 'has-data' : 'no-data'}`} title={title}>
       <span className="metric-label">{label}</span>
       <span className="metric-number" aria-label={`${label}: ${displayValue}`}>
         {displayValue}
       </span>
+      {benchmark && (
+        <span className="metric-benchmark">
+          Category median {format(benchmark.median)}
+          {hasData && percentile !== undefined && (
+            <>
+              {' · '}
+              <span className="metric-percentile">{formatPercentile(percentile)} percentile</span>
+            </>
+          )}
+        </span>
+      )}
     </div>
   );
 };
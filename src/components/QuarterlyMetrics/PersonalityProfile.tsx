@@ -0,0 +1,404 @@
+/**
+ * PersonalityProfile Component
+ * Feature: 004-quarterly-data-association
+ *
+ * A brand's full set of brand image attributes in one quarter, as a radar
+ * (the brand's "shape") or as diverging bars against a reference.
+ * Either view can be overlaid with another quarter or the category average,
+ * and saved as SVG or PNG.
+ */
+
+import React, { useId, useRef, useState } from 'react';
+import type { BrandMetrics, CategoryBenchmark, MetricKey } from '../../types/quarterlyData';
+import {
+  formatMetricValue,
+  getChangeDirection,
+  getMetricUnitSuffix,
+  getMetricsByGroup,
+} from '../../utils/metricRegistry';
+import { linearScale, niceTicks } from '../../utils/chartScale';
+import { svgElementToImage } from '../../utils/imageExport';
+import { ImageExportMenu } from '../ExportMenu';
+
+interface PersonalityProfileProps {
+  /** Quarters with data for the brand, sorted */
+  quarters: string[];
+  metricsByQuarter: Map<string, BrandMetrics>;
+  /** Benchmark of the brand's CSV category, per quarter */
+  categoryBenchmarks: Map<string, CategoryBenchmark>;
+  /** Used in the title of saved images */
+  brandName?: string;
+}
+
+type ProfileView = 'radar' | 'bars';
+
+/** Overlay: '' for none, 'category' for the category average, or a quarter */
+type Overlay = string;
+
+const CATEGORY_OVERLAY = 'category';
+
+const ATTRIBUTES = getMetricsByGroup('Brand Image');
+
+interface AttributeValue {
+  key: MetricKey;
+  label: string;
+  value: number | null;
+  reference: number | null;
+}
+
+function formatDiff(value: number, key: MetricKey): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}${getMetricUnitSuffix(key)}`;
+}
+
+const RADAR_SIZE = 640;
+const RADAR_RADIUS = 170;
+
+const RadarChart: React.FC<{
+  values: AttributeValue[];
+  label: string;
+  referenceLabel: string | null;
+}> = ({ values, label, referenceLabel }) => {
+  const center = RADAR_SIZE / 2;
+  const maxValue = Math.max(1, ...values.flatMap(v => [v.value ?? 0, v.reference ?? 0]));
+  const { domain, ticks } = niceTicks(0, maxValue, 4);
+  const r = linearScale(domain, [0, RADAR_RADIUS]);
+
+  const angle = (index: number) => (index / values.length) * 2 * Math.PI - Math.PI / 2;
+  const point = (index: number, value: number): [number, number] => [
+    center + Math.cos(angle(index)) * r(value),
+    center + Math.sin(angle(index)) * r(value),
+  ];
+
+  // Missing values are skipped rather than drawn at zero
+  const polygon = (pick: (v: AttributeValue) => number | null) =>
+    values
+      .map((v, index) => {
+        const value = pick(v);
+        return value !== null ? point(index, value).join(',') : null;
+      })
+      .filter(Boolean)
+      .join(' ');
+
+  const top = [...values]
+    .filter(v => v.value !== null)
+    .sort((a, b) => (b.value as number) - (a.value as number))
+    .slice(0, 5);
+  const hasReference = referenceLabel !== null && values.some(v => v.reference !== null);
+
+  return (
+    <svg
+      viewBox={`0 0 ${RADAR_SIZE} ${RADAR_SIZE}`}
+      className="personality-radar"
+      role="img"
+      aria-label={`${label} personality profile. Strongest attributes: ${top
+        .map(v => `${v.label} ${formatMetricValue(v.value, v.key)}`)
+        .join(', ')}`}
+    >
+      {/* Rings */}
+      {ticks
+        .filter(tick => tick > 0)
+        .map(tick => (
+          <g key={tick} className="personality-ring">
+            <circle cx={center} cy={center} r={r(tick)} />
+            <text x={center + 3} y={center - r(tick) - 3}>
+              {tick}%
+            </text>
+          </g>
+        ))}
+
+      {/* Spokes and labels */}
+      {values.map((v, index) => {
+        const [x, y] = point(index, domain[1]);
+        const degrees = (angle(index) * 180) / Math.PI;
+        // Keep labels upright on the left half
+        const flip = degrees > 90 && degrees < 270;
+        const [lx, ly] = [
+          center + Math.cos(angle(index)) * (RADAR_RADIUS + 10),
+          center + Math.sin(angle(index)) * (RADAR_RADIUS + 10),
+        ];
+
+        return (
+          <g key={v.key}>
+            <line className="personality-spoke" x1={center} y1={center} x2={x} y2={y} />
+            <text
+              className={`personality-axis-label ${v.value === null ? 'no-data' : ''}`}
+              x={lx}
+              y={ly}
+              dy="0.32em"
+              textAnchor={flip ? 'end' : 'start'}
+              transform={`rotate(${flip ? degrees - 180 : degrees}, ${lx}, ${ly})`}
+            >
+              {v.label}
+            </text>
+          </g>
+        );
+      })}
+
+      {hasReference && (
+        <polygon
+          className="personality-shape personality-shape--reference"
+          points={polygon(v => v.reference)}
+        />
+      )}
+      <polygon className="personality-shape" points={polygon(v => v.value)} />
+
+      {/* Vertices with tooltips */}
+      {values.map((v, index) => {
+        if (v.value === null) return null;
+        const [x, y] = point(index, v.value);
+        return (
+          <circle key={v.key} className="personality-vertex" cx={x} cy={y} r={3}>
+            <title>
+              {v.label}: {formatMetricValue(v.value, v.key)}
+              {hasReference && ` (${referenceLabel}: ${formatMetricValue(v.reference, v.key)})`}
+            </title>
+          </circle>
+        );
+      })}
+    </svg>
+  );
+};
+
+const BAR_ROW_HEIGHT = 18;
+const BAR_WIDTH = 640;
+const BAR_MARGIN = { top: 8, right: 64, bottom: 8, left: 170 };
+
+const DivergingBars: React.FC<{ values: AttributeValue[]; referenceLabel: string }> = ({
+  values,
+  referenceLabel,
+}) => {
+  const rows = values
+    .filter(v => v.value !== null && v.reference !== null)
+    .map(v => ({ ...v, diff: (v.value as number) - (v.reference as number) }))
+    .sort((a, b) => b.diff - a.diff);
+  const missing = values.length - rows.length;
+
+  if (rows.length === 0) {
+    return <p className="personality-empty">No attributes to compare with {referenceLabel}.</p>;
+  }
+
+  const maxAbs = Math.max(...rows.map(row => Math.abs(row.diff)), 1);
+  const { domain } = niceTicks(-maxAbs, maxAbs, 4);
+  const limit = Math.max(Math.abs(domain[0]), Math.abs(domain[1]));
+  const x = linearScale([-limit, limit], [BAR_MARGIN.left, BAR_WIDTH - BAR_MARGIN.right]);
+  const height = BAR_MARGIN.top + rows.length * BAR_ROW_HEIGHT + BAR_MARGIN.bottom;
+
+  return (
+    <>
+      <svg
+        viewBox={`0 0 ${BAR_WIDTH} ${height}`}
+        className="personality-bars"
+        role="img"
+        aria-label={`Difference from ${referenceLabel}. Most above: ${rows
+          .slice(0, 3)
+          .map(row => `${row.label} ${formatDiff(row.diff, row.key)}`)
+          .join(', ')}. Most below: ${rows
+          .slice(-3)
+          .reverse()
+          .map(row => `${row.label} ${formatDiff(row.diff, row.key)}`)
+          .join(', ')}`}
+      >
+        <line
+          className="personality-bars-zero"
+          x1={x(0)}
+          x2={x(0)}
+          y1={BAR_MARGIN.top}
+          y2={height - BAR_MARGIN.bottom}
+        />
+        {rows.map((row, index) => {
+          const y = BAR_MARGIN.top + index * BAR_ROW_HEIGHT;
+          const barX = Math.min(x(0), x(row.diff));
+          const barEnd = Math.max(x(0), x(row.diff));
+
+          return (
+            <g key={row.key}>
+              <title>
+                {row.label}: {formatMetricValue(row.value, row.key)} vs{' '}
+                {formatMetricValue(row.reference, row.key)} ({referenceLabel})
+              </title>
+              <text
+                className="personality-bars-label"
+                x={BAR_MARGIN.left - 8}
+                y={y + BAR_ROW_HEIGHT / 2}
+                dy="0.32em"
+                textAnchor="end"
+              >
+                {row.label}
+              </text>
+              <rect
+                className={`personality-bar ${getChangeDirection(row.diff, row.key)}`}
+                x={barX}
+                y={y + 3}
+                width={Math.max(barEnd - barX, 1)}
+                height={BAR_ROW_HEIGHT - 6}
+              />
+              <text
+                className="personality-bars-value"
+                x={row.diff >= 0 ? barEnd + 4 : barX - 4}
+                y={y + BAR_ROW_HEIGHT / 2}
+                dy="0.32em"
+                textAnchor={row.diff >= 0 ? 'start' : 'end'}
+              >
+                {formatDiff(row.diff, row.key)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      {missing > 0 && (
+        <p className="personality-note">
+          {missing} attribute{missing !== 1 ? 's' : ''} without data in both not shown.
+        </p>
+      )}
+    </>
+  );
+};
+
+export const PersonalityProfile: React.FC<PersonalityProfileProps> = ({
+  quarters,
+  metricsByQuarter,
+  categoryBenchmarks,
+  brandName,
+}) => {
+  const viewName = useId();
+  const sectionRef = useRef<HTMLElement>(null);
+  const [selectedQuarter, setSelectedQuarter] = useState('');
+  const [overlay, setOverlay] = useState<Overlay>('');
+  const [view, setView] = useState<ProfileView>('radar');
+
+  const quarter = quarters.includes(selectedQuarter)
+    ? selectedQuarter
+    : quarters[quarters.length - 1];
+  const metrics = metricsByQuarter.get(quarter);
+  const categoryBenchmark = categoryBenchmarks.get(quarter) ?? null;
+
+  if (!metrics) {
+    return null;
+  }
+
+  // Diverging bars always need a reference - default to the category average
+  const chosenOverlay = overlay === quarter ? '' : overlay;
+  const activeOverlay =
+    view === 'bars' && !chosenOverlay && categoryBenchmark ? CATEGORY_OVERLAY : chosenOverlay;
+  const overlayMetrics =
+    activeOverlay && activeOverlay !== CATEGORY_OVERLAY
+      ? metricsByQuarter.get(activeOverlay)
+      : undefined;
+  const referenceLabel =
+    activeOverlay === CATEGORY_OVERLAY
+      ? categoryBenchmark
+        ? `${categoryBenchmark.category} average`
+        : null
+      : overlayMetrics
+        ? activeOverlay
+        : null;
+
+  const values: AttributeValue[] = ATTRIBUTES.map(attribute => ({
+    key: attribute.key,
+    label: attribute.label,
+    value: metrics[attribute.key],
+    reference:
+      activeOverlay === CATEGORY_OVERLAY
+        ? categoryBenchmark?.metrics[attribute.key]?.mean ?? null
+        : overlayMetrics?.[attribute.key] ?? null,
+  }));
+
+  return (
+    <section
+      ref={sectionRef}
+      className="personality-profile"
+      aria-labelledby={`${viewName}-title`}
+    >
+      <div className="personality-header">
+        <h4 id={`${viewName}-title`}>Personality Profile</h4>
+        <div className="personality-controls">
+          <label>
+            Quarter
+            <select value={quarter} onChange={e => setSelectedQuarter(e.target.value)}>
+              {quarters.map(q => (
+                <option key={q} value={q}>
+                  {q}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Compare with
+            <select value={activeOverlay} onChange={e => setOverlay(e.target.value)}>
+              <option value="">Nothing</option>
+              {categoryBenchmark && (
+                <option value={CATEGORY_OVERLAY}>{categoryBenchmark.category} average</option>
+              )}
+              {quarters
+                .filter(q => q !== quarter)
+                .map(q => (
+                  <option key={q} value={q}>
+                    {q}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <div className="personality-view" role="radiogroup" aria-label="Profile view">
+            <label className={view === 'radar' ? 'selected' : ''}>
+              <input
+                type="radio"
+                name={viewName}
+                checked={view === 'radar'}
+                onChange={() => setView('radar')}
+              />
+              Radar
+            </label>
+            <label className={view === 'bars' ? 'selected' : ''}>
+              <input
+                type="radio"
+                name={viewName}
+                checked={view === 'bars'}
+                onChange={() => setView('bars')}
+              />
+              Difference
+            </label>
+          </div>
+          <ImageExportMenu
+            description="personality profile"
+            filename={`${brandName ?? 'brand'}-personality-${view}-${quarter}`.toLowerCase()}
+            disabled={view === 'bars' && !referenceLabel}
+            getImage={() =>
+              svgElementToImage(sectionRef.current?.querySelector('svg') ?? null, {
+                title: `${brandName ? `${brandName}: ` : ''}Personality profile, ${quarter}${
+                  view === 'bars' && referenceLabel ? ` vs ${referenceLabel}` : ''
+                }`,
+                legend:
+                  view === 'radar'
+                    ? [
+                        { label: quarter, color: '#0066cc' },
+                        ...(referenceLabel ? [{ label: referenceLabel, color: '#e69f00' }] : []),
+                      ]
+                    : [],
+              })
+            }
+          />
+        </div>
+      </div>
+
+      {view === 'radar' ? (
+        <>
+          <RadarChart values={values} label={quarter} referenceLabel={referenceLabel} />
+          <ul className="personality-legend">
+            <li>
+              <span className="personality-swatch" /> {quarter}
+            </li>
+            {referenceLabel && (
+              <li>
+                <span className="personality-swatch personality-swatch--reference" /> {referenceLabel}
+              </li>
+            )}
+          </ul>
+        </>
+      ) : referenceLabel ? (
+        <DivergingBars values={values} referenceLabel={referenceLabel} />
+      ) : (
+        <p className="personality-empty">Choose a quarter to compare with.</p>
+      )}
+    </section>
+  );
+};
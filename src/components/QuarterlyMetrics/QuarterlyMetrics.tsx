@@ -2,26 +2,77 @@
  * QuarterlyMetrics Component
  * Feature: 004-quarterly-data-association
  *
- * Displays brand perception metrics from quarterly data
+ * Displays brand perception metrics from quarterly data, each with its
+ * category benchmark and percentile, plus a personality profile of the
+ * brand image attributes. All quarters can be exported as CSV, XLSX or JSON
  * Handles loading, error, and empty states (T016-T018)
  */
 
 import React, { useEffect, useState } from 'react';
 import { brandAssociationService } from '../../services/brandAssociationService';
-import type { BrandWithQuarterlyData } from '../../types/quarterlyData';
+import { quarterlyDataLoader } from '../../services/quarterlyDataLoader';
+import type {
+  BrandWithQuarterlyData,
+  CategoryBenchmark,
+  QuarterBenchmarks,
+} from '../../types/quarterlyData';
+import type { ComparisonSelection } from '../../types/routes';
 import { MetricCategory } from './MetricCategory';
+import { PersonalityProfile } from './PersonalityProfile';
 import { QuarterComparison } from '../QuarterComparison';
+import { ExportMenu } from '../ExportMenu';
+import {
+  METRIC_GROUPS,
+  METRIC_KEYS,
+  getMetricUnitSuffix,
+  getMetricsByGroup,
+} from '../../utils/metricRegistry';
+import { brandMetricsDataset } from '../../utils/dataExport';
+import { getCategoryBenchmark } from '../../utils/benchmarks';
 import './QuarterlyMetrics.css';
 
+// Long groups (e.g. the 40 brand image attributes) start collapsed
+const COLLAPSE_GROUPS_ABOVE = 12;
+
 interface QuarterlyMetricsProps {
   brandId: string;
+  /**
+   * Controlled comparison state (e.g., from the URL)
+   * When onComparisonChange is provided, null means the comparison is closed
+   */
+  comparison?: ComparisonSelection | null;
+  onComparisonChange?: (selection: ComparisonSelection | null) => void;
 }
 
-export const QuarterlyMetrics: React.FC<QuarterlyMetricsProps> = ({ brandId }) => {
+export const QuarterlyMetrics: React.FC<QuarterlyMetricsProps> = ({
+  brandId,
+  comparison = null,
+  onComparisonChange,
+}) => {
   const [data, setData] = useState<BrandWithQuarterlyData | null>(null);
+  const [benchmarks, setBenchmarks] = useState<Map<string, QuarterBenchmarks>>(new Map());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [showComparison, setShowComparison] = useState(false);
+  const [localShowComparison, setLocalShowComparison] = useState(false);
+
+  const isControlled = onComparisonChange !== undefined;
+  const showComparison = isControlled ? comparison !== null : localShowComparison;
+
+  const openComparison = () => {
+    if (isControlled) {
+      onComparisonChange({ quarters: [], metrics: [] });
+    } else {
+      setLocalShowComparison(true);
+    }
+  };
+
+  const closeComparison = () => {
+    if (isControlled) {
+      onComparisonChange(null);
+    } else {
+      setLocalShowComparison(false);
+    }
+  };
 
   useEffect(() => {
     let mounted = true;
@@ -33,8 +84,25 @@ export const QuarterlyMetrics: React.FC<QuarterlyMetricsProps> = ({ brandId }) =
 
         const brandData = await brandAssociationService.getBrandWithQuarterlyData(brandId);
 
+        // Benchmarks are optional context - show the metrics without them if missing
+        const quarterBenchmarks = await Promise.all(
+          brandData.availableQuarters.map(quarter =>
+            quarterlyDataLoader.loadQuarterBenchmarks(quarter).catch(err => {
+              console.warn(`[QuarterlyMetrics] No benchmarks for ${quarter}:`, err);
+              return null;
+            })
+          )
+        );
+
         if (mounted) {
           setData(brandData);
+          setBenchmarks(
+            new Map(
+              quarterBenchmarks
+                .filter((b): b is QuarterBenchmarks => b !== null)
+                .map(b => [b.quarter, b])
+            )
+          );
         }
       } catch (err) {
         if (mounted) {
@@ -86,6 +154,20 @@ export const QuarterlyMetrics: React.FC<QuarterlyMetricsProps> = ({ brandId }) =
     );
   }
 
+  // Benchmark of the brand's CSV category in each quarter
+  const categoryBenchmarks = new Map<string, CategoryBenchmark>();
+  for (const quarter of data.availableQuarters) {
+    const surveyCategory = data.surveyCategories.get(quarter);
+    const quarterBenchmarks = benchmarks.get(quarter);
+    const categoryBenchmark =
+      surveyCategory && quarterBenchmarks
+        ? getCategoryBenchmark(quarterBenchmarks, surveyCategory)
+        : null;
+    if (categoryBenchmark) {
+      categoryBenchmarks.set(quarter, categoryBenchmark);
+    }
+  }
+
   // Main content: display metrics for all available quarters
   return (
     <div className="quarterly-metrics">
@@ -97,18 +179,30 @@ export const QuarterlyMetrics: React.FC<QuarterlyMetricsProps> = ({ brandId }) =
         )}
       </p>
 
-      {/* T025: Compare Quarters button (only show if 2+ quarters available) */}
-      {data.availableQuarters.length >= 2 && (
-        <div className="comparison-actions">
+      <div className="comparison-actions">
+        {/* T025: Compare Quarters button (only show if 2+ quarters available) */}
+        {data.availableQuarters.length >= 2 && (
           <button
             className="btn-compare-quarters"
-            onClick={() => setShowComparison(true)}
+            onClick={openComparison}
             aria-label={`Compare ${data.availableQuarters.length} quarters for ${data.brand.name}`}
           >
             Compare Quarters
           </button>
-        </div>
-      )}
+        )}
+        <ExportMenu
+          description={`${data.brand.name} quarterly metrics`}
+          getDataset={() =>
+            brandMetricsDataset(
+              data.brand,
+              data.availableQuarters,
+              data.quarterlyData,
+              METRIC_KEYS,
+              'Quarterly metrics'
+            )
+          }
+        />
+      </div>
 
       {/* T025: Show QuarterComparison overlay when requested */}
       {showComparison && (
@@ -121,90 +215,58 @@ export const QuarterlyMetrics: React.FC<QuarterlyMetricsProps> = ({ brandId }) =
           <QuarterComparison
             brandId={brandId}
             brandName={data.brand.name}
-            onClose={() => setShowComparison(false)}
+            initialQuarters={comparison?.quarters}
+            initialMetrics={comparison?.metrics}
+            onSelectionChange={isControlled ? onComparisonChange : undefined}
+            onClose={closeComparison}
           />
         </div>
       )}
 
+      <PersonalityProfile
+        quarters={data.availableQuarters}
+        metricsByQuarter={data.quarterlyData}
+        categoryBenchmarks={categoryBenchmarks}
+        brandName={data.brand.name}
+      />
+
       {data.availableQuarters.map((quarter) => {
         const metrics = data.quarterlyData.get(quarter);
         if (!metrics) return null;
 
+        const categoryBenchmark = categoryBenchmarks.get(quarter);
+        const percentiles = data.percentiles.get(quarter);
+
         return (
           <div key={quarter} className="quarter-section">
             <h4 className="quarter-title">{quarter}</h4>
+            {categoryBenchmark && (
+              <p className="benchmark-summary">
+                Compared with {categoryBenchmark.brandCount} brands surveyed in{' '}
+                <strong>{categoryBenchmark.category}</strong>
+              </p>
+            )}
+
+            {METRIC_GROUPS.map((group) => {
+              const groupMetrics = getMetricsByGroup(group);
 
-            {/* Awareness & Preference Metrics */}
-            <MetricCategory
-              title="Awareness & Preference"
-              metrics={[
-                { label: 'Total Users', value: metrics.Total_Users_pct },
-                { label: 'Total Prefer', value: metrics.Total_Prefer_pct },
-              ]}
-            />
-
-            {/* Brand Equity Composite Scores */}
-            <MetricCategory
-              title="Brand Equity"
-              metrics={[
-                { label: 'Brand Stature', value: metrics.Brand_Stature_C, unit: '' },
-                { label: 'Brand Strength', value: metrics.Brand_Strength_C, unit: '' },
-                { label: 'Brand Asset', value: metrics.Brand_Asset_C, unit: '' },
-                { label: 'Energized Differentiation', value: metrics.Energized_Differentiation_C, unit: '' },
-                { label: 'Relevance', value: metrics.Relevance_C, unit: '' },
-                { label: 'Esteem', value: metrics.Esteem_C, unit: '' },
-                { label: 'Knowledge', value: metrics.Knowledge_C, unit: '' },
-              ]}
-            />
-
-            {/* Differentiation Attributes */}
-            <MetricCategory
-              title="Differentiation"
-              metrics={[
-                { label: 'Different', value: metrics.Different_pct },
-                { label: 'Distinctive', value: metrics.Distinctive_pct },
-                { label: 'Unique', value: metrics.Unique_pct },
-                { label: 'Dynamic', value: metrics.Dynamic_pct },
-                { label: 'Innovative', value: metrics.Innovative_pct },
-                { label: 'Leader', value: metrics.Leader_pct },
-              ]}
-            />
-
-            {/* Quality & Performance */}
-            <MetricCategory
-              title="Quality & Performance"
-              metrics={[
-                { label: 'Reliable', value: metrics.Reliable_pct },
-                { label: 'High Quality', value: metrics.High_quality_pct },
-                { label: 'High Performance', value: metrics.High_Performance_pct },
-              ]}
-            />
-
-            {/* Personality Attributes (top 10) */}
-            <MetricCategory
-              title="Brand Personality"
-              metrics={[
-                { label: 'Trustworthy', value: metrics.Trustworthy_pct },
-                { label: 'Friendly', value: metrics.Friendly_pct },
-                { label: 'Authentic', value: metrics.Authentic_pct },
-                { label: 'Stylish', value: metrics.Stylish_pct },
-                { label: 'Fun', value: metrics.Fun_pct },
-                { label: 'Progressive', value: metrics.Progressive_pct },
-                { label: 'Visionary', value: metrics.Visionary_pct },
-                { label: 'Up To Date', value: metrics.Up_To_Date_pct },
-              ]}
-            />
-
-            {/* Relationship & Engagement (key metrics) */}
-            <MetricCategory
-              title="Customer Relationship"
-              metrics={[
-                { label: 'Recommend to Friend', value: metrics.Recommend_to_a_friend_pct },
-                { label: 'Feel Loyal', value: metrics.Feel_loyal_pct },
-                { label: 'One of Favorites', value: metrics.One_of_my_favorite_brands_pct },
-                { label: 'Would Miss If Went Away', value: metrics.Would_miss_if_went_away_pct },
-              ]}
-            />
+              return (
+                <MetricCategory
+                  key={group}
+                  title={group}
+                  collapsible={groupMetrics.length > COLLAPSE_GROUPS_ABOVE}
+                  benchmarkCategory={categoryBenchmark?.category}
+                  metrics={groupMetrics.map((metric) => ({
+                    label: metric.label,
+                    value: metrics[metric.key],
+                    unit: getMetricUnitSuffix(metric.key),
+                    description: metric.description,
+                    benchmark: categoryBenchmark?.metrics[metric.key],
+                    percentile: percentiles?.[metric.key],
+                  }))}
+                />
+              );
+            })}
           </div>
         );
       })}
@@ -0,0 +1,171 @@
+/**
+ * SimilarBrands Component
+ * Feature: 004-quarterly-data-association
+ *
+ * "Perceived similarly to" strip: the brands nearest to a brand in one
+ * quarter's perception data, with the shared traits behind each match.
+ * Defaults to the latest quarter the brand has data for.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { Brand } from '../../types/brand';
+import type { BrandSimilarity } from '../../types/quarterlyData';
+import { brandAssociationService } from '../../services/brandAssociationService';
+import { similarityService } from '../../services/similarityService';
+import { formatMetricValue, getMetricLabel } from '../../utils/metricRegistry';
+import './SimilarBrands.css';
+
+interface SimilarBrandsProps {
+  brandId: string;
+  onBrandClick: (brand: Brand) => void;
+  /** Neighbours shown (default: 5) */
+  limit?: number;
+}
+
+export const SimilarBrands: React.FC<SimilarBrandsProps> = ({
+  brandId,
+  onBrandClick,
+  limit = 5,
+}) => {
+  const [quarters, setQuarters] = useState<string[]>([]);
+  const [selectedQuarter, setSelectedQuarter] = useState('');
+  const [similarity, setSimilarity] = useState<BrandSimilarity | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to the latest quarter with data for the brand
+  const quarter = quarters.includes(selectedQuarter)
+    ? selectedQuarter
+    : quarters[quarters.length - 1] || '';
+
+  useEffect(() => {
+    let mounted = true;
+
+    setQuarters([]);
+    setSimilarity(null);
+    setLoading(true);
+    setError(null);
+
+    brandAssociationService
+      .getAvailableQuartersForBrand(brandId)
+      .then(available => {
+        if (!mounted) return;
+        setQuarters(available);
+        if (available.length === 0) setLoading(false);
+      })
+      .catch(err => {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load quarters');
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [brandId]);
+
+  useEffect(() => {
+    if (!quarter) return;
+
+    let mounted = true;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await similarityService.getSimilarBrands(brandId, quarter, { k: limit });
+
+        if (mounted) {
+          setSimilarity(result);
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load similar brands');
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadData();
+
+    return () => {
+      mounted = false;
+    };
+  }, [brandId, quarter, limit]);
+
+  // Nothing to compare: hide the strip rather than show an empty section
+  if (!loading && !error && (quarters.length === 0 || similarity?.neighbors.length === 0)) {
+    return null;
+  }
+
+  return (
+    <section className="similar-brands" aria-labelledby="similar-brands-title">
+      <div className="similar-brands-header">
+        <h3 id="similar-brands-title">Perceived similarly to</h3>
+        {quarters.length > 1 && (
+          <label>
+            <span className="visually-hidden">Quarter</span>
+            <select value={quarter} onChange={e => setSelectedQuarter(e.target.value)}>
+              {quarters.map(q => (
+                <option key={q} value={q}>
+                  {q}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {quarters.length === 1 && <span className="similar-brands-quarter">{quarter}</span>}
+      </div>
+
+      {error ? (
+        <p className="similar-brands-message similar-brands-message--error" role="alert">
+          {error}
+        </p>
+      ) : loading || !similarity ? (
+        <p className="similar-brands-message" role="status">
+          Finding similar brands...
+        </p>
+      ) : (
+        <ul className="similar-brands-list">
+          {similarity.neighbors.map(neighbor => {
+            const drivers = neighbor.drivers
+              .map(
+                driver =>
+                  `${getMetricLabel(driver.metric)}: ${formatMetricValue(driver.value, driver.metric)} vs ${formatMetricValue(driver.neighborValue, driver.metric)}`
+              )
+              .join('\n');
+
+            return (
+              <li key={neighbor.brand.id}>
+                <button
+                  type="button"
+                  className="similar-brands-item"
+                  onClick={() => onBrandClick(neighbor.brand)}
+                  title={`Distance ${neighbor.distance.toFixed(2)} over ${neighbor.sharedMetrics} metrics${drivers ? `\n${drivers}` : ''}`}
+                >
+                  <img
+                    src={`/${neighbor.brand.logoPath}`}
+                    alt=""
+                    className="similar-brands-logo"
+                    loading="lazy"
+                  />
+                  <span className="similar-brands-name">{neighbor.brand.name}</span>
+                  {neighbor.drivers.length > 0 && (
+                    <span className="similar-brands-drivers">
+                      {neighbor.drivers.map(driver => getMetricLabel(driver.metric)).join(' · ')}
+                    </span>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1 @@
+export { SimilarBrands } from './SimilarBrands';
@@ -0,0 +1,51 @@
+/**
+ * useRoute Hook
+ *
+ * Keeps an AppRoute in sync with window.location via the History API.
+ * vercel.json rewrites every path to index.html, so any route URL can be
+ * opened directly.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { AppRoute } from '../types/routes';
+import { buildRouteUrl, parseRoute } from '../utils/routes';
+
+interface NavigateOptions {
+  /** Replace the current history entry instead of pushing a new one */
+  replace?: boolean;
+}
+
+export function useRoute(): [AppRoute, (route: AppRoute, options?: NavigateOptions) => void] {
+  const [route, setRoute] = useState<AppRoute>(() =>
+    parseRoute(window.location.pathname, window.location.search)
+  );
+
+  // Back/forward navigation
+  useEffect(() => {
+    const handlePopState = () => {
+      setRoute(parseRoute(window.location.pathname, window.location.search));
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, []);
+
+  const navigate = useCallback((nextRoute: AppRoute, options: NavigateOptions = {}) => {
+    const url = buildRouteUrl(nextRoute);
+    const currentUrl = `${window.location.pathname}${window.location.search}`;
+
+    if (url !== currentUrl) {
+      if (options.replace) {
+        window.history.replaceState(null, '', url);
+      } else {
+        window.history.pushState(null, '', url);
+      }
+    }
+
+    setRoute(nextRoute);
+  }, []);
+
+  return [route, navigate];
+}
@@ -0,0 +1,158 @@
+/**
+ * useVirtualGrid Hook
+ *
+ * Windowed rendering for a responsive grid that scrolls with the page.
+ * Only rows intersecting the viewport (plus an overscan margin) are
+ * rendered; rows are positioned absolutely inside a spacer sized to the
+ * full grid so the scrollbar reflects the whole list.
+ *
+ * Row height is measured from the rendered rows, so it follows the card
+ * size at every breakpoint without being hard-coded.
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useState } from 'react';
+
+/**
+ * Column sizing for a viewport width (mirrors the grid's CSS breakpoints)
+ */
+export interface GridTrackSizing {
+  minColumnWidth: number;
+  gap: number;
+}
+
+interface UseVirtualGridOptions {
+  itemCount: number;
+  getTrackSizing: (viewportWidth: number) => GridTrackSizing;
+  /** Height used until the first row is measured */
+  estimatedRowHeight: number;
+  /** Extra rows rendered above and below the viewport */
+  overscanRows?: number;
+  /** Item index whose row must stay mounted (e.g. the focused card) */
+  pinnedIndex?: number;
+}
+
+export interface VirtualGridRow {
+  index: number;
+  top: number;
+  startItem: number;
+  endItem: number;
+}
+
+export interface VirtualGrid<T extends HTMLElement> {
+  /** Callback ref for the element that spans the full grid height */
+  containerRef: (element: T | null) => void;
+  columns: number;
+  gap: number;
+  /** Distance between the tops of consecutive rows */
+  rowStride: number;
+  totalHeight: number;
+  rows: VirtualGridRow[];
+}
+
+export function useVirtualGrid<T extends HTMLElement>({
+  itemCount,
+  getTrackSizing,
+  estimatedRowHeight,
+  overscanRows = 2,
+  pinnedIndex,
+}: UseVirtualGridOptions): VirtualGrid<T> {
+  // Callback ref: the grid may mount after the hook (e.g. once loading finishes)
+  const [element, containerRef] = useState<T | null>(null);
+  const [width, setWidth] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(() => window.innerWidth);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  const { minColumnWidth, gap } = getTrackSizing(viewportWidth);
+  const columns = width > 0 ? Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap))) : 1;
+  const rowCount = Math.ceil(itemCount / columns);
+  const rowStride = rowHeight + gap;
+  const totalHeight = rowCount > 0 ? rowCount * rowStride - gap : 0;
+
+  // Track the grid's content width
+  useLayoutEffect(() => {
+    if (!element) return;
+
+    setWidth(element.clientWidth);
+
+    const observer = new ResizeObserver((entries) => {
+      setWidth(entries[0].contentRect.width);
+      setViewportWidth(window.innerWidth);
+    });
+    observer.observe(element);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [element]);
+
+  // Work out which rows intersect the viewport
+  const updateRange = useCallback(() => {
+    if (!element) return;
+
+    const top = element.getBoundingClientRect().top;
+    const visibleStart = Math.max(0, -top);
+    const visibleEnd = Math.max(0, window.innerHeight - top);
+
+    const start = Math.max(0, Math.floor(visibleStart / rowStride) - overscanRows);
+    const end = Math.min(rowCount, Math.ceil(visibleEnd / rowStride) + overscanRows);
+
+    setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [element, rowStride, rowCount, overscanRows]);
+
+  useLayoutEffect(() => {
+    updateRange();
+  }, [updateRange]);
+
+  useEffect(() => {
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateRange);
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleScroll);
+    };
+  }, [updateRange]);
+
+  // Measure the tallest rendered row whenever the rendered rows or their width change
+  useLayoutEffect(() => {
+    if (!element) return;
+
+    let tallest = 0;
+    for (const row of Array.from(element.children)) {
+      tallest = Math.max(tallest, (row as HTMLElement).offsetHeight);
+    }
+
+    if (tallest > 0 && Math.abs(tallest - rowHeight) > 1) {
+      setRowHeight(tallest);
+    }
+  }, [element, range, width, columns, itemCount, pinnedIndex, rowHeight]);
+
+  const rowIndexes: number[] = [];
+  for (let i = range.start; i < Math.min(range.end, rowCount); i++) {
+    rowIndexes.push(i);
+  }
+
+  if (pinnedIndex !== undefined && pinnedIndex >= 0 && pinnedIndex < itemCount) {
+    const pinnedRow = Math.floor(pinnedIndex / columns);
+    if (!rowIndexes.includes(pinnedRow)) {
+      rowIndexes.push(pinnedRow);
+      rowIndexes.sort((a, b) => a - b);
+    }
+  }
+
+  const rows = rowIndexes.map((index) => ({
+    index,
+    top: index * rowStride,
+    startItem: index * columns,
+    endItem: Math.min(itemCount, (index + 1) * columns),
+  }));
+
+  return { containerRef, columns, gap, rowStride, totalHeight, rows };
+}
@@ -4,7 +4,7 @@
  * Brand Logos Dataset Import CLI
  *
  * Command-line tool for importing brand logo datasets from CSV files.
- * Usage: npm run import-brands <csv-path> <logos-dir> [output-dir]
+ * Usage: npm run import-brands <csv-path> <logos-dir> [output-dir] [--merge [--mark-removed]]
  */
 
 import { Command } from 'commander';
@@ -13,7 +13,9 @@ import type { ImportInput } from '../types/importer';
 import { DEFAULT_OUTPUT_DIR, BRANDS_JSON_FILENAME, LOGOS_SUBDIR } from '../types/importer';
 import { validatePath, resolvePath } from '../utils/fileSystem';
 import { importBrands } from '../services/importers/brandImporter';
+import { describeSupportedFormats } from '../services/importers/fileValidator';
 import { writeBrandsJSON, copyLogoFiles, generateReport, writeReportJSON } from '../services/importers/reportGenerator';
+import { mergeBrands, readBrandsJSON, type BrandMergeResult } from '../services/importers/brandMerger';
 
 /**
  * Main CLI entry point
@@ -29,16 +31,28 @@ async function main() {
     .argument('[output-dir]', 'Optional output directory (default: public/data/brands/)', DEFAULT_OUTPUT_DIR)
     .option('-v, --verbose', 'Enable detailed logging', false)
     .option('-d, --dry-run', 'Validate data without writing files', false)
+    .option('-m, --merge', 'Upsert into the existing brands.json instead of replacing it', false)
+    .option('--mark-removed', 'With --merge: flag existing brands missing from the CSV as removed', false)
     .version('1.0.0')
-    .action(async (csvPath: string, logosDir: string, outputDir: string = DEFAULT_OUTPUT_DIR, options?: { verbose?: boolean; dryRun?: boolean }) => {
+    .action(async (csvPath: string, logosDir: string, outputDir: string = DEFAULT_OUTPUT_DIR, options?: { verbose?: boolean; dryRun?: boolean; merge?: boolean; markRemoved?: boolean }) => {
       const verbose = options?.verbose || false;
       const dryRun = options?.dryRun || false;
+      const merge = options?.merge || false;
+      const markRemoved = options?.markRemoved || false;
       try {
+        if (markRemoved && !merge) {
+          console.error('\n❌ Error: --mark-removed requires --merge');
+          process.exit(1);
+        }
+
         console.log('='.repeat(60));
         console.log('  Brand Logos Dataset Import');
         if (dryRun) {
           console.log('  [DRY RUN MODE - No files will be written]');
         }
+        if (merge) {
+          console.log(`  [MERGE MODE - Upserting into existing brands.json${markRemoved ? ', marking missing brands removed' : ''}]`);
+        }
         if (verbose) {
           console.log('  [VERBOSE MODE - Detailed logging enabled]');
         }
@@ -66,7 +80,9 @@ async function main() {
         const input: ImportInput = {
           csvPath: path.resolve(csvPath),
           logosDir: path.resolve(logosDir),
-          outputDir: path.resolve(outputDir)
+          outputDir: path.resolve(outputDir),
+          merge,
+          markRemoved
         };
 
         console.log(`\nInput CSV: ${input.csvPath}`);
@@ -95,15 +111,27 @@ async function main() {
         const brandsJsonPath = resolvePath(outputDirectory, BRANDS_JSON_FILENAME);
         const logosDestDir = resolvePath(outputDirectory, LOGOS_SUBDIR);
 
+        // Merge mode: upsert into the existing brands.json
+        let mergeResult: BrandMergeResult | null = null;
+        if (merge) {
+          const existingBrands = await readBrandsJSON(brandsJsonPath);
+          const importedBrands = results
+            .filter(r => r.status === 'success' && r.brand)
+            .map(r => ({ brand: r.brand!, suppliedFields: r.suppliedFields ?? [] }));
+          mergeResult = mergeBrands(existingBrands, importedBrands, { markRemoved });
+          console.log(`\nMerging into ${existingBrands.length} existing brands`);
+        }
+        const outputBrands = mergeResult ? mergeResult.brands : successfulBrands;
+
         if (dryRun) {
           console.log('\n3. Skipping file writes (dry run mode)...');
           console.log('Would write:');
-          console.log(`  - ${successfulBrands.length} brands to ${brandsJsonPath}`);
+          console.log(`  - ${outputBrands.length} brands to ${brandsJsonPath}`);
           console.log(`  - ${successfulBrands.length} logos to ${logosDestDir}`);
           console.log(`  - Import report to ${resolvePath(outputDirectory, 'import-report.json')}`);
         } else {
           console.log('\n3. Writing output files...');
-          await writeBrandsJSON(successfulBrands, brandsJsonPath);
+          await writeBrandsJSON(outputBrands, brandsJsonPath);
 
           // Step 6: Copy logo files
           await copyLogoFiles(results, input.logosDir, logosDestDir);
@@ -113,7 +141,8 @@ async function main() {
             input,
             results,
             processingTimeMs,
-            { brandsJson: brandsJsonPath, logosDir: logosDestDir }
+            { brandsJson: brandsJsonPath, logosDir: logosDestDir },
+            mergeResult?.summary
           );
           await writeReportJSON(report, outputDirectory);
         }
@@ -124,6 +153,28 @@ async function main() {
         console.log('='.repeat(60));
         console.log(`\n✓ Successfully imported ${successfulBrands.length} brands`);
 
+        // Imported logos by file type
+        const fileTypeCounts = new Map<string, number>();
+        results.forEach(r => {
+          if (r.status === 'success' && r.fileType) {
+            fileTypeCounts.set(r.fileType, (fileTypeCounts.get(r.fileType) || 0) + 1);
+          }
+        });
+        if (fileTypeCounts.size > 0) {
+          console.log(`  Formats: ${Array.from(fileTypeCounts, ([type, count]) => `${count} ${type.toUpperCase()}`).join(', ')}`);
+        }
+
+        if (mergeResult) {
+          const { added, updated, unchanged, removed, retained } = mergeResult.summary;
+          console.log(`\nMerge: ${added} added, ${updated} updated, ${unchanged} unchanged, ${removed} removed`);
+          if (retained > 0 && !markRemoved) {
+            console.log(`  ${retained} existing brands not in this CSV were kept (use --mark-removed to flag them)`);
+          }
+          if (added > 0) {
+            console.log('  New brands have inferred categories; run npm run recategorize-brands to apply overrides and survey categories');
+          }
+        }
+
         if (failedResults.length > 0) {
           console.log(`✗ Failed to import ${failedResults.length} entries`);
 
@@ -140,7 +191,7 @@ async function main() {
 
             // Add helpful descriptions for common errors
             if (code === 'file_type_error') {
-              description += ' (unsupported formats: EPS, AI, PDF)';
+              description += ' (unsupported formats or invalid SVG)';
             } else if (code === 'file_not_found') {
               description += ' (logo files missing from directory)';
             }
@@ -172,8 +223,8 @@ async function main() {
           // Special note for unsupported file types
           const fileTypeErrors = failedResults.filter(r => r.error?.code === 'file_type_error').length;
           if (fileTypeErrors > 0) {
-            console.log(`\nℹ Note: ${fileTypeErrors} file(s) were skipped due to unsupported formats.`);
-            console.log('  Supported formats: PNG, JPEG, GIF');
+            console.log(`\nℹ Note: ${fileTypeErrors} file(s) were skipped due to unsupported formats or invalid SVG markup.`);
+            console.log(`  Supported formats: ${describeSupportedFormats()}`);
             console.log('  Unsupported formats: EPS, AI, PDF, and others');
           }
         }
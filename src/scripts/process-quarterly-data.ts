@@ -6,9 +6,15 @@
  *
  * Processes quarterly brand perception CSV files:
  * 1. Scans for CSV files in /public/test-data/
- * 2. Parses each CSV and matches brands to brands.json
+ * 2. Parses each CSV and matches brands to brands.json (aliases from
+ *    brand-aliases.json first, then exact name; see review-brand-matches)
  * 3. Generates JSON files in /public/assets/data/quarterly/
  * 4. Creates index.json with list of available quarters
+ * 5. Emits per-brand time series in /public/assets/data/quarterly/brands/
+ *    plus a brand → quarters availability manifest with per-brand coverage
+ *    statistics (brands/index.json)
+ * 6. Emits per-quarter category benchmarks in /public/assets/data/quarterly/benchmarks/
+ *    and stores each record's percentile within its CSV category
  *
  * Usage: npm run process-quarterly-data
  */
@@ -16,14 +22,34 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { parseQuarterlyCSV, csvRowToMetrics, extractQuarter, QuarterlyCSVRow } from '../utils/csvParser';
-import { findBrandByName } from '../utils/brandMatcher';
+import {
+  BRAND_ALIASES_PATH,
+  createCSVBrandMatcher,
+  findStaleAliases,
+  loadBrandAliasFile,
+  type CSVBrandMatch,
+} from '../utils/brandAliases';
+import { createCoverageEntry } from '../utils/coverage';
+import { createCategoryBenchmark, surveyCategoryKey } from '../utils/benchmarks';
 import type { Brand } from '../types/brand';
-import type { QuarterlyData, QuarterlyDataRecord, QuarterIndex } from '../types/quarterlyData';
+import type {
+  QuarterlyData,
+  QuarterlyDataRecord,
+  QuarterIndex,
+  BrandQuarterlySeries,
+  BrandAvailabilityManifest,
+  BrandMetrics,
+  MetricPercentiles,
+  QuarterBenchmarks,
+} from '../types/quarterlyData';
 
 // Configuration
 const CSV_SOURCE_DIR = path.resolve(process.cwd(), 'public/test-data');
 const OUTPUT_DIR = path.resolve(process.cwd(), 'public/assets/data/quarterly');
+const BRAND_SERIES_DIR = path.join(OUTPUT_DIR, 'brands');
+const BENCHMARKS_DIR = path.join(OUTPUT_DIR, 'benchmarks');
 const BRANDS_JSON_PATH = path.resolve(process.cwd(), 'public/data/brands/brands.json');
+const ALIASES_PATH = path.resolve(process.cwd(), BRAND_ALIASES_PATH);
 
 // T042: Validation configuration
 const REQUIRED_CSV_COLUMNS = [
@@ -188,6 +214,15 @@ async function main() {
     const { brands } = JSON.parse(brandsData) as { brands: Brand[] };
     console.log(`✓ Loaded ${brands.length} brands from brands.json`);
 
+    const aliasFile = await loadBrandAliasFile(ALIASES_PATH);
+    console.log(`✓ Loaded ${aliasFile.aliases.length} brand aliases`);
+    const staleAliases = findStaleAliases(aliasFile, brands);
+    if (staleAliases.length > 0) {
+      console.warn(`⚠️  ${staleAliases.length} aliases point to brands missing from brands.json (ignored):`);
+      staleAliases.slice(0, 5).forEach(alias => console.warn(`   - ${alias.csvBrandName} → ${alias.brandId}`));
+    }
+    const matchCSVBrand = createCSVBrandMatcher(brands, aliasFile);
+
     // Step 2: Scan for CSV files
     console.log('\n2. Scanning for CSV files...');
     const csvFiles = await findCSVFiles(CSV_SOURCE_DIR);
@@ -241,10 +276,18 @@ async function main() {
           }
         }
 
+        // Category benchmarks from every surveyed brand, matched or not
+        const { benchmarks, getPercentiles } = createQuarterBenchmarks(quarter, rows);
+        console.log(`   - Benchmarked ${Object.keys(benchmarks.categories).length} categories`);
+
         // Match brands and create records
-        const { records, unmatchedBrands } = await processCSVRows(rows, brands);
+        const { records, unmatchedBrands, aliasMatches } = await processCSVRows(
+          rows,
+          matchCSVBrand,
+          getPercentiles
+        );
 
-        console.log(`   - Matched ${records.length} brands`);
+        console.log(`   - Matched ${records.length} brands (${aliasMatches} via aliases)`);
         if (unmatchedBrands.length > 0) {
           console.log(`   ⚠️  ${unmatchedBrands.length} unmatched brands:`);
           unmatchedBrands.slice(0, 5).forEach(name => console.log(`      - ${name}`));
@@ -271,6 +314,12 @@ async function main() {
         await fs.writeFile(outputPath, JSON.stringify(quarterlyData, null, 2), 'utf-8');
         console.log(`   ✓ Written ${outputPath}`);
 
+        // Write quarter benchmarks
+        await fs.mkdir(BENCHMARKS_DIR, { recursive: true });
+        const benchmarksPath = path.join(BENCHMARKS_DIR, `${quarter}.json`);
+        await fs.writeFile(benchmarksPath, JSON.stringify(benchmarks, null, 2), 'utf-8');
+        console.log(`   ✓ Written ${benchmarksPath}`);
+
       } catch (error) {
         console.error(`   ❌ Error processing ${filename}:`, error);
         // Continue with other files
@@ -284,13 +333,30 @@ async function main() {
     await fs.writeFile(indexPath, JSON.stringify(index, null, 2), 'utf-8');
     console.log(`✓ Written ${indexPath}`);
 
-    // Step 5: Summary
+    // Step 5: Generate per-brand time series and availability manifest
+    console.log('\n5. Generating per-brand time series...');
+    const brandSeries = createBrandSeries(quarterlyDataList, index.quarters);
+    await fs.mkdir(BRAND_SERIES_DIR, { recursive: true });
+
+    for (const series of brandSeries) {
+      const seriesPath = path.join(BRAND_SERIES_DIR, `${series.brandId}.json`);
+      await fs.writeFile(seriesPath, JSON.stringify(series, null, 2), 'utf-8');
+    }
+    console.log(`✓ Written ${brandSeries.length} brand files to ${BRAND_SERIES_DIR}`);
+
+    const manifest = createBrandAvailabilityManifest(brandSeries, index.quarters);
+    const manifestPath = path.join(BRAND_SERIES_DIR, 'index.json');
+    await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+    console.log(`✓ Written ${manifestPath}`);
+
+    // Step 7: Summary
     console.log('\n' + '='.repeat(60));
     console.log('  Processing Complete');
     console.log('='.repeat(60));
     console.log(`\n✓ Processed ${quarterlyDataList.length} quarterly CSV files`);
     console.log(`✓ Generated ${quarterlyDataList.length} JSON files in ${OUTPUT_DIR}`);
     console.log(`✓ Total quarters available: ${index.quarters.length}`);
+    console.log(`✓ Brands with quarterly data: ${manifest.totalBrands}`);
 
     const totalMatched = quarterlyDataList.reduce((sum, q) => sum + q.matchedBrands, 0);
     const totalRecords = quarterlyDataList.reduce((sum, q) => sum + q.recordCount, 0);
@@ -298,6 +364,9 @@ async function main() {
     console.log(`   - Total CSV rows: ${totalRecords}`);
     console.log(`   - Total matched brands: ${totalMatched}`);
     console.log(`   - Match rate: ${((totalMatched / totalRecords) * 100).toFixed(1)}%`);
+    if (totalMatched < totalRecords) {
+      console.log('\n   Review unmatched brands with: npm run review-brand-matches');
+    }
 
   } catch (error) {
     console.error('\n❌ Fatal error:', error);
@@ -320,15 +389,81 @@ async function findCSVFiles(dir: string): Promise<string[]> {
   }
 }
 
+/**
+ * Compute category benchmarks for one quarter
+ * Rows without a brand name are skipped; a CSV brand id listed twice counts once
+ */
+function createQuarterBenchmarks(
+  quarter: string,
+  rows: QuarterlyCSVRow[]
+): {
+  benchmarks: QuarterBenchmarks;
+  getPercentiles: (category: string, metrics: BrandMetrics) => MetricPercentiles;
+} {
+  const metricsByCategory = new Map<
+    string,
+    { spellings: Map<string, number>; metrics: BrandMetrics[] }
+  >();
+  const seenIds = new Set<string>();
+
+  for (const row of rows) {
+    const csvBrandName = row['Brand name'];
+    const csvBrandId = row['Brand id'];
+    const csvCategory = row.Category;
+
+    if (!csvBrandName || csvBrandName.trim() === '' || !csvCategory || csvCategory.trim() === '') {
+      continue;
+    }
+    if (csvBrandId) {
+      if (seenIds.has(csvBrandId)) continue;
+      seenIds.add(csvBrandId);
+    }
+
+    const key = surveyCategoryKey(csvCategory);
+    let entry = metricsByCategory.get(key);
+    if (!entry) {
+      entry = { spellings: new Map(), metrics: [] };
+      metricsByCategory.set(key, entry);
+    }
+    const spelling = csvCategory.trim();
+    entry.spellings.set(spelling, (entry.spellings.get(spelling) ?? 0) + 1);
+    entry.metrics.push(csvRowToMetrics(row));
+  }
+
+  const benchmarks: QuarterBenchmarks = {
+    quarter,
+    processedAt: new Date().toISOString(),
+    categories: {},
+  };
+  const percentileFns = new Map<string, (metrics: BrandMetrics) => MetricPercentiles>();
+
+  for (const key of Array.from(metricsByCategory.keys()).sort()) {
+    const { spellings, metrics } = metricsByCategory.get(key)!;
+    // Label with the most common spelling of the category
+    const label = Array.from(spellings).sort((a, b) => b[1] - a[1])[0][0];
+    const { benchmark, getPercentiles } = createCategoryBenchmark(label, metrics);
+    benchmarks.categories[key] = benchmark;
+    percentileFns.set(key, getPercentiles);
+  }
+
+  return {
+    benchmarks,
+    getPercentiles: (category, metrics) =>
+      percentileFns.get(surveyCategoryKey(category))?.(metrics) ?? {},
+  };
+}
+
 /**
  * Process CSV rows and match to brands
  */
 async function processCSVRows(
   rows: QuarterlyCSVRow[],
-  brands: Brand[]
-): Promise<{ records: QuarterlyDataRecord[]; unmatchedBrands: string[] }> {
+  matchCSVBrand: (csvBrandName: string, csvBrandId?: string) => CSVBrandMatch | undefined,
+  getPercentiles: (category: string, metrics: BrandMetrics) => MetricPercentiles
+): Promise<{ records: QuarterlyDataRecord[]; unmatchedBrands: string[]; aliasMatches: number }> {
   const records: QuarterlyDataRecord[] = [];
   const unmatchedBrands: string[] = [];
+  let aliasMatches = 0;
 
   for (const row of rows) {
     const csvBrandName = row['Brand name'];
@@ -340,17 +475,22 @@ async function processCSVRows(
       continue;
     }
 
-    // Try to match brand by name (case-insensitive)
-    const matchedBrand = findBrandByName(csvBrandName, brands);
+    // Alias by CSV id, alias by name, then exact name (case-insensitive)
+    const match = matchCSVBrand(csvBrandName, csvBrandId);
+
+    if (match) {
+      const matchedBrand = match.brand;
+      if (match.source !== 'exact') aliasMatches++;
 
-    if (matchedBrand) {
       // Create QuarterlyDataRecord
+      const metrics = csvRowToMetrics(row);
       const record: QuarterlyDataRecord = {
         brandId: matchedBrand.id,
         brandName: matchedBrand.name,
         csvBrandId,
         category: csvCategory,
-        metrics: csvRowToMetrics(row),
+        metrics,
+        percentiles: getPercentiles(csvCategory, metrics),
       };
       records.push(record);
     } else {
@@ -361,7 +501,7 @@ async function processCSVRows(
     }
   }
 
-  return { records, unmatchedBrands };
+  return { records, unmatchedBrands, aliasMatches };
 }
 
 /**
@@ -390,6 +530,76 @@ function createQuarterIndex(
   };
 }
 
+/**
+ * Pivot quarterly data into one time series per brand
+ * Only quarters listed in the index are included (skips UNKNOWN);
+ * if a brand matches several rows in one quarter, the first wins
+ */
+function createBrandSeries(
+  quarterlyDataList: QuarterlyData[],
+  indexedQuarters: string[]
+): BrandQuarterlySeries[] {
+  const processedAt = new Date().toISOString();
+  const seriesByBrand = new Map<string, BrandQuarterlySeries>();
+
+  const sortedData = quarterlyDataList
+    .filter(q => indexedQuarters.includes(q.quarter))
+    .sort((a, b) => a.quarter.localeCompare(b.quarter));
+
+  for (const quarterData of sortedData) {
+    for (const record of quarterData.records) {
+      let series = seriesByBrand.get(record.brandId);
+      if (!series) {
+        series = {
+          brandId: record.brandId,
+          brandName: record.brandName,
+          processedAt,
+          quarters: [],
+          records: [],
+        };
+        seriesByBrand.set(record.brandId, series);
+      }
+
+      if (series.quarters.includes(quarterData.quarter)) {
+        continue;
+      }
+
+      series.quarters.push(quarterData.quarter);
+      series.records.push({
+        quarter: quarterData.quarter,
+        csvBrandId: record.csvBrandId,
+        category: record.category,
+        metrics: record.metrics,
+        percentiles: record.percentiles,
+      });
+    }
+  }
+
+  return Array.from(seriesByBrand.values()).sort((a, b) => a.brandId.localeCompare(b.brandId));
+}
+
+/**
+ * Create brand → quarters availability manifest from per-brand series, with
+ * coverage statistics so the client can filter without quarter payloads
+ */
+function createBrandAvailabilityManifest(
+  brandSeries: BrandQuarterlySeries[],
+  quarters: string[]
+): BrandAvailabilityManifest {
+  const brands: BrandAvailabilityManifest['brands'] = {};
+  brandSeries.forEach(series => {
+    brands[series.brandId] = createCoverageEntry(series.quarters, quarters.length);
+  });
+
+  return {
+    brands,
+    quarters,
+    totalQuarters: quarters.length,
+    lastUpdated: new Date().toISOString(),
+    totalBrands: brandSeries.length,
+  };
+}
+
 // Run main function
 main().catch(error => {
   console.error('Unhandled error:', error);
@@ -0,0 +1,241 @@
+#!/usr/bin/env node
+
+/**
+ * Brand Re-categorization CLI
+ *
+ * Re-resolves the category of every brand in brands.json:
+ * manual override > survey CSV category > keyword inference.
+ * Survey categories come from the processed quarterly data (latest quarter
+ * per brand), so run process-quarterly-data first.
+ * Prints a diff and writes recategorize-report.json to data/brands/ (not deployed).
+ *
+ * Usage: npm run recategorize-brands -- [--dry-run] [--verbose]
+ */
+
+import { Command } from 'commander';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  Brand,
+  BrandCategory,
+  CategoryChange,
+  CategorySource,
+  RecategorizeReport,
+} from '../types/brand';
+import type { BrandAvailabilityManifest, BrandQuarterlySeries } from '../types/quarterlyData';
+import { getAllCategories } from '../utils/categoryInference';
+import {
+  CATEGORY_OVERRIDES_PATH,
+  loadCategoryOverrides,
+  mapSurveyCategory,
+  resolveBrandCategory,
+} from '../utils/categoryResolution';
+import { fileExists } from '../utils/fileSystem';
+import { writeBrandsJSON } from '../services/importers/reportGenerator';
+
+// Configuration
+const BRANDS_JSON_PATH = 'public/data/brands/brands.json';
+const BRAND_SERIES_DIR = path.resolve(process.cwd(), 'public/assets/data/quarterly/brands');
+const REPORT_PATH = 'data/brands/recategorize-report.json';
+
+interface RecategorizeOptions {
+  brands: string;
+  overrides: string;
+  dryRun?: boolean;
+  verbose?: boolean;
+}
+
+/**
+ * Latest survey CSV category for every brand with quarterly data
+ */
+async function loadSurveyCategories(): Promise<Map<string, string>> {
+  const categories = new Map<string, string>();
+  const manifestPath = path.join(BRAND_SERIES_DIR, 'index.json');
+
+  if (!(await fileExists(manifestPath))) {
+    console.warn(`⚠️  ${manifestPath} not found; run npm run process-quarterly-data for survey categories`);
+    return categories;
+  }
+
+  const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as BrandAvailabilityManifest;
+
+  for (const brandId of Object.keys(manifest.brands)) {
+    const seriesPath = path.join(BRAND_SERIES_DIR, `${brandId}.json`);
+    const series = JSON.parse(await fs.readFile(seriesPath, 'utf-8')) as BrandQuarterlySeries;
+    // Records are in quarter order; the most recent non-empty category wins
+    const latest = [...series.records].reverse().find(record => record.category?.trim());
+    if (latest) {
+      categories.set(brandId, latest.category.trim());
+    }
+  }
+
+  return categories;
+}
+
+function countByCategory(brands: Brand[]): Record<BrandCategory, number> {
+  const counts = Object.fromEntries(getAllCategories().map(category => [category, 0])) as Record<
+    BrandCategory,
+    number
+  >;
+  brands.forEach(brand => {
+    counts[brand.category] = (counts[brand.category] ?? 0) + 1;
+  });
+  return counts;
+}
+
+/**
+ * Main re-categorization flow
+ */
+async function recategorize(options: RecategorizeOptions) {
+  const brandsJsonPath = path.resolve(options.brands);
+  const overridesPath = path.resolve(options.overrides);
+
+  console.log('='.repeat(60));
+  console.log('  Brand Re-categorization');
+  if (options.dryRun) {
+    console.log('  [DRY RUN MODE - No files will be written]');
+  }
+  console.log('='.repeat(60));
+
+  // Step 1: Load inputs
+  console.log('\n1. Loading brands, overrides and survey categories...');
+  const { brands } = JSON.parse(await fs.readFile(brandsJsonPath, 'utf-8')) as { brands: Brand[] };
+  const { overrides } = await loadCategoryOverrides(overridesPath);
+  const surveyCategories = await loadSurveyCategories();
+  console.log(`✓ ${brands.length} brands, ${Object.keys(overrides).length} overrides, ${surveyCategories.size} brands with survey data`);
+
+  // Step 2: Resolve every brand
+  console.log('\n2. Resolving categories...');
+  const bySource: Record<CategorySource, number> = { override: 0, survey: 0, inferred: 0 };
+  const changes: CategoryChange[] = [];
+  const unmapped = new Set<string>();
+
+  const updated = brands.map(brand => {
+    const surveyCategory = surveyCategories.get(brand.id);
+    if (surveyCategory && !mapSurveyCategory(surveyCategory)) {
+      unmapped.add(surveyCategory);
+    }
+
+    const resolution = resolveBrandCategory(brand.name, {
+      override: overrides[brand.id],
+      surveyCategory,
+    });
+    bySource[resolution.source]++;
+
+    if (resolution.category === brand.category) {
+      return brand;
+    }
+
+    changes.push({
+      brandId: brand.id,
+      brandName: brand.name,
+      from: brand.category,
+      to: resolution.category,
+      source: resolution.source,
+      surveyCategory: resolution.surveyCategory,
+    });
+    return { ...brand, category: resolution.category };
+  });
+
+  const brandIds = new Set(brands.map(brand => brand.id));
+  const unknownOverrides = Object.keys(overrides).filter(brandId => !brandIds.has(brandId));
+
+  const before = countByCategory(brands);
+  const after = countByCategory(updated);
+  const report: RecategorizeReport = {
+    timestamp: new Date().toISOString(),
+    brandsJson: path.relative(process.cwd(), brandsJsonPath),
+    dryRun: options.dryRun ?? false,
+    totalBrands: brands.length,
+    changedBrands: changes.length,
+    bySource,
+    byCategory: Object.fromEntries(
+      getAllCategories().map(category => [category, { before: before[category], after: after[category] }])
+    ) as RecategorizeReport['byCategory'],
+    changes,
+    unmappedSurveyCategories: Array.from(unmapped).sort(),
+    unknownOverrides,
+  };
+
+  // Step 3: Write output files (skip if dry run)
+  const reportPath = path.resolve(REPORT_PATH);
+  if (options.dryRun) {
+    console.log('\n3. Skipping file writes (dry run mode)...');
+  } else {
+    console.log('\n3. Writing output files...');
+    if (changes.length > 0) {
+      await writeBrandsJSON(updated, brandsJsonPath);
+    }
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+    console.log(`✓ Report written to: ${reportPath}`);
+  }
+
+  // Step 4: Display diff
+  console.log('\n' + '='.repeat(60));
+  console.log('  Category Changes');
+  console.log('='.repeat(60));
+  console.log(`\nSources: ${bySource.override} override, ${bySource.survey} survey, ${bySource.inferred} inferred`);
+  console.log(`${changes.length} of ${brands.length} brands change category\n`);
+
+  console.log('  Category                 Before  After');
+  getAllCategories().forEach(category => {
+    const delta = after[category] - before[category];
+    const deltaLabel = delta === 0 ? '' : ` (${delta > 0 ? '+' : ''}${delta})`;
+    console.log(`  ${category.padEnd(24)} ${String(before[category]).padStart(6)} ${String(after[category]).padStart(6)}${deltaLabel}`);
+  });
+
+  const shownChanges = options.verbose ? changes : changes.slice(0, 20);
+  if (shownChanges.length > 0) {
+    console.log('\nChanges:');
+    shownChanges.forEach(change => {
+      const via = change.surveyCategory ? `survey: ${change.surveyCategory}` : change.source;
+      console.log(`  ${change.brandName}: ${change.from} → ${change.to} (${via})`);
+    });
+    if (changes.length > shownChanges.length) {
+      console.log(`  ... and ${changes.length - shownChanges.length} more changes`);
+      console.log('  (use --verbose to see all changes)');
+    }
+  }
+
+  if (report.unmappedSurveyCategories.length > 0) {
+    console.log(`\n⚠ Unmapped survey categories (brands fell back to inference):`);
+    report.unmappedSurveyCategories.forEach(category => console.log(`  - ${category}`));
+  }
+  if (unknownOverrides.length > 0) {
+    console.log(`\n⚠ Overrides for unknown brand ids: ${unknownOverrides.join(', ')}`);
+  }
+
+  console.log(options.dryRun ? '\n✓ Dry run complete!\n' : '\n✓ Re-categorization complete!\n');
+}
+
+/**
+ * Main CLI entry point
+ */
+async function main() {
+  const program = new Command();
+
+  program
+    .name('recategorize-brands')
+    .description('Re-resolve brand categories in brands.json and report the differences')
+    .option('--brands <path>', 'Path to brands.json', BRANDS_JSON_PATH)
+    .option('--overrides <path>', 'Path to category overrides file', CATEGORY_OVERRIDES_PATH)
+    .option('-d, --dry-run', 'Show the diff without writing files', false)
+    .option('-v, --verbose', 'List every change', false)
+    .action(async (options: RecategorizeOptions) => {
+      try {
+        await recategorize(options);
+        process.exit(0);
+      } catch (error) {
+        console.error(`\n❌ Fatal error: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  program.parse();
+}
+
+// Run CLI
+main().catch(error => {
+  console.error('Unhandled error:', error);
+  process.exit(1);
+});
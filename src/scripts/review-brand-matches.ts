@@ -0,0 +1,266 @@
+#!/usr/bin/env node
+
+/**
+ * Brand Match Review CLI
+ * Feature: 004-quarterly-data-association
+ *
+ * Lists survey CSV brands that process-quarterly-data could not match,
+ * proposes fuzzy brands.json candidates with scores, and writes accepted
+ * suggestions to brand-aliases.json so re-runs match deterministically.
+ * Brands marked "no match" are remembered and not proposed again.
+ *
+ * Usage: npm run review-brand-matches -- [--min-score 0.6] [--accept-above 0.95] [--list]
+ */
+
+import { Command } from 'commander';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline/promises';
+import { parseQuarterlyCSV, extractQuarter } from '../utils/csvParser';
+import { createBrandCandidateFinder, type BrandMatchCandidate } from '../utils/brandMatcher';
+import {
+  BRAND_ALIASES_PATH,
+  createCSVBrandMatcher,
+  ignoreCSVBrand,
+  isIgnoredCSVBrand,
+  loadBrandAliasFile,
+  setBrandAlias,
+  writeBrandAliasFile,
+} from '../utils/brandAliases';
+import type { Brand } from '../types/brand';
+import type { BrandAliasFile } from '../types/quarterlyData';
+
+// Configuration
+const CSV_SOURCE_DIR = path.resolve(process.cwd(), 'public/test-data');
+const BRANDS_JSON_PATH = path.resolve(process.cwd(), 'public/data/brands/brands.json');
+const ALIASES_PATH = path.resolve(process.cwd(), BRAND_ALIASES_PATH);
+
+interface ReviewOptions {
+  minScore: string;
+  limit: string;
+  acceptAbove?: string;
+  list?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * A CSV brand with no match, across every quarter it appears in
+ */
+interface UnmatchedCSVBrand {
+  csvBrandName: string;
+  csvBrandId?: string;
+  quarters: string[];
+}
+
+/**
+ * Collect unmatched, unreviewed CSV brands from every quarterly CSV
+ * Brands are keyed by CSV "Brand id" (falling back to name), most quarters first
+ */
+async function collectUnmatchedBrands(
+  brands: Brand[],
+  aliasFile: BrandAliasFile
+): Promise<UnmatchedCSVBrand[]> {
+  const matchCSVBrand = createCSVBrandMatcher(brands, aliasFile);
+  const unmatched = new Map<string, UnmatchedCSVBrand>();
+
+  const entries = await fs.readdir(CSV_SOURCE_DIR, { withFileTypes: true });
+  const csvFiles = entries
+    .filter(entry => entry.isFile() && entry.name.endsWith('.csv'))
+    .map(entry => entry.name)
+    .sort();
+
+  for (const filename of csvFiles) {
+    const quarter = extractQuarter(filename);
+    const rows = await parseQuarterlyCSV(path.join(CSV_SOURCE_DIR, filename));
+
+    for (const row of rows) {
+      const csvBrandName = row['Brand name']?.trim();
+      const csvBrandId = row['Brand id']?.trim() || undefined;
+
+      if (!csvBrandName) continue;
+      if (matchCSVBrand(csvBrandName, csvBrandId)) continue;
+      if (isIgnoredCSVBrand(aliasFile, csvBrandName, csvBrandId)) continue;
+
+      const key = csvBrandId ? `id:${csvBrandId}` : `name:${csvBrandName.toLowerCase()}`;
+      let entry = unmatched.get(key);
+      if (!entry) {
+        entry = { csvBrandName, csvBrandId, quarters: [] };
+        unmatched.set(key, entry);
+      }
+      if (!entry.quarters.includes(quarter)) {
+        entry.quarters.push(quarter);
+      }
+    }
+  }
+
+  return Array.from(unmatched.values()).sort(
+    (a, b) => b.quarters.length - a.quarters.length || a.csvBrandName.localeCompare(b.csvBrandName)
+  );
+}
+
+/**
+ * Whether the top candidate is a safe automatic accept
+ * It must reach the threshold and be the only candidate that does
+ */
+function isConfidentMatch(candidates: BrandMatchCandidate<Brand>[], threshold: number): boolean {
+  return (
+    candidates.length > 0 &&
+    candidates[0].score >= threshold &&
+    (candidates.length === 1 || candidates[1].score < threshold)
+  );
+}
+
+function formatCandidate(candidate: BrandMatchCandidate<Brand>, index: number): string {
+  const { brand, score } = candidate;
+  return `      ${index + 1}) ${brand.name} [${brand.id}] ${brand.category} · score ${score.toFixed(2)}`;
+}
+
+function parseScore(value: string, option: string): number {
+  const score = Number(value);
+  if (!Number.isFinite(score) || score < 0 || score > 1) {
+    throw new Error(`${option} must be a number between 0 and 1 (got "${value}")`);
+  }
+  return score;
+}
+
+/**
+ * Main review flow
+ */
+async function review(options: ReviewOptions) {
+  const minScore = parseScore(options.minScore, '--min-score');
+  const acceptAbove =
+    options.acceptAbove !== undefined ? parseScore(options.acceptAbove, '--accept-above') : null;
+  const limit = Math.max(1, parseInt(options.limit, 10) || 3);
+  const interactive = !options.list && process.stdin.isTTY === true;
+
+  console.log('='.repeat(60));
+  console.log('  Brand Match Review');
+  if (options.dryRun) {
+    console.log('  [DRY RUN MODE - Alias file will not be written]');
+  }
+  console.log('='.repeat(60));
+
+  const brandsData = await fs.readFile(BRANDS_JSON_PATH, 'utf-8');
+  const { brands } = JSON.parse(brandsData) as { brands: Brand[] };
+  let aliasFile = await loadBrandAliasFile(ALIASES_PATH);
+  console.log(`\n✓ Loaded ${brands.length} brands and ${aliasFile.aliases.length} aliases`);
+
+  const unmatched = await collectUnmatchedBrands(brands, aliasFile);
+  console.log(`✓ ${unmatched.length} unmatched CSV brands to review`);
+
+  const findCandidates = createBrandCandidateFinder(brands);
+  const readline = interactive
+    ? createInterface({ input: process.stdin, output: process.stdout })
+    : null;
+  if (interactive) {
+    console.log('\n  [number] accept · n = no match (remember) · s = skip · q = save and quit');
+  }
+
+  let accepted = 0;
+  let autoAccepted = 0;
+  let ignored = 0;
+  let withoutCandidates = 0;
+
+  try {
+    for (const entry of unmatched) {
+      const candidates = findCandidates(entry.csvBrandName, { limit, minScore });
+      if (candidates.length === 0) {
+        withoutCandidates++;
+        continue;
+      }
+
+      const idLabel = entry.csvBrandId ? ` (CSV id ${entry.csvBrandId})` : '';
+      const accept = (candidate: BrandMatchCandidate<Brand>) => {
+        aliasFile = setBrandAlias(aliasFile, {
+          csvBrandName: entry.csvBrandName,
+          csvBrandId: entry.csvBrandId,
+          brandId: candidate.brand.id,
+          score: candidate.score,
+        });
+      };
+
+      if (acceptAbove !== null && isConfidentMatch(candidates, acceptAbove)) {
+        accept(candidates[0]);
+        autoAccepted++;
+        console.log(`\n✓ ${entry.csvBrandName}${idLabel} → ${candidates[0].brand.name} (auto, ${candidates[0].score.toFixed(2)})`);
+        continue;
+      }
+
+      console.log(`\n   ${entry.csvBrandName}${idLabel} · in ${entry.quarters.length} quarters`);
+      candidates.forEach((candidate, index) => console.log(formatCandidate(candidate, index)));
+
+      if (!readline) continue;
+
+      const answer = (await readline.question('   > ')).trim().toLowerCase();
+      if (answer === 'q') {
+        break;
+      } else if (answer === 'n') {
+        aliasFile = ignoreCSVBrand(aliasFile, {
+          csvBrandName: entry.csvBrandName,
+          csvBrandId: entry.csvBrandId,
+        });
+        ignored++;
+      } else {
+        const choice = parseInt(answer, 10);
+        if (choice >= 1 && choice <= candidates.length) {
+          accept(candidates[choice - 1]);
+          accepted++;
+        }
+      }
+    }
+  } finally {
+    readline?.close();
+  }
+
+  const changed = accepted + autoAccepted + ignored > 0;
+  if (changed && !options.dryRun) {
+    await writeBrandAliasFile(aliasFile, ALIASES_PATH);
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log('  Review Summary');
+  console.log('='.repeat(60));
+  console.log(`\n✓ Accepted ${accepted} suggestions (${autoAccepted} more automatically)`);
+  console.log(`✓ Marked ${ignored} brands as having no match`);
+  console.log(`  ${withoutCandidates} brands had no candidate scoring ${minScore} or more`);
+  if (changed) {
+    console.log(
+      options.dryRun
+        ? `\nWould write ${aliasFile.aliases.length} aliases to ${ALIASES_PATH}`
+        : `\n✓ Written ${ALIASES_PATH}\n  Re-run npm run process-quarterly-data to apply the aliases`
+    );
+  }
+}
+
+/**
+ * Main CLI entry point
+ */
+async function main() {
+  const program = new Command();
+
+  program
+    .name('review-brand-matches')
+    .description('Review fuzzy matches for unmatched quarterly CSV brands and save them as aliases')
+    .option('--min-score <score>', 'Lowest candidate score to propose (0-1)', '0.6')
+    .option('--limit <count>', 'Candidates shown per brand', '3')
+    .option('--accept-above <score>', 'Accept a sole candidate at or above this score without asking')
+    .option('-l, --list', 'Only list suggestions (no prompts)', false)
+    .option('-d, --dry-run', 'Do not write the alias file', false)
+    .action(async (options: ReviewOptions) => {
+      try {
+        await review(options);
+        process.exit(0);
+      } catch (error) {
+        console.error(`\n❌ Fatal error: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  program.parse();
+}
+
+// Run CLI
+main().catch(error => {
+  console.error('Unhandled error:', error);
+  process.exit(1);
+});
@@ -7,9 +7,17 @@
  */
 
 import type { Brand } from '../types/brand';
-import type { BrandWithQuarterlyData, BrandMetrics, BrandDataCoverage } from '../types/quarterlyData';
+import type {
+  BrandWithQuarterlyData,
+  BrandMetrics,
+  BrandDataCoverage,
+  BrandComparisonData,
+  BrandQuarterRecord,
+  MetricPercentiles,
+} from '../types/quarterlyData';
 import { quarterlyDataLoader } from './quarterlyDataLoader';
 import { loadBrands } from './brandLoader';
+import { brandAvailabilityIndex } from './brandAvailabilityIndex';
 
 // Error class
 export class BrandNotFoundError extends Error {
@@ -19,6 +27,25 @@ export class BrandNotFoundError extends Error {
   }
 }
 
+/**
+ * Number of brands a brand-vs-brand comparison accepts
+ */
+export const MIN_COMPARISON_BRANDS = 2;
+export const MAX_COMPARISON_BRANDS = 6;
+
+export class InvalidBrandSelectionError extends Error {
+  constructor(count: number) {
+    super(
+      `Select between ${MIN_COMPARISON_BRANDS} and ${MAX_COMPARISON_BRANDS} brands to compare (got ${count})`
+    );
+    this.name = 'InvalidBrandSelectionError';
+  }
+}
+
+function toMetricsByQuarter(records: Map<string, BrandQuarterRecord>): Map<string, BrandMetrics> {
+  return new Map(Array.from(records, ([quarter, record]) => [quarter, record.metrics]));
+}
+
 /**
  * Brand Association Service Implementation
  */
@@ -50,37 +77,142 @@ class BrandAssociationService {
   }
 
   /**
-   * Get a brand with all its associated quarterly data
+   * Look up a brand's quarters in the availability manifest
+   * Returns null when the manifest is unavailable or doesn't cover every requested quarter
    */
-  async getBrandWithQuarterlyData(
+  private async getBrandQuartersFromManifest(
     brandId: string,
-    quarters?: string[]
-  ): Promise<BrandWithQuarterlyData> {
-    // Get brand info
-    const brand = await this.findBrandById(brandId);
+    quarters: string[]
+  ): Promise<string[] | null> {
+    try {
+      const manifest = await quarterlyDataLoader.loadBrandAvailability();
 
-    // Get quarters to load (specific or all available)
-    const quartersToLoad = quarters || await quarterlyDataLoader.getAvailableQuarters();
+      // Stale manifest (built before some quarters were processed) - caller must fall back
+      if (!quarters.every(q => manifest.quarters.includes(q))) {
+        return null;
+      }
 
-    // Load quarterly data for all quarters
-    const quarterlyDataMap = await quarterlyDataLoader.loadQuarters(quartersToLoad);
+      const brandQuarters = manifest.brands[brandId]?.quarters || [];
+      return brandQuarters.filter(q => quarters.includes(q)).sort();
+    } catch (error) {
+      console.warn('[brandAssociationService] Brand availability manifest unavailable:', error);
+      return null;
+    }
+  }
 
-    // Find records for this brand across all quarters
-    const brandQuarterlyData = new Map<string, BrandMetrics>();
-    const availableQuarters: string[] = [];
+  /**
+   * Find a brand's records by scanning full quarter files (fallback path)
+   */
+  private async loadRecordsFromQuarters(
+    brandId: string,
+    quarters: string[]
+  ): Promise<Map<string, BrandQuarterRecord>> {
+    const quarterlyDataMap = await quarterlyDataLoader.loadQuarters(quarters);
+    const recordsByQuarter = new Map<string, BrandQuarterRecord>();
 
     for (const [quarter, quarterData] of quarterlyDataMap.entries()) {
       // Find record matching this brand ID
       const record = quarterData.records.find(r => r.brandId === brandId);
 
       if (record) {
-        brandQuarterlyData.set(quarter, record.metrics);
-        availableQuarters.push(quarter);
+        recordsByQuarter.set(quarter, {
+          quarter,
+          csvBrandId: record.csvBrandId,
+          category: record.category,
+          metrics: record.metrics,
+          percentiles: record.percentiles,
+        });
       }
     }
 
+    return recordsByQuarter;
+  }
+
+  /**
+   * Load a brand's records for the given quarters
+   * Prefers the per-brand time series shard and falls back to full quarter files
+   */
+  private async loadRecordsForBrand(
+    brandId: string,
+    quarters: string[]
+  ): Promise<Map<string, BrandQuarterRecord>> {
+    const normalizedQuarters = quarters.map(q => q.toUpperCase());
+    const brandQuarters = await this.getBrandQuartersFromManifest(brandId, normalizedQuarters);
+
+    if (brandQuarters === null) {
+      return this.loadRecordsFromQuarters(brandId, normalizedQuarters);
+    }
+
+    const recordsByQuarter = new Map<string, BrandQuarterRecord>();
+
+    // Manifest says the brand has no data in these quarters - nothing to download
+    if (brandQuarters.length === 0) {
+      return recordsByQuarter;
+    }
+
+    try {
+      const series = await quarterlyDataLoader.loadBrandSeries(brandId);
+
+      for (const record of series.records) {
+        if (brandQuarters.includes(record.quarter)) {
+          recordsByQuarter.set(record.quarter, record);
+        }
+      }
+
+      return recordsByQuarter;
+    } catch (error) {
+      console.warn(`[brandAssociationService] Falling back to full quarters for ${brandId}:`, error);
+      return this.loadRecordsFromQuarters(brandId, brandQuarters);
+    }
+  }
+
+  /**
+   * Find a brand's metrics by scanning full quarter files (fallback path)
+   */
+  private async loadMetricsFromQuarters(
+    brandId: string,
+    quarters: string[]
+  ): Promise<Map<string, BrandMetrics>> {
+    return toMetricsByQuarter(await this.loadRecordsFromQuarters(brandId, quarters));
+  }
+
+  /**
+   * Load a brand's metrics for the given quarters
+   */
+  private async loadMetricsForBrand(
+    brandId: string,
+    quarters: string[]
+  ): Promise<Map<string, BrandMetrics>> {
+    return toMetricsByQuarter(await this.loadRecordsForBrand(brandId, quarters));
+  }
+
+  /**
+   * Get a brand with all its associated quarterly data
+   */
+  async getBrandWithQuarterlyData(
+    brandId: string,
+    quarters?: string[]
+  ): Promise<BrandWithQuarterlyData> {
+    // Get brand info
+    const brand = await this.findBrandById(brandId);
+
+    // Get quarters to load (specific or all available)
+    const quartersToLoad = quarters || await quarterlyDataLoader.getAvailableQuarters();
+
+    // Load this brand's records (shard first, full quarters as fallback)
+    const records = await this.loadRecordsForBrand(brandId, quartersToLoad);
+
     // Sort quarters chronologically
-    availableQuarters.sort();
+    const availableQuarters = Array.from(records.keys()).sort();
+
+    const surveyCategories = new Map<string, string>();
+    const percentiles = new Map<string, MetricPercentiles>();
+    for (const [quarter, record] of records) {
+      surveyCategories.set(quarter, record.category);
+      if (record.percentiles) {
+        percentiles.set(quarter, record.percentiles);
+      }
+    }
 
     // Determine latest quarter
     const latestQuarter = availableQuarters.length > 0
@@ -89,9 +221,11 @@ class BrandAssociationService {
 
     return {
       brand,
-      quarterlyData: brandQuarterlyData,
+      quarterlyData: toMetricsByQuarter(records),
       availableQuarters,
       latestQuarter,
+      surveyCategories,
+      percentiles,
     };
   }
 
@@ -105,13 +239,9 @@ class BrandAssociationService {
     // Verify brand exists
     await this.findBrandById(brandId);
 
-    // Load quarter data
-    const quarterData = await quarterlyDataLoader.loadQuarter(quarter);
-
-    // Find record for this brand
-    const record = quarterData.records.find(r => r.brandId === brandId);
+    const metricsByQuarter = await this.loadMetricsForBrand(brandId, [quarter]);
 
-    return record ? record.metrics : null;
+    return metricsByQuarter.get(quarter.toUpperCase()) || null;
   }
 
   /**
@@ -121,21 +251,16 @@ class BrandAssociationService {
     // Verify brand exists
     await this.findBrandById(brandId);
 
-    // Load all quarters
     const allQuarters = await quarterlyDataLoader.getAvailableQuarters();
-    const quarterDataMap = await quarterlyDataLoader.loadQuarters(allQuarters);
 
-    // Find quarters with this brand
-    const availableQuarters: string[] = [];
-
-    for (const [quarter, quarterData] of quarterDataMap.entries()) {
-      const hasData = quarterData.records.some(r => r.brandId === brandId);
-      if (hasData) {
-        availableQuarters.push(quarter);
-      }
+    // Answer from the manifest when possible - no quarter payloads needed
+    const brandQuarters = await this.getBrandQuartersFromManifest(brandId, allQuarters);
+    if (brandQuarters !== null) {
+      return brandQuarters;
     }
 
-    return availableQuarters.sort();
+    const metricsByQuarter = await this.loadMetricsFromQuarters(brandId, allQuarters);
+    return Array.from(metricsByQuarter.keys()).sort();
   }
 
   /**
@@ -167,21 +292,44 @@ class BrandAssociationService {
     // Verify brand exists
     await this.findBrandById(brandId);
 
-    // Load all requested quarters
-    const quarterDataMap = await quarterlyDataLoader.loadQuarters(quarters);
-
     // Build comparison map (only includes quarters with data)
-    const comparison = new Map<string, BrandMetrics>();
+    return this.loadMetricsForBrand(brandId, quarters);
+  }
 
-    for (const [quarter, quarterData] of quarterDataMap.entries()) {
-      const record = quarterData.records.find(r => r.brandId === brandId);
+  /**
+   * Compare several brands side by side
+   * Quarters default to every available quarter; the result only lists
+   * quarters where at least one of the brands has data
+   */
+  async compareBrands(brandIds: string[], quarters?: string[]): Promise<BrandComparisonData> {
+    const uniqueIds = Array.from(new Set(brandIds));
 
-      if (record) {
-        comparison.set(quarter, record.metrics);
-      }
+    if (uniqueIds.length < MIN_COMPARISON_BRANDS || uniqueIds.length > MAX_COMPARISON_BRANDS) {
+      throw new InvalidBrandSelectionError(uniqueIds.length);
     }
 
-    return comparison;
+    // Verify every brand exists before loading anything
+    const brands = await Promise.all(uniqueIds.map(id => this.findBrandById(id)));
+
+    const quartersToLoad = quarters || await quarterlyDataLoader.getAvailableQuarters();
+
+    const brandMetrics = await Promise.all(
+      uniqueIds.map(id => this.loadMetricsForBrand(id, quartersToLoad))
+    );
+
+    const metricsByBrand = new Map<string, Map<string, BrandMetrics>>();
+    const quartersWithData = new Set<string>();
+
+    uniqueIds.forEach((id, index) => {
+      metricsByBrand.set(id, brandMetrics[index]);
+      brandMetrics[index].forEach((_, quarter) => quartersWithData.add(quarter));
+    });
+
+    return {
+      brands,
+      quarters: Array.from(quartersWithData).sort(),
+      metricsByBrand,
+    };
   }
 
   /**
@@ -191,34 +339,9 @@ class BrandAssociationService {
     // Verify brand exists
     await this.findBrandById(brandId);
 
-    // Get all available quarters in system
-    const allQuarters = await quarterlyDataLoader.getAvailableQuarters();
-    const totalQuarters = allQuarters.length;
-
-    // Get quarters with data for this brand
-    const availableQuarters = await this.getAvailableQuartersForBrand(brandId);
-    const quartersWithData = availableQuarters.length;
-
-    // Calculate coverage percentage
-    const coveragePercent = totalQuarters > 0
-      ? (quartersWithData / totalQuarters) * 100
-      : 0;
-
-    // Determine earliest and latest quarters
-    const earliestQuarter = availableQuarters.length > 0 ? availableQuarters[0] : null;
-    const latestQuarter = availableQuarters.length > 0
-      ? availableQuarters[availableQuarters.length - 1]
-      : null;
-
-    return {
-      brandId,
-      totalQuarters,
-      quartersWithData,
-      availableQuarters,
-      coveragePercent,
-      earliestQuarter,
-      latestQuarter,
-    };
+    // O(1) lookup in the precomputed coverage index
+    await brandAvailabilityIndex.load();
+    return brandAvailabilityIndex.getCoverage(brandId);
   }
 
   /**
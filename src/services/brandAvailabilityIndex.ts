@@ -0,0 +1,162 @@
+/**
+ * Brand Availability Index
+ * Feature: 004-quarterly-data-association
+ *
+ * Synchronous in-memory index of which quarters each brand has data for.
+ * Built once from brands/index.json so grid filters and coverage lookups are O(1)
+ * and never download quarter payloads.
+ */
+
+import type { BrandAvailabilityManifest, BrandCoverageEntry, BrandDataCoverage } from '../types/quarterlyData';
+import { createCoverageEntry } from '../utils/coverage';
+import { quarterlyDataLoader } from './quarterlyDataLoader';
+
+/**
+ * Brand Availability Index Implementation
+ */
+class BrandAvailabilityIndex {
+  private entries: Map<string, BrandCoverageEntry> = new Map();
+  private quarterSets: Map<string, Set<string>> = new Map();
+  private quarters: string[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private ready = false;
+
+  /**
+   * Load the index (once); concurrent callers share the same request
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.build().catch((error) => {
+        // Allow a retry on the next call
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Whether the index has been loaded and lookups are meaningful
+   */
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Build from brands/index.json, falling back to scanning full quarter files
+   */
+  private async build(): Promise<void> {
+    let manifest: BrandAvailabilityManifest;
+
+    try {
+      manifest = await quarterlyDataLoader.loadBrandAvailability();
+    } catch (error) {
+      console.warn('[brandAvailabilityIndex] brands/index.json unavailable, scanning quarter files:', error);
+      manifest = await this.buildFromQuarters();
+    }
+
+    this.entries = new Map(Object.entries(manifest.brands));
+    this.quarterSets = new Map(
+      Object.entries(manifest.brands).map(([brandId, entry]) => [brandId, new Set(entry.quarters)])
+    );
+    this.quarters = [...manifest.quarters].sort();
+    this.ready = true;
+  }
+
+  /**
+   * Fallback: derive coverage from every quarter file
+   */
+  private async buildFromQuarters(): Promise<BrandAvailabilityManifest> {
+    const quarters = await quarterlyDataLoader.getAvailableQuarters();
+    const quarterDataMap = await quarterlyDataLoader.loadQuarters(quarters);
+
+    const quartersByBrand = new Map<string, Set<string>>();
+    for (const [quarter, quarterData] of quarterDataMap.entries()) {
+      for (const record of quarterData.records) {
+        if (!quartersByBrand.has(record.brandId)) {
+          quartersByBrand.set(record.brandId, new Set());
+        }
+        quartersByBrand.get(record.brandId)!.add(quarter);
+      }
+    }
+
+    const brands: BrandAvailabilityManifest['brands'] = {};
+    quartersByBrand.forEach((brandQuarters, brandId) => {
+      brands[brandId] = createCoverageEntry(Array.from(brandQuarters), quarters.length);
+    });
+
+    return {
+      brands,
+      quarters,
+      totalQuarters: quarters.length,
+      lastUpdated: new Date().toISOString(),
+      totalBrands: quartersByBrand.size,
+    };
+  }
+
+  /**
+   * All quarters known to the index (sorted)
+   */
+  getAllQuarters(): string[] {
+    return this.quarters;
+  }
+
+  /**
+   * Sorted quarters where a brand has data (empty if none)
+   */
+  getQuarters(brandId: string): string[] {
+    return this.entries.get(brandId)?.quarters || [];
+  }
+
+  /**
+   * Number of quarters where a brand has data
+   */
+  getQuarterCount(brandId: string): number {
+    return this.quarterSets.get(brandId)?.size || 0;
+  }
+
+  /**
+   * Whether a brand has at least one quarter of data
+   */
+  hasData(brandId: string): boolean {
+    return this.getQuarterCount(brandId) > 0;
+  }
+
+  /**
+   * Whether a brand has data in a specific quarter
+   */
+  hasDataInQuarter(brandId: string, quarter: string): boolean {
+    return this.quarterSets.get(brandId)?.has(quarter.toUpperCase()) || false;
+  }
+
+  /**
+   * Coverage statistics for a brand
+   */
+  getCoverage(brandId: string): BrandDataCoverage {
+    const entry = this.entries.get(brandId) || createCoverageEntry([], this.quarters.length);
+
+    return {
+      brandId,
+      totalQuarters: this.quarters.length,
+      quartersWithData: entry.quarters.length,
+      availableQuarters: entry.quarters,
+      coveragePercent: entry.coveragePercent,
+      earliestQuarter: entry.firstQuarter,
+      latestQuarter: entry.lastQuarter,
+    };
+  }
+
+  /**
+   * Clear the index (useful for testing)
+   */
+  clear(): void {
+    this.entries.clear();
+    this.quarterSets.clear();
+    this.quarters = [];
+    this.loadPromise = null;
+    this.ready = false;
+  }
+}
+
+// Export singleton instance
+export const brandAvailabilityIndex = new BrandAvailabilityIndex();
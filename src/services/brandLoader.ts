@@ -7,13 +7,39 @@ export async function loadBrands(): Promise<Brand[]> {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
     const data = await response.json();
-    return data.brands as Brand[];
+    // Brands a merge import marked as removed stay in the file for history only
+    return (data.brands as Brand[]).filter((brand) => !brand.removedAt);
   } catch (error) {
     console.error('Failed to load brands:', error);
     throw new Error('Failed to load brand data. Please try again later.');
   }
 }
 
+let brandsByIdCache: Promise<Map<string, Brand>> | null = null;
+
+/**
+ * Brands keyed by id, loaded once and shared by the quarterly data services
+ * A failed load is not cached, so the next call retries
+ */
+export function getBrandsById(): Promise<Map<string, Brand>> {
+  if (!brandsByIdCache) {
+    brandsByIdCache = loadBrands()
+      .then((brands) => new Map(brands.map((brand) => [brand.id, brand])))
+      .catch((error) => {
+        brandsByIdCache = null;
+        throw error;
+      });
+  }
+  return brandsByIdCache;
+}
+
+/**
+ * Clear the getBrandsById cache (useful for testing)
+ */
+export function clearBrandsByIdCache(): void {
+  brandsByIdCache = null;
+}
+
 export function validateBrand(brand: unknown): Brand {
   if (typeof brand !== 'object' || brand === null) {
     throw new Error('Brand must be an object');
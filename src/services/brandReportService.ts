@@ -0,0 +1,73 @@
+/**
+ * Brand Report Service
+ * Feature: 004-quarterly-data-association
+ *
+ * Gathers what a one-page brand summary shows: coverage, the headline
+ * metrics in the latest quarter with their change and category percentile,
+ * and the full per-quarter series for trend charts.
+ */
+
+import type { BrandReport, KeyMetricSummary, MetricKey } from '../types/quarterlyData';
+import { brandAssociationService } from './brandAssociationService';
+import { KEY_METRICS } from '../utils/metricRegistry';
+
+/**
+ * Brand Report Service Implementation
+ */
+class BrandReportService {
+  /**
+   * Get the report for a brand
+   * Throws BrandNotFoundError for unknown brands; brands without quarterly
+   * data get a report with empty metrics
+   *
+   * @example
+   * const report = await brandReportService.getBrandReport('nike-1g1h1');
+   * report.keyMetrics[0] // { metric: 'Brand_Asset_C', value: 9.1, change: 0.2, ... }
+   */
+  async getBrandReport(
+    brandId: string,
+    metrics: MetricKey[] = KEY_METRICS
+  ): Promise<BrandReport> {
+    const [data, coverage] = await Promise.all([
+      brandAssociationService.getBrandWithQuarterlyData(brandId),
+      brandAssociationService.getBrandDataCoverage(brandId),
+    ]);
+
+    const quarters = data.availableQuarters;
+    const latestQuarter = quarters[quarters.length - 1] ?? null;
+    const previousQuarter = quarters.length > 1 ? quarters[quarters.length - 2] : null;
+    const latest = latestQuarter ? data.quarterlyData.get(latestQuarter) : undefined;
+    const previous = previousQuarter ? data.quarterlyData.get(previousQuarter) : undefined;
+    const percentiles = latestQuarter ? data.percentiles.get(latestQuarter) : undefined;
+
+    const keyMetrics: KeyMetricSummary[] = metrics.map(metric => {
+      const value = latest?.[metric] ?? null;
+      const previousValue = previous?.[metric] ?? null;
+
+      return {
+        metric,
+        value,
+        previousValue,
+        change:
+          value !== null && previousValue !== null
+            ? Math.round((value - previousValue) * 100) / 100
+            : null,
+        percentile: percentiles?.[metric] ?? null,
+      };
+    });
+
+    return {
+      brand: data.brand,
+      coverage,
+      quarters,
+      metricsByQuarter: data.quarterlyData,
+      latestQuarter,
+      previousQuarter,
+      surveyCategory: latestQuarter ? data.surveyCategories.get(latestQuarter) ?? null : null,
+      keyMetrics,
+    };
+  }
+}
+
+// Export singleton instance
+export const brandReportService = new BrandReportService();
@@ -0,0 +1,306 @@
+/**
+ * Brand Search Engine
+ *
+ * Ranked, typo-tolerant search over the brand catalog.
+ * - Normalization: case, diacritics, punctuation and hyphens ("Mercedes-Benz" = "mercedes benz")
+ * - Matching: exact, prefix and fuzzy (edit distance) per word; every query word must match
+ * - Ranking: name > tags > description, with bonuses for full-name matches
+ * - Highlights: character spans in the original field values
+ */
+
+import type { Brand } from '../types/brand';
+import type {
+  BrandSearchResult,
+  FieldMatch,
+  MatchKind,
+  MatchSpan,
+  SearchField,
+} from '../types/search';
+import { editDistance, maxEditsForLength, normalizeText, tokenize } from '../utils/textMatching';
+import type { TextToken } from '../utils/textMatching';
+
+/**
+ * Relative weight of each searchable field
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  tags: 2,
+  description: 1,
+};
+
+/**
+ * Score multiplier for each kind of word match
+ */
+const MATCH_SCORES: Record<MatchKind, number> = {
+  exact: 1,
+  prefix: 0.75,
+  fuzzy: 0.5,
+};
+
+const EXACT_NAME_BONUS = 5;
+const FUZZY_NAME_BONUS = 3;
+const NAME_PREFIX_BONUS = 2;
+
+interface IndexedValue {
+  field: SearchField;
+  value: string;
+  tokens: TextToken[];
+}
+
+interface IndexedBrand {
+  brand: Brand;
+  values: IndexedValue[];
+  normalizedName: string;
+  compactName: string;
+}
+
+interface TokenMatch {
+  kind: MatchKind;
+  score: number;
+}
+
+/**
+ * Match one query word against one brand word
+ *
+ * @param allowPartial - Query word may still be being typed (prefix/fuzzy-prefix allowed)
+ */
+function matchToken(queryWord: string, word: string, allowPartial: boolean): TokenMatch | null {
+  if (queryWord === word) {
+    return { kind: 'exact', score: MATCH_SCORES.exact };
+  }
+
+  if (allowPartial && word.startsWith(queryWord)) {
+    return { kind: 'prefix', score: MATCH_SCORES.prefix };
+  }
+
+  const maxEdits = maxEditsForLength(queryWord.length);
+  if (maxEdits === 0) {
+    return null;
+  }
+
+  const distance = editDistance(queryWord, word, maxEdits);
+  if (distance <= maxEdits) {
+    return { kind: 'fuzzy', score: MATCH_SCORES.fuzzy / distance };
+  }
+
+  // Misspelled and unfinished: compare against the word's prefix of similar length
+  if (allowPartial && word.length > queryWord.length) {
+    const prefixDistance = editDistance(queryWord, word.slice(0, queryWord.length), maxEdits);
+    if (prefixDistance <= maxEdits) {
+      return { kind: 'fuzzy', score: (MATCH_SCORES.fuzzy * MATCH_SCORES.prefix) / prefixDistance };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Merge overlapping/adjacent spans and sort them by position
+ */
+function mergeSpans(spans: MatchSpan[]): MatchSpan[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  const merged: MatchSpan[] = [];
+
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Searchable index over a fixed list of brands
+ */
+export class BrandSearchIndex {
+  private entries: IndexedBrand[];
+  private lastQuery: string | null = null;
+  private lastResults: BrandSearchResult[] = [];
+
+  constructor(brands: Brand[]) {
+    this.entries = brands.map((brand) => {
+      const values: IndexedValue[] = [
+        { field: 'name', value: brand.name, tokens: tokenize(brand.name) },
+        ...(brand.tags || []).map((tag) => ({
+          field: 'tags' as const,
+          value: tag,
+          tokens: tokenize(tag),
+        })),
+      ];
+
+      if (brand.description) {
+        values.push({
+          field: 'description',
+          value: brand.description,
+          tokens: tokenize(brand.description),
+        });
+      }
+
+      const normalizedName = normalizeText(brand.name);
+
+      return {
+        brand,
+        values,
+        normalizedName,
+        compactName: normalizedName.replace(/ /g, ''),
+      };
+    });
+  }
+
+  /**
+   * Search the index; results are ordered by descending relevance
+   * The most recent query is cached so repeated calls are free
+   */
+  search(query: string): BrandSearchResult[] {
+    const normalizedQuery = normalizeText(query);
+
+    if (normalizedQuery === this.lastQuery) {
+      return this.lastResults;
+    }
+
+    const results: BrandSearchResult[] = [];
+
+    if (normalizedQuery) {
+      for (const entry of this.entries) {
+        const result = this.scoreEntry(entry, normalizedQuery);
+        if (result) {
+          results.push(result);
+        }
+      }
+
+      results.sort((a, b) => b.score - a.score || a.brand.name.localeCompare(b.brand.name));
+    }
+
+    this.lastQuery = normalizedQuery;
+    this.lastResults = results;
+    return results;
+  }
+
+  /**
+   * Score a brand against a normalized query, or null if it doesn't match
+   */
+  private scoreEntry(entry: IndexedBrand, normalizedQuery: string): BrandSearchResult | null {
+    const queryWords = normalizedQuery.split(' ');
+    const spansByValue = new Map<IndexedValue, MatchSpan[]>();
+    let score = 0;
+
+    for (let i = 0; i < queryWords.length; i++) {
+      const queryWord = queryWords[i];
+      const isLastWord = i === queryWords.length - 1;
+      let bestScore = 0;
+
+      for (const indexedValue of entry.values) {
+        for (const token of indexedValue.tokens) {
+          const match = matchToken(queryWord, token.text, isLastWord || queryWord.length >= 3);
+          if (!match) continue;
+
+          bestScore = Math.max(bestScore, FIELD_WEIGHTS[indexedValue.field] * match.score);
+
+          const spans = spansByValue.get(indexedValue) || [];
+          spans.push({ start: token.start, end: token.end });
+          spansByValue.set(indexedValue, spans);
+        }
+      }
+
+      // Every query word must match somewhere
+      if (bestScore === 0) {
+        return this.scoreCompactName(entry, normalizedQuery);
+      }
+
+      score += bestScore;
+    }
+
+    score += this.nameBonus(entry, normalizedQuery);
+
+    const matches: FieldMatch[] = [];
+    spansByValue.forEach((spans, indexedValue) => {
+      matches.push({
+        field: indexedValue.field,
+        value: indexedValue.value,
+        spans: mergeSpans(spans),
+      });
+    });
+
+    return { brand: entry.brand, score, matches };
+  }
+
+  /**
+   * Fallback for word-boundary differences ("coca cola" vs "CocaCola", "cocacola" vs "Coca-Cola")
+   */
+  private scoreCompactName(entry: IndexedBrand, normalizedQuery: string): BrandSearchResult | null {
+    const compactQuery = normalizedQuery.replace(/ /g, '');
+    const nameValue = entry.values[0];
+
+    if (compactQuery.length < 3 || nameValue.tokens.length === 0) {
+      return null;
+    }
+
+    const match = matchToken(compactQuery, entry.compactName, true);
+    if (!match) {
+      return null;
+    }
+
+    const firstToken = nameValue.tokens[0];
+    const lastToken = nameValue.tokens[nameValue.tokens.length - 1];
+
+    return {
+      brand: entry.brand,
+      score: FIELD_WEIGHTS.name * match.score + this.nameBonus(entry, normalizedQuery),
+      matches: [
+        {
+          field: 'name',
+          value: nameValue.value,
+          spans: [{ start: firstToken.start, end: lastToken.end }],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Bonus for queries matching the whole name (exactly or with a typo) or its beginning
+   */
+  private nameBonus(entry: IndexedBrand, normalizedQuery: string): number {
+    const compactQuery = normalizedQuery.replace(/ /g, '');
+
+    if (entry.normalizedName === normalizedQuery || entry.compactName === compactQuery) {
+      return EXACT_NAME_BONUS;
+    }
+
+    const maxEdits = maxEditsForLength(compactQuery.length);
+    if (maxEdits > 0 && editDistance(compactQuery, entry.compactName, maxEdits) <= maxEdits) {
+      return FUZZY_NAME_BONUS;
+    }
+
+    if (entry.normalizedName.startsWith(normalizedQuery)) {
+      return NAME_PREFIX_BONUS;
+    }
+    return 0;
+  }
+}
+
+// One index per brand list (brands are loaded once and never mutated)
+const indexCache = new WeakMap<Brand[], BrandSearchIndex>();
+
+/**
+ * Get (or build) the search index for a brand list
+ */
+export function getSearchIndex(brands: Brand[]): BrandSearchIndex {
+  let index = indexCache.get(brands);
+  if (!index) {
+    index = new BrandSearchIndex(brands);
+    indexCache.set(brands, index);
+  }
+  return index;
+}
+
+/**
+ * Ranked search over a brand list
+ * Returns an empty array for a blank query
+ */
+export function searchBrandsRanked(brands: Brand[], query: string): BrandSearchResult[] {
+  return getSearchIndex(brands).search(query);
+}
@@ -0,0 +1,22 @@
+/**
+ * Clustering Web Worker
+ * Feature: 004-quarterly-data-association
+ *
+ * Runs k-means / hierarchical clustering off the main thread so the UI
+ * stays responsive while a quarter is segmented.
+ */
+
+import { clusterPoints, type ClusteringRequest, type ClusteringResponse } from '../utils/clustering';
+
+self.addEventListener('message', (event: MessageEvent<ClusteringRequest>) => {
+  const { id, algorithm, k, points } = event.data;
+  let response: ClusteringResponse;
+
+  try {
+    response = { id, assignments: clusterPoints(algorithm, points, k) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Clustering failed' };
+  }
+
+  self.postMessage(response);
+});
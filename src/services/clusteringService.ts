@@ -0,0 +1,272 @@
+/**
+ * Clustering Service
+ * Feature: 004-quarterly-data-association
+ *
+ * Segments a quarter's brands by chosen metrics. Metrics are standardized
+ * across the quarter, the clustering itself runs in a Web Worker, and each
+ * cluster is described by its centroid and most distinctive traits.
+ */
+
+import type { Brand } from '../types/brand';
+import type {
+  BrandCluster,
+  BrandClustering,
+  BrandMetrics,
+  ClusterTrait,
+  ClusteringAlgorithm,
+  ClusteringOptions,
+  MetricKey,
+} from '../types/quarterlyData';
+import { firstRecordPerBrand, quarterlyDataLoader } from './quarterlyDataLoader';
+import { getBrandsById } from './brandLoader';
+import { UnknownMetricError } from './leaderboardService';
+import { getMetricsByGroup, isMetricKey } from '../utils/metricRegistry';
+import {
+  clusterPoints,
+  type ClusteringRequest,
+  type ClusteringResponse,
+} from '../utils/clustering';
+import { toCsv } from '../utils/csvExport';
+
+export const MIN_CLUSTERS = 2;
+export const MAX_CLUSTERS = 12;
+export const DEFAULT_CLUSTER_COUNT = 5;
+export const DEFAULT_CLUSTER_METRICS: MetricKey[] = getMetricsByGroup('Personality Factors').map(
+  metric => metric.key
+);
+
+// Brands missing more than this share of the chosen metrics are left out
+const MAX_MISSING_SHARE = 0.5;
+const MAX_TRAITS = 4;
+
+export class InvalidClusteringError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidClusteringError';
+  }
+}
+
+/**
+ * Clustering Service Implementation
+ */
+class ClusteringService {
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private pending = new Map<
+    number,
+    { resolve: (assignments: number[]) => void; reject: (error: Error) => void }
+  >();
+
+  /**
+   * Get the clustering worker, or null where workers aren't available
+   */
+  private getWorker(): Worker | null {
+    if (typeof Worker === 'undefined') return null;
+
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./clustering.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+      this.worker.addEventListener('message', (event: MessageEvent<ClusteringResponse>) => {
+        const request = this.pending.get(event.data.id);
+        if (!request) return;
+        this.pending.delete(event.data.id);
+
+        if ('error' in event.data) {
+          request.reject(new Error(event.data.error));
+        } else {
+          request.resolve(event.data.assignments);
+        }
+      });
+      this.worker.addEventListener('error', event => {
+        // A broken worker fails everything in flight; the next call starts a new one
+        const error = new Error(event.message || 'Clustering worker failed');
+        this.pending.forEach(request => request.reject(error));
+        this.pending.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      });
+    }
+
+    return this.worker;
+  }
+
+  /**
+   * Cluster points in the worker (or in this thread as a fallback)
+   */
+  private runClustering(
+    algorithm: ClusteringAlgorithm,
+    points: number[][],
+    k: number
+  ): Promise<number[]> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return Promise.resolve(clusterPoints(algorithm, points, k));
+    }
+
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      const request: ClusteringRequest = { id, algorithm, k, points };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Split a quarter's brands into k clusters
+   *
+   * @example
+   * const segments = await clusteringService.clusterQuarter('2009Q2', { k: 4 });
+   * segments.clusters[0].traits[0] // e.g. { metric: 'Cutting_Edge_C', value: 31.2, z: 1.4 }
+   */
+  async clusterQuarter(quarter: string, options: ClusteringOptions = {}): Promise<BrandClustering> {
+    const algorithm = options.algorithm ?? 'kmeans';
+    const k = options.k ?? DEFAULT_CLUSTER_COUNT;
+    const metrics = options.metrics ?? DEFAULT_CLUSTER_METRICS;
+
+    for (const metric of metrics) {
+      if (!isMetricKey(metric)) {
+        throw new UnknownMetricError(metric);
+      }
+    }
+    if (metrics.length === 0) {
+      throw new InvalidClusteringError('Choose at least one metric to cluster on');
+    }
+    if (!Number.isInteger(k) || k < MIN_CLUSTERS || k > MAX_CLUSTERS) {
+      throw new InvalidClusteringError(
+        `Number of clusters must be between ${MIN_CLUSTERS} and ${MAX_CLUSTERS}`
+      );
+    }
+
+    const normalizedQuarter = quarter.toUpperCase();
+    const [quarterData, brandsById] = await Promise.all([
+      quarterlyDataLoader.loadQuarter(normalizedQuarter),
+      getBrandsById(),
+    ]);
+
+    const included: Array<{ brand: Brand; metrics: BrandMetrics }> = [];
+    const excluded: Brand[] = [];
+
+    for (const record of firstRecordPerBrand(quarterData.records).values()) {
+      const brand = brandsById.get(record.brandId);
+      if (!brand) continue;
+
+      const missing = metrics.filter(metric => record.metrics[metric] === null).length;
+      if (missing / metrics.length > MAX_MISSING_SHARE) {
+        excluded.push(brand);
+      } else {
+        included.push({ brand, metrics: record.metrics });
+      }
+    }
+
+    if (included.length < k) {
+      throw new InvalidClusteringError(
+        `Only ${included.length} brands have enough data in ${normalizedQuarter} for ${k} clusters`
+      );
+    }
+
+    // Standardize each metric so percentages and scores weigh the same
+    const scales = metrics.map(metric => {
+      const values = included
+        .map(entry => entry.metrics[metric])
+        .filter((value): value is number => value !== null);
+      const mean = values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+      const variance =
+        values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length || 1);
+      return { metric, mean, sd: Math.sqrt(variance) };
+    });
+
+    // Missing values sit at the quarter mean (z = 0)
+    const points = included.map(entry =>
+      scales.map(({ metric, mean, sd }) => {
+        const value = entry.metrics[metric];
+        return value === null || sd === 0 ? 0 : (value - mean) / sd;
+      })
+    );
+
+    const assignments = await this.runClustering(algorithm, points, k);
+
+    const clusters: BrandCluster[] = [];
+    for (let cluster = 0; cluster < k; cluster++) {
+      const memberEntries = included.filter((_, i) => assignments[i] === cluster);
+      if (memberEntries.length === 0) continue;
+
+      const centroid: Partial<Record<MetricKey, number>> = {};
+      const traits: ClusterTrait[] = [];
+
+      for (const { metric, mean, sd } of scales) {
+        const values = memberEntries
+          .map(entry => entry.metrics[metric])
+          .filter((value): value is number => value !== null);
+        if (values.length === 0) continue;
+
+        const value = values.reduce((sum, v) => sum + v, 0) / values.length;
+        centroid[metric] = Math.round(value * 100) / 100;
+        if (sd > 0) {
+          traits.push({
+            metric,
+            value: centroid[metric] as number,
+            z: Math.round(((value - mean) / sd) * 100) / 100,
+          });
+        }
+      }
+
+      clusters.push({
+        id: clusters.length + 1,
+        members: memberEntries
+          .map(entry => entry.brand)
+          .sort((a, b) => a.name.localeCompare(b.name)),
+        centroid,
+        traits: traits.sort((a, b) => Math.abs(b.z) - Math.abs(a.z)).slice(0, MAX_TRAITS),
+      });
+    }
+
+    return {
+      quarter: normalizedQuarter,
+      algorithm,
+      metrics,
+      clusters,
+      excluded: excluded.sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+
+  /**
+   * Cluster assignments as CSV (one row per brand, excluded brands last)
+   */
+  toAssignmentsCsv(clustering: BrandClustering): string {
+    const rows = clustering.clusters.flatMap(cluster =>
+      cluster.members.map(brand => [
+        brand.id,
+        brand.name,
+        brand.category,
+        clustering.quarter,
+        cluster.id,
+      ])
+    );
+    const excludedRows = clustering.excluded.map(brand => [
+      brand.id,
+      brand.name,
+      brand.category,
+      clustering.quarter,
+      '',
+    ]);
+
+    return toCsv(
+      ['brand_id', 'brand_name', 'category', 'quarter', 'cluster'],
+      [...rows, ...excludedRows]
+    );
+  }
+
+  /**
+   * Stop the worker (useful for testing)
+   */
+  clearCache(): void {
+    this.pending.forEach(request => request.reject(new Error('Clustering cancelled')));
+    this.pending.clear();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
+
+// Export singleton instance
+export const clusteringService = new ClusteringService();
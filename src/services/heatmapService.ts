@@ -0,0 +1,74 @@
+/**
+ * Heatmap Service
+ * Feature: 004-quarterly-data-association
+ *
+ * Lays out every brand's value for one metric across all quarters,
+ * built from the full quarter files.
+ */
+
+import type { Brand } from '../types/brand';
+import type { HeatmapRow, MetricHeatmap } from '../types/quarterlyData';
+import { firstRecordPerBrand, quarterlyDataLoader } from './quarterlyDataLoader';
+import { getBrandsById } from './brandLoader';
+import { UnknownMetricError } from './leaderboardService';
+import { isMetricKey } from '../utils/metricRegistry';
+import { extent } from '../utils/chartScale';
+
+/**
+ * Heatmap Service Implementation
+ */
+class HeatmapService {
+  /**
+   * Get a brands × quarters grid for a metric
+   *
+   * @example
+   * const heatmap = await heatmapService.getMetricHeatmap('Brand_Asset_C');
+   * heatmap.rows[0].values // [4.2, null, 4.6, ...] - one per heatmap.quarters
+   */
+  async getMetricHeatmap(metric: string): Promise<MetricHeatmap> {
+    if (!isMetricKey(metric)) {
+      throw new UnknownMetricError(metric);
+    }
+
+    const quarters = await quarterlyDataLoader.getAvailableQuarters();
+    const [quarterData, brandsById] = await Promise.all([
+      quarterlyDataLoader.loadQuarters(quarters),
+      getBrandsById(),
+    ]);
+
+    const valuesByBrand = new Map<string, Array<number | null>>();
+
+    quarters.forEach((quarter, index) => {
+      for (const record of firstRecordPerBrand(quarterData.get(quarter)?.records ?? []).values()) {
+        const value = record.metrics[metric];
+        if (value === null || !brandsById.has(record.brandId)) continue;
+
+        const values = valuesByBrand.get(record.brandId) ?? quarters.map(() => null);
+        values[index] = value;
+        valuesByBrand.set(record.brandId, values);
+      }
+    });
+
+    const rows: HeatmapRow[] = Array.from(valuesByBrand, ([brandId, values]) => {
+      const present = values.filter((value): value is number => value !== null);
+      const latest = present[present.length - 1];
+
+      return {
+        brand: brandsById.get(brandId) as Brand,
+        values,
+        latest,
+        change: present.length > 1 ? Math.round((latest - present[0]) * 100) / 100 : null,
+      };
+    }).sort((a, b) => a.brand.name.localeCompare(b.brand.name));
+
+    return {
+      metric,
+      quarters,
+      rows,
+      domain: extent(rows.flatMap(row => row.values)),
+    };
+  }
+}
+
+// Export singleton instance
+export const heatmapService = new HeatmapService();
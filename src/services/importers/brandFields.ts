@@ -0,0 +1,190 @@
+/**
+ * Brand field parsing for import rows
+ *
+ * Validates and normalizes the optional columns of an import CSV row
+ * (id, slug, category, websiteUrl, description, tags, featured, dateAdded).
+ * Each failure gets its own ImportError code so reports can group them.
+ */
+
+import type { BrandCategory } from '../../types/brand';
+import type { CSVRow, ImportError, ImportErrorCode } from '../../types/importer';
+import {
+  MAX_DESCRIPTION_LENGTH,
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+  TAG_DELIMITER
+} from '../../types/importer';
+import { getAllCategories } from '../../utils/categoryInference';
+import { isValidUrl } from '../../utils/validation';
+
+/**
+ * Optional Brand fields supplied by an import row (only those present)
+ */
+export interface ImportedBrandFields {
+  id?: string;
+  slug?: string;
+  category?: BrandCategory;
+  websiteUrl?: string;
+  description?: string;
+  tags?: string[];
+  featured?: boolean;
+  dateAdded?: string;
+}
+
+/**
+ * Parsed fields, or the first field that failed validation
+ */
+export type BrandFieldsResult =
+  | { fields: ImportedBrandFields; error?: undefined }
+  | { fields?: undefined; error: ImportError };
+
+const IDENTIFIER_PATTERN = /^[a-z0-9-]{1,100}$/;
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Match a category case-insensitively ("food & beverage" → "Food & Beverage")
+ */
+function normalizeCategory(value: string): BrandCategory | undefined {
+  const lower = value.toLowerCase();
+  return getAllCategories().find(category => category.toLowerCase() === lower);
+}
+
+/**
+ * Split and check the tags cell
+ *
+ * @returns Tags, or an error message
+ */
+function parseTags(value: string): string[] | string {
+  if (value.includes(',') || value.includes('|')) {
+    return `Tags must be separated by "${TAG_DELIMITER}"`;
+  }
+
+  const tags = value.split(TAG_DELIMITER).map(tag => tag.trim()).filter(Boolean);
+  if (tags.length > MAX_TAGS) {
+    return `At most ${MAX_TAGS} tags are allowed (found ${tags.length})`;
+  }
+
+  const tooLong = tags.find(tag => tag.length > MAX_TAG_LENGTH);
+  if (tooLong) {
+    return `Tag exceeds maximum length of ${MAX_TAG_LENGTH} characters: "${tooLong.substring(0, 20)}..."`;
+  }
+
+  const seen = new Set<string>();
+  for (const tag of tags) {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) {
+      return `Duplicate tag: "${tag}"`;
+    }
+    seen.add(key);
+  }
+
+  return tags;
+}
+
+/**
+ * Parse and validate the optional fields of a row
+ * Empty cells count as not supplied
+ *
+ * @param row - CSV row
+ * @returns Normalized fields, or the first validation error
+ *
+ * @example
+ * parseBrandFields({ ..., category: 'retail', tags: 'shoes; sport', featured: 'yes' })
+ * // { fields: { category: 'Retail', tags: ['shoes', 'sport'], featured: true } }
+ */
+export function parseBrandFields(row: CSVRow): BrandFieldsResult {
+  const fields: ImportedBrandFields = {};
+  const fail = (code: ImportErrorCode, field: string, message: string, value: string): BrandFieldsResult => ({
+    error: {
+      code,
+      message,
+      field,
+      details: `Line ${row.lineNumber}: "${value.length > 50 ? `${value.substring(0, 50)}...` : value}"`
+    }
+  });
+
+  const id = row.id?.trim();
+  if (id) {
+    if (!IDENTIFIER_PATTERN.test(id)) {
+      return fail('invalid_brand_id', 'id', 'Brand id must be 1-100 lowercase letters, digits or hyphens', id);
+    }
+    fields.id = id;
+  }
+
+  const slug = row.slug?.trim();
+  if (slug) {
+    if (!IDENTIFIER_PATTERN.test(slug)) {
+      return fail('invalid_slug', 'slug', 'Slug must be 1-100 lowercase letters, digits or hyphens', slug);
+    }
+    fields.slug = slug;
+  }
+
+  const category = row.category?.trim();
+  if (category) {
+    const normalized = normalizeCategory(category);
+    if (!normalized) {
+      return fail(
+        'invalid_category',
+        'category',
+        `Unknown category (expected one of: ${getAllCategories().join(', ')})`,
+        category
+      );
+    }
+    fields.category = normalized;
+  }
+
+  const websiteUrl = row.websiteUrl?.trim();
+  if (websiteUrl) {
+    if (!isValidUrl(websiteUrl) || !/^https?:\/\//i.test(websiteUrl)) {
+      return fail('invalid_website_url', 'websiteUrl', 'Website must be an absolute http(s) URL', websiteUrl);
+    }
+    fields.websiteUrl = websiteUrl;
+  }
+
+  const description = row.description?.trim();
+  if (description) {
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return fail(
+        'invalid_description',
+        'description',
+        `Description exceeds maximum length of ${MAX_DESCRIPTION_LENGTH} characters`,
+        description
+      );
+    }
+    fields.description = description;
+  }
+
+  const tags = row.tags?.trim();
+  if (tags) {
+    const parsed = parseTags(tags);
+    if (typeof parsed === 'string') {
+      return fail('invalid_tags', 'tags', parsed, tags);
+    }
+    if (parsed.length > 0) {
+      fields.tags = parsed;
+    }
+  }
+
+  const featured = row.featured?.trim().toLowerCase();
+  if (featured) {
+    if (TRUE_VALUES.includes(featured)) {
+      fields.featured = true;
+    } else if (FALSE_VALUES.includes(featured)) {
+      fields.featured = false;
+    } else {
+      return fail('invalid_featured', 'featured', 'Featured must be true/false, yes/no or 1/0', featured);
+    }
+  }
+
+  const dateAdded = row.dateAdded?.trim();
+  if (dateAdded) {
+    const time = Date.parse(dateAdded);
+    if (Number.isNaN(time)) {
+      return fail('invalid_date_added', 'dateAdded', 'Date added must be an ISO 8601 date', dateAdded);
+    }
+    fields.dateAdded = new Date(time).toISOString();
+  }
+
+  return { fields };
+}
@@ -12,12 +12,14 @@ import { inferCategory } from '../../utils/categoryInference';
 import { fileExists, resolvePath } from '../../utils/fileSystem';
 import { parseCSV, validateRow } from './csvParser';
 import { validateFile } from './fileValidator';
+import { parseBrandFields } from './brandFields';
 import { MAX_FILE_SIZE_WARN } from '../../types/importer';
 
 /**
  * Transform validated CSV row + logo file into Brand entity
  *
- * Creates a complete Brand object with generated ID, slug, category, and timestamp.
+ * Uses the row's optional columns where given; otherwise generates the ID and
+ * slug, infers the category and stamps the current time.
  *
  * @param row - Validated CSV row
  * @param logoFile - Validated logo file
@@ -25,15 +27,19 @@ import { MAX_FILE_SIZE_WARN } from '../../types/importer';
  */
 export function transformToBrand(row: CSVRow, logoFile: LogoFile): Brand {
   const brandName = row.logoName.trim();
+  const { fields = {} } = parseBrandFields(row);
 
   return {
-    id: generateBrandId(brandName),
+    id: fields.id ?? generateBrandId(brandName),
     name: brandName, // Preserve exact as-is (FR-015)
-    slug: slugify(brandName),
-    category: inferCategory(brandName),
+    slug: fields.slug ?? slugify(brandName),
+    category: fields.category ?? inferCategory(brandName),
     logoPath: `/data/brands/logos/${logoFile.fileName}`,
-    dateAdded: new Date().toISOString(),
-    featured: false
+    ...(fields.websiteUrl && { websiteUrl: fields.websiteUrl }),
+    ...(fields.description && { description: fields.description }),
+    ...(fields.tags && { tags: fields.tags }),
+    dateAdded: fields.dateAdded ?? new Date().toISOString(),
+    featured: fields.featured ?? false
   };
 }
 
@@ -79,6 +85,7 @@ export async function processRow(row: CSVRow, logosDir: string): Promise<ImportR
 
     // Step 3: Validate logo file
     const logoFile = await validateFile(logoPath, row.fileName);
+    result.fileType = logoFile.fileType;
 
     if (!logoFile.isValid) {
       result.status = 'file_type_error';
@@ -91,8 +98,8 @@ export async function processRow(row: CSVRow, logosDir: string): Promise<ImportR
       return result;
     }
 
-    // Step 4: Check for file size warnings (non-fatal)
-    const warnings: string[] = [];
+    // Step 4: Collect file warnings (non-fatal)
+    const warnings: string[] = [...(logoFile.warnings ?? [])];
     if (logoFile.fileSize > MAX_FILE_SIZE_WARN) {
       const sizeMB = (logoFile.fileSize / (1024 * 1024)).toFixed(2);
       warnings.push(`Large file size: ${sizeMB}MB (consider optimizing for web)`);
@@ -101,6 +108,7 @@ export async function processRow(row: CSVRow, logosDir: string): Promise<ImportR
     // Step 5: Transform to Brand
     const brand = transformToBrand(row, logoFile);
     result.brand = brand;
+    result.suppliedFields = Object.keys(parseBrandFields(row).fields ?? {}) as (keyof Brand)[];
     result.status = 'success';
     if (warnings.length > 0) {
       result.warnings = warnings;
@@ -153,8 +161,9 @@ export async function importBrands(input: ImportInput): Promise<ImportResult[]>
     const rows = await parseCSV(input.csvPath);
     console.log(`Found ${rows.length} rows to process`);
 
-    // Step 2: Initialize duplicate tracking (case-insensitive)
+    // Step 2: Initialize duplicate tracking (case-insensitive names, brand ids)
     const seenBrands = new Set<string>();
+    const seenIds = new Set<string>();
 
     // Step 3: Process each row
     const results: ImportResult[] = [];
@@ -182,9 +191,25 @@ export async function importBrands(input: ImportInput): Promise<ImportResult[]>
       // Process the row
       const result = await processRow(row, input.logosDir);
 
-      // If successful, mark brand name as seen
-      if (result.status === 'success') {
+      // Explicit ids from the id column can collide across different names
+      if (result.brand && seenIds.has(result.brand.id)) {
+        results.push({
+          rowNumber: row.lineNumber,
+          status: 'duplicate_brand',
+          error: {
+            code: 'duplicate_brand',
+            message: `Duplicate brand id: "${result.brand.id}" (first occurrence kept)`,
+            field: 'id',
+            details: `Line ${row.lineNumber}`
+          }
+        });
+        continue;
+      }
+
+      // If successful, mark brand name and id as seen
+      if (result.status === 'success' && result.brand) {
         seenBrands.add(row.logoName.toLowerCase().trim());
+        seenIds.add(result.brand.id);
       }
 
       results.push(result);
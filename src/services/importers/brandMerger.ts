@@ -0,0 +1,175 @@
+/**
+ * Brand Merger - Upsert an import into an existing brands.json
+ *
+ * Matches imported brands to existing entries by id, then by name
+ * (case-insensitive). Existing entries keep their id, position, category and
+ * curated fields unless the CSV sets them; brands missing from the import can
+ * be flagged as removed.
+ */
+
+import { promises as fs } from 'fs';
+import type { Brand } from '../../types/brand';
+import type { BrandMergeSummary } from '../../types/importer';
+import { fileExists } from '../../utils/fileSystem';
+
+/**
+ * Fields often curated after import: a merge keeps the existing value unless
+ * the CSV row sets the column (an empty cell keeps it too)
+ */
+const PRESERVED_FIELDS = ['dateAdded', 'featured', 'description', 'tags', 'websiteUrl'] as const;
+
+type PreservedField = (typeof PRESERVED_FIELDS)[number];
+
+/**
+ * A successfully imported brand and the fields its CSV row set explicitly
+ */
+export interface ImportedBrand {
+  brand: Brand;
+  suppliedFields: (keyof Brand)[];
+}
+
+/**
+ * Merge options
+ */
+export interface BrandMergeOptions {
+  /** Flag existing brands missing from the import with removedAt */
+  markRemoved?: boolean;
+}
+
+/**
+ * Merged brand list and what changed
+ */
+export interface BrandMergeResult {
+  brands: Brand[];
+  summary: BrandMergeSummary;
+}
+
+/**
+ * Read the brands of an existing brands.json
+ * A missing file is an empty list, so a first merge behaves like a plain import
+ *
+ * @param brandsJsonPath - Path to brands.json
+ */
+export async function readBrandsJSON(brandsJsonPath: string): Promise<Brand[]> {
+  if (!(await fileExists(brandsJsonPath))) {
+    return [];
+  }
+
+  try {
+    const content = await fs.readFile(brandsJsonPath, 'utf-8');
+    const data = JSON.parse(content) as { brands?: Brand[] };
+    return Array.isArray(data.brands) ? data.brands : [];
+  } catch (error) {
+    throw new Error(`Failed to read existing brands.json: ${error}`);
+  }
+}
+
+/**
+ * Copy one field from the existing entry
+ */
+function keepField<K extends PreservedField>(merged: Brand, existing: Brand, field: K): void {
+  merged[field] = existing[field];
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().trim();
+}
+
+/**
+ * Compare brands field by field, ignoring key order
+ */
+function sameBrand(a: Brand, b: Brand): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof Brand)[]);
+  return Array.from(keys).every(key => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+}
+
+/**
+ * Combine an existing entry with its re-imported version
+ */
+function mergeBrand(existing: Brand, { brand, suppliedFields }: ImportedBrand): Brand {
+  const merged: Brand = { ...brand, id: existing.id };
+
+  // An inferred category would undo overrides and survey categories (see recategorize-brands)
+  if (!suppliedFields.includes('category')) {
+    merged.category = existing.category;
+  }
+
+  for (const field of PRESERVED_FIELDS) {
+    if (!suppliedFields.includes(field) && existing[field] !== undefined) {
+      keepField(merged, existing, field);
+    }
+  }
+
+  delete merged.removedAt;
+  return merged;
+}
+
+/**
+ * Upsert imported brands into existing ones
+ *
+ * Existing entries stay in place (updated or not), new brands are appended.
+ * Missing brands are flagged with removedAt when markRemoved is set, otherwise kept.
+ *
+ * @param existing - Brands from the current brands.json
+ * @param imported - Successfully imported brands from this run
+ * @param options - Merge options
+ * @returns Merged brand list and counts
+ *
+ * @example
+ * const { brands, summary } = mergeBrands(await readBrandsJSON(path), imported, { markRemoved: true });
+ * summary // { added: 2, updated: 1, unchanged: 40, removed: 1, retained: 0 }
+ */
+export function mergeBrands(
+  existing: Brand[],
+  imported: ImportedBrand[],
+  options: BrandMergeOptions = {}
+): BrandMergeResult {
+  const summary: BrandMergeSummary = { added: 0, updated: 0, unchanged: 0, removed: 0, retained: 0 };
+  const existingById = new Map(existing.map((brand, index) => [brand.id, index]));
+  const existingByName = new Map<string, number>();
+  existing.forEach((brand, index) => {
+    const key = normalizeName(brand.name);
+    if (!existingByName.has(key)) existingByName.set(key, index);
+  });
+
+  const merged: Brand[] = [...existing];
+  const matched = new Set<number>();
+  const added: Brand[] = [];
+
+  for (const entry of imported) {
+    const { brand } = entry;
+    let index = existingById.get(brand.id);
+    if (index === undefined || matched.has(index)) {
+      index = existingByName.get(normalizeName(brand.name));
+    }
+
+    if (index === undefined || matched.has(index)) {
+      added.push(brand);
+      summary.added++;
+      continue;
+    }
+
+    matched.add(index);
+    const updated = mergeBrand(existing[index], entry);
+    if (sameBrand(updated, existing[index])) {
+      summary.unchanged++;
+    } else {
+      merged[index] = updated;
+      summary.updated++;
+    }
+  }
+
+  const removedAt = new Date().toISOString();
+  existing.forEach((brand, index) => {
+    if (matched.has(index)) return;
+
+    if (options.markRemoved && !brand.removedAt) {
+      merged[index] = { ...brand, removedAt };
+      summary.removed++;
+    } else {
+      summary.retained++;
+    }
+  });
+
+  return { brands: [...merged, ...added], summary };
+}
@@ -2,68 +2,139 @@
  * CSV Parser for brand logos dataset import
  *
  * Parses CSV files containing brand logo metadata and validates row data.
- * Supports standard CSV format with logoName and fileName columns.
+ * Requires logoName and fileName columns; a header row can add any optional
+ * Brand field (id, slug, category, websiteUrl, description, tags, featured, dateAdded).
  */
 
-import { promises as fs } from 'fs';
-import type { CSVRow, ImportError } from '../../types/importer';
-import { MAX_BRAND_NAME_LENGTH } from '../../types/importer';
+import type { CSVRow, ImportColumn, ImportError } from '../../types/importer';
+import type { CSVDelimiter } from './csvReader';
+import { IMPORT_COLUMNS, MAX_BRAND_NAME_LENGTH } from '../../types/importer';
+import { parseBrandFields } from './brandFields';
+import { detectCSVFormat, readCSVRecords } from './csvReader';
+
+/**
+ * Column layout of a CSV without a header row
+ */
+const LEGACY_COLUMNS: ImportColumn[] = ['logoName', 'fileName'];
+
+const DELIMITER_NAMES: Record<CSVDelimiter, string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab'
+};
+
+/**
+ * Normalize a header cell for matching against IMPORT_COLUMNS
+ * ("Website URL" → "websiteurl", "logo_name" → "logoname")
+ */
+function normalizeHeader(cell: string): string {
+  return cell.trim().toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Map header cells to row fields
+ *
+ * @param cells - Cells of the first line
+ * @returns Field per column (null = unknown column, ignored), or null if the
+ *          line is not a header
+ * @throws Error if the line is a header but a required column is missing or
+ *         a field appears twice
+ */
+function mapHeader(cells: string[]): (ImportColumn | null)[] | null {
+  const mapping = cells.map(cell => {
+    const normalized = normalizeHeader(cell);
+    const entry = Object.entries(IMPORT_COLUMNS).find(([, aliases]) => aliases.includes(normalized));
+    return entry ? (entry[0] as ImportColumn) : null;
+  });
+
+  const looksLikeHeader = cells.some(cell => ['logoname', 'filename'].includes(normalizeHeader(cell)));
+  const hasRequired = mapping.includes('logoName') && mapping.includes('fileName');
+  if (!hasRequired) {
+    if (looksLikeHeader) {
+      throw new Error('CSV header must include logoName and fileName columns');
+    }
+    return null;
+  }
+
+  const duplicate = mapping.find((field, index) => field !== null && mapping.indexOf(field) !== index);
+  if (duplicate) {
+    throw new Error(`CSV header maps more than one column to "${duplicate}"`);
+  }
+
+  const unknown = cells.filter((_, index) => mapping[index] === null);
+  if (unknown.length > 0) {
+    console.warn(`Ignoring unknown CSV column(s): ${unknown.join(', ')}`);
+  }
+
+  return mapping;
+}
 
 /**
  * Parse CSV file and extract brand rows
  *
- * Reads a CSV file, parses rows, and extracts logoName and fileName columns.
- * Handles both Windows (CRLF) and Unix (LF) line endings.
- * Supports optional header row.
+ * Streams records from the file (see csvReader for quoting, encoding and
+ * delimiter handling) and maps columns to brand fields.
+ * With a header row, columns are matched by name (see IMPORT_COLUMNS) and may
+ * appear in any order; without one, rows must be exactly logoName,fileName.
+ * Malformed records and rows with the wrong number of columns are returned
+ * with parseError set; multi-line records keep the line they start on.
  *
  * @param csvPath - Path to CSV file
  * @returns Array of parsed CSV rows with line numbers
- * @throws Error if file cannot be read or parsed
+ * @throws Error if file cannot be read or parsed, or the header is invalid
+ *
+ * @example
+ * // logoName,fileName,category,tags
+ * // Nike,nike.png,Apparel & Fashion,shoes;sport
+ * const [row] = await parseCSV('brands.csv');
+ * row // { logoName: 'Nike', fileName: 'nike.png', category: 'Apparel & Fashion', tags: 'shoes;sport', lineNumber: 2 }
  */
 export async function parseCSV(csvPath: string): Promise<CSVRow[]> {
   try {
-    // Read file contents with UTF-8 encoding
-    const fileContent = await fs.readFile(csvPath, 'utf-8');
-
-    // Split into lines (handle both CRLF and LF)
-    const lines = fileContent.split(/\r?\n/);
+    // Detect encoding and delimiter from the start of the file
+    const format = await detectCSVFormat(csvPath);
+    if (format.encoding !== 'utf-8' || format.delimiter !== ',') {
+      console.log(`Detected ${format.encoding} encoding, ${DELIMITER_NAMES[format.delimiter]} delimiter`);
+    }
 
     const rows: CSVRow[] = [];
-    let hasHeader = false;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-
-      // Skip empty lines
-      if (!line) continue;
-
-      // Check if first line is header
-      if (i === 0 && (line.toLowerCase().includes('logoname') || line.toLowerCase().includes('filename'))) {
-        hasHeader = true;
+    let columns: (ImportColumn | null)[] = LEGACY_COLUMNS;
+    let firstRecord = true;
+
+    for await (const record of readCSVRecords(csvPath, format)) {
+      const { cells } = record;
+      const row: CSVRow = { logoName: '', fileName: '', lineNumber: record.lineNumber };
+
+      // Keep malformed records so the error is reported against their line
+      if (record.error) {
+        firstRecord = false;
+        row.parseError = record.error;
+        rows.push(row);
         continue;
       }
 
-      // Parse CSV line (basic parsing - handles quoted fields)
-      const columns = parseCSVLine(line);
-
-      // Validate column count (must be exactly 2)
-      if (columns.length !== 2) {
-        // Add malformed row with empty values for error reporting
-        rows.push({
-          logoName: columns[0] || '',
-          fileName: columns[1] || '',
-          lineNumber: hasHeader ? i + 1 : i + 1
-        });
-        continue;
+      // Check if first record is header
+      if (firstRecord) {
+        firstRecord = false;
+        const header = mapHeader(cells);
+        if (header) {
+          columns = header;
+          continue;
+        }
       }
 
-      const [logoName, fileName] = columns;
-
-      rows.push({
-        logoName: logoName.trim(),
-        fileName: fileName.trim(),
-        lineNumber: hasHeader ? i + 1 : i + 1 // Adjust for header
+      columns.forEach((field, index) => {
+        if (field && cells[index] !== undefined) {
+          row[field] = cells[index].trim();
+        }
       });
+
+      // Validate column count; keep the row so the error is reported against it
+      if (cells.length !== columns.length) {
+        row.parseError = `Expected ${columns.length} columns, found ${cells.length}`;
+      }
+
+      rows.push(row);
     }
 
     return rows;
@@ -72,48 +143,25 @@ export async function parseCSV(csvPath: string): Promise<CSVRow[]> {
   }
 }
 
-/**
- * Parse a single CSV line handling quoted fields
- *
- * @param line - CSV line to parse
- * @returns Array of column values
- */
-function parseCSVLine(line: string): string[] {
-  const columns: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      // Toggle quote state
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      // End of column
-      columns.push(current);
-      current = '';
-    } else {
-      // Add character to current column
-      current += char;
-    }
-  }
-
-  // Add last column
-  columns.push(current);
-
-  return columns;
-}
-
 /**
  * Validate CSV row structure and data
  *
- * Checks that logoName and fileName are non-empty and within length limits.
+ * Checks the row's shape, that logoName and fileName are non-empty and within
+ * length limits, then each optional field (see parseBrandFields).
  *
  * @param row - CSV row to validate
  * @returns Validation error or null if valid
  */
 export function validateRow(row: CSVRow): ImportError | null {
+  // Validate row shape
+  if (row.parseError) {
+    return {
+      code: 'csv_validation_error',
+      message: `Malformed row: ${row.parseError}`,
+      details: `Line ${row.lineNumber}`
+    };
+  }
+
   // Validate logoName
   if (!row.logoName || row.logoName.trim().length === 0) {
     return {
@@ -154,5 +202,11 @@ export function validateRow(row: CSVRow): ImportError | null {
     };
   }
 
+  // Validate optional fields
+  const { error } = parseBrandFields(row);
+  if (error) {
+    return error;
+  }
+
   return null; // Valid
 }
@@ -0,0 +1,311 @@
+/**
+ * Streaming RFC 4180 CSV reader for the brand importer
+ *
+ * Reads a CSV file chunk by chunk and yields one record at a time. Handles
+ * quoted fields with escaped quotes ("") and embedded line breaks, CRLF/LF/CR
+ * line endings, byte order marks, and detects the encoding and delimiter.
+ * Malformed records are yielded with an error instead of being guessed at.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+
+/**
+ * Encodings the reader can decode (TextDecoder labels)
+ */
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+/**
+ * Field delimiters the reader detects, in order of preference on a tie
+ */
+export const CSV_DELIMITERS = [',', ';', '\t'] as const;
+
+export type CSVDelimiter = (typeof CSV_DELIMITERS)[number];
+
+/**
+ * Detected file format
+ */
+export interface CSVFormat {
+  encoding: CSVEncoding;
+  delimiter: CSVDelimiter;
+}
+
+/**
+ * A single CSV record
+ */
+export interface CSVRecord {
+  /** Field values (quotes removed, line breaks inside quotes normalized to \n) */
+  cells: string[];
+
+  /** Line the record starts on (1-indexed) */
+  lineNumber: number;
+
+  /** Line the record ends on (differs from lineNumber for multi-line records) */
+  endLineNumber: number;
+
+  /** Set when the record is malformed; cells are then incomplete */
+  error?: string;
+}
+
+/**
+ * Incremental record parser
+ */
+export interface CSVRecordParser {
+  /** Feed decoded text; returns the records completed by it */
+  push(text: string): CSVRecord[];
+
+  /** Signal end of input; returns the final record, if any */
+  end(): CSVRecord[];
+}
+
+/**
+ * Bytes read to detect encoding and delimiter
+ */
+const SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Detect the encoding of a file sample
+ * BOMs win; otherwise NUL byte patterns indicate UTF-16, and anything that is
+ * not valid UTF-8 is read as Windows-1252 (Excel's default on Windows)
+ *
+ * @param sample - First bytes of the file
+ */
+export function detectEncoding(sample: Uint8Array): CSVEncoding {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return 'utf-8';
+  if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+  if (sample[0] === 0xfe && sample[1] === 0xff) return 'utf-16be';
+
+  // ASCII text in UTF-16 has a NUL in every other byte
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenNuls++;
+      else oddNuls++;
+    }
+  }
+  const pairs = sample.length / 2;
+  if (pairs > 0 && oddNuls / pairs > 0.3) return 'utf-16le';
+  if (pairs > 0 && evenNuls / pairs > 0.3) return 'utf-16be';
+
+  try {
+    // stream: true tolerates a multi-byte sequence cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Detect the delimiter from the first record of decoded text
+ * The candidate occurring most often outside quotes wins; comma by default
+ *
+ * @param text - Start of the file, decoded
+ */
+export function detectDelimiter(text: string): CSVDelimiter {
+  const counts = new Map<CSVDelimiter, number>(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char as CSVDelimiter)) {
+      counts.set(char as CSVDelimiter, (counts.get(char as CSVDelimiter) ?? 0) + 1);
+    }
+  }
+
+  let best: CSVDelimiter = ',';
+  counts.forEach((count, delimiter) => {
+    if (count > (counts.get(best) ?? 0)) best = delimiter;
+  });
+  return best;
+}
+
+/**
+ * Create an incremental RFC 4180 record parser
+ *
+ * Text can be pushed in arbitrary chunks (a quote pair or CRLF split across
+ * chunks is handled). Blank records are skipped. Leading whitespace before an
+ * opening quote and trailing whitespace after a closing quote are tolerated;
+ * any other stray quote makes the record invalid up to the next line break.
+ *
+ * @param delimiter - Field delimiter
+ *
+ * @example
+ * const parser = createCSVRecordParser(',');
+ * parser.push('"Ben & Jerry""s",ben.png\r\n"Multi\nline",x.png');
+ * // [{ cells: ['Ben & Jerry"s', 'ben.png'], lineNumber: 1, endLineNumber: 1 }]
+ * parser.end();
+ * // [{ cells: ['Multi\nline', 'x.png'], lineNumber: 2, endLineNumber: 3 }]
+ */
+export function createCSVRecordParser(delimiter: CSVDelimiter): CSVRecordParser {
+  // fieldStart: before a field | unquoted: in an unquoted field | quoted: in a quoted field
+  // quote: just saw a quote in a quoted field | closed: after a closing quote | invalid: skipping to line end
+  let state: 'fieldStart' | 'unquoted' | 'quoted' | 'quote' | 'closed' | 'invalid' = 'fieldStart';
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+  let cells: string[] = [];
+  let field = '';
+  let error: string | undefined;
+  // Previous character was a CR, so a following LF belongs to the same line break
+  let afterCR = false;
+  let records: CSVRecord[] = [];
+
+  const endField = () => {
+    cells.push(field);
+    field = '';
+    state = 'fieldStart';
+  };
+
+  const endRecord = () => {
+    endField();
+    if (error || cells.some(cell => cell.trim() !== '')) {
+      records.push({ cells, lineNumber: recordLine, endLineNumber: line, ...(error && { error }) });
+    }
+    cells = [];
+    error = undefined;
+  };
+
+  const fail = (message: string) => {
+    error = `${message} on line ${line}`;
+    state = 'invalid';
+  };
+
+  const take = () => {
+    const completed = records;
+    records = [];
+    return completed;
+  };
+
+  return {
+    push(text: string): CSVRecord[] {
+      for (const char of text) {
+        if (afterCR) {
+          afterCR = false;
+          if (char === '\n') continue;
+        }
+
+        const isLineBreak = char === '\n' || char === '\r';
+
+        if (state === 'quoted') {
+          if (char === '"') {
+            state = 'quote';
+          } else if (isLineBreak) {
+            field += '\n';
+            line++;
+            afterCR = char === '\r';
+          } else {
+            field += char;
+          }
+          continue;
+        }
+
+        if (isLineBreak) {
+          endRecord();
+          line++;
+          recordLine = line;
+          afterCR = char === '\r';
+          continue;
+        }
+
+        switch (state) {
+          case 'invalid':
+            break;
+          case 'fieldStart':
+          case 'unquoted':
+            if (char === delimiter) {
+              endField();
+            } else if (char === '"') {
+              if (field.trim() === '') {
+                field = '';
+                quoteLine = line;
+                state = 'quoted';
+              } else {
+                fail('Unexpected quote in unquoted field');
+              }
+            } else {
+              field += char;
+              state = 'unquoted';
+            }
+            break;
+          case 'quote':
+          case 'closed':
+            if (char === '"' && state === 'quote') {
+              field += '"'; // Escaped quote
+              state = 'quoted';
+            } else if (char === delimiter) {
+              endField();
+            } else if (char === ' ' || char === '\t') {
+              state = 'closed';
+            } else {
+              fail('Unexpected character after closing quote');
+            }
+            break;
+        }
+      }
+
+      return take();
+    },
+
+    end(): CSVRecord[] {
+      if (state === 'quoted') {
+        error = `Unterminated quoted field starting on line ${quoteLine}`;
+      }
+      endRecord();
+      return take();
+    },
+  };
+}
+
+/**
+ * Detect a file's encoding and delimiter from its first bytes
+ *
+ * @param filePath - Path to CSV file
+ */
+export async function detectCSVFormat(filePath: string): Promise<CSVFormat> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SAMPLE_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SAMPLE_BYTES, 0);
+    const sample = buffer.subarray(0, bytesRead);
+    const encoding = detectEncoding(sample);
+    const text = new TextDecoder(encoding).decode(sample, { stream: true });
+    return { encoding, delimiter: detectDelimiter(text) };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Stream the records of a CSV file
+ * Records containing bytes that are invalid in the file's encoding are
+ * yielded with an error
+ *
+ * @param filePath - Path to CSV file
+ * @param format - Encoding and delimiter (see detectCSVFormat)
+ *
+ * @example
+ * const format = await detectCSVFormat('brands.csv');
+ * for await (const record of readCSVRecords('brands.csv', format)) {
+ *   if (record.error) console.warn(`Line ${record.lineNumber}: ${record.error}`);
+ * }
+ */
+export async function* readCSVRecords(filePath: string, format: CSVFormat): AsyncGenerator<CSVRecord> {
+  // TextDecoder strips a leading BOM
+  const decoder = new TextDecoder(format.encoding);
+  const parser = createCSVRecordParser(format.delimiter);
+
+  const checkEncoding = (record: CSVRecord): CSVRecord =>
+    !record.error && record.cells.some(cell => cell.includes('\uFFFD'))
+      ? { ...record, error: `Invalid ${format.encoding} byte sequence` }
+      : record;
+
+  for await (const chunk of createReadStream(filePath)) {
+    yield* parser.push(decoder.decode(chunk as Buffer, { stream: true })).map(checkEncoding);
+  }
+
+  yield* [...parser.push(decoder.decode()), ...parser.end()].map(checkEncoding);
+}
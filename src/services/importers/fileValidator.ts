@@ -2,20 +2,30 @@
  * File Validator for brand logo images
  *
  * Validates logo image files using magic byte detection to identify file types.
- * Supports PNG, JPEG, and GIF formats. Rejects EPS, AI, PDF, and other unsupported formats.
+ * Supports PNG, JPEG, GIF, WebP, AVIF and SVG (markup sniffing, checked and
+ * sanitized). Rejects EPS, AI, PDF, and other unsupported formats.
  */
 
 import { promises as fs } from 'fs';
+import path from 'path';
 import { fileTypeFromBuffer } from 'file-type';
 import type { LogoFile, ImageFileType } from '../../types/importer';
 import { SUPPORTED_FORMATS, MAX_FILE_SIZE_WARN } from '../../types/importer';
 import { getFileSize } from '../../utils/fileSystem';
+import type { SvgSanitizeResult } from './svgSanitizer';
+import { isSvgMarkup, sanitizeSvg } from './svgSanitizer';
+
+/**
+ * Bytes of text inspected when sniffing for SVG markup
+ */
+const SVG_SNIFF_LENGTH = 4096;
 
 /**
  * Detect file type via magic bytes
  *
  * Reads the file header and uses magic byte detection to identify the actual file type,
- * regardless of file extension.
+ * regardless of file extension. SVG has no magic bytes, so text files (or
+ * generic XML) are sniffed for an <svg> root element.
  *
  * @param filePath - Path to file
  * @returns Detected file type
@@ -26,8 +36,8 @@ export async function detectFileType(filePath: string): Promise<ImageFileType> {
     const buffer = await fs.readFile(filePath);
     const fileTypeResult = await fileTypeFromBuffer(buffer);
 
-    if (!fileTypeResult) {
-      return 'unknown';
+    if (!fileTypeResult || fileTypeResult.mime === 'application/xml') {
+      return isSvgMarkup(buffer.toString('utf-8', 0, SVG_SNIFF_LENGTH)) ? 'svg' : 'unknown';
     }
 
     // Map MIME types to our ImageFileType
@@ -36,6 +46,8 @@ export async function detectFileType(filePath: string): Promise<ImageFileType> {
     if (mimeType === 'image/png') return 'png';
     if (mimeType === 'image/jpeg') return 'jpeg';
     if (mimeType === 'image/gif') return 'gif';
+    if (mimeType === 'image/webp') return 'webp';
+    if (mimeType === 'image/avif') return 'avif';
     if (mimeType === 'application/postscript') return 'eps';
 
     // Check for Adobe Illustrator (.ai) - often detected as PDF
@@ -53,7 +65,7 @@ export async function detectFileType(filePath: string): Promise<ImageFileType> {
 }
 
 /**
- * Check if file type is supported (PNG, JPEG, GIF only)
+ * Check if file type is supported (PNG, JPEG, GIF, SVG, WebP, AVIF)
  *
  * Explicitly rejects:
  * - EPS (Encapsulated PostScript) files
@@ -80,13 +92,41 @@ export function isSupportedFormat(fileType: ImageFileType): boolean {
   return false;
 }
 
+/**
+ * Format list for error messages ("PNG, JPEG, GIF, ...")
+ */
+export function describeSupportedFormats(): string {
+  return SUPPORTED_FORMATS.map(format => format.toUpperCase()).join(', ');
+}
+
+/**
+ * Read an SVG logo and sanitize it (see sanitizeSvg)
+ *
+ * @param filePath - Path to SVG file
+ * @returns Sanitized markup and removed items, or an error
+ */
+export async function readSanitizedSvg(filePath: string): Promise<SvgSanitizeResult> {
+  return sanitizeSvg(await fs.readFile(filePath, 'utf-8'));
+}
+
+/**
+ * Collapse repeated removed items ("<script> ×2, onload attribute")
+ */
+function summarizeRemoved(removed: string[]): string {
+  const counts = new Map<string, number>();
+  removed.forEach(item => counts.set(item, (counts.get(item) || 0) + 1));
+  return Array.from(counts, ([item, count]) => (count > 1 ? `${item} ×${count}` : item)).join(', ');
+}
+
 /**
  * Validate logo file type and readability
  *
  * Performs comprehensive validation including:
  * - File existence and readability
  * - Magic byte file type detection
- * - Format support check (PNG/JPEG/GIF)
+ * - Format support check (PNG/JPEG/GIF/SVG/WebP/AVIF)
+ * - SVG: .svg extension (browsers only render SVG served as image/svg+xml),
+ *   well-formed markup, and a warning listing anything sanitization removes
  * - File size warning (>10MB)
  *
  * @param filePath - Full path to logo file
@@ -112,10 +152,29 @@ export async function validateFile(filePath: string, fileName: string): Promise<
     // Check if format is supported
     if (!isSupportedFormat(result.fileType)) {
       result.isValid = false;
-      result.errorMessage = `Unsupported file format: ${result.fileType.toUpperCase()}. Supported formats: PNG, JPEG, GIF`;
+      result.errorMessage = `Unsupported file format: ${result.fileType.toUpperCase()}. Supported formats: ${describeSupportedFormats()}`;
       return result;
     }
 
+    if (result.fileType === 'svg') {
+      if (path.extname(fileName).toLowerCase() !== '.svg') {
+        result.isValid = false;
+        result.errorMessage = `SVG logo must have a .svg extension: ${fileName}`;
+        return result;
+      }
+
+      const sanitized = await readSanitizedSvg(filePath);
+      if (sanitized.error !== undefined) {
+        result.isValid = false;
+        result.errorMessage = `Invalid SVG: ${sanitized.error}`;
+        return result;
+      }
+
+      if (sanitized.removed.length > 0) {
+        result.warnings = [`SVG sanitized, removed: ${summarizeRemoved(sanitized.removed)}`];
+      }
+    }
+
     // File is valid
     result.isValid = true;
 
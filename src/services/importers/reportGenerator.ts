@@ -8,9 +8,17 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import type { Brand } from '../../types/brand';
-import type { ImportResult, ImportReport, ImportSummary, ImportInput } from '../../types/importer';
+import type {
+  BrandMergeSummary,
+  ImageFileType,
+  ImportResult,
+  ImportReport,
+  ImportSummary,
+  ImportInput
+} from '../../types/importer';
 import { ensureDirectory, resolvePath } from '../../utils/fileSystem';
 import { REPORT_JSON_FILENAME } from '../../types/importer';
+import { readSanitizedSvg } from './fileValidator';
 
 /**
  * Write brands.json file
@@ -44,7 +52,8 @@ export async function writeBrandsJSON(brands: Brand[], outputPath: string): Prom
  * Copy logo files to output directory
  *
  * Copies validated logo files from source directory to public/data/brands/logos/
- * Only copies files for successfully imported brands.
+ * Only copies files for successfully imported brands. SVG logos are written
+ * sanitized rather than copied.
  *
  * @param successfulResults - Results with valid brands
  * @param sourceDir - Source logos directory
@@ -68,8 +77,16 @@ export async function copyLogoFiles(
         const sourcePath = resolvePath(sourceDir, fileName);
         const destPath = resolvePath(destDir, fileName);
 
-        // Copy file
-        await fs.copyFile(sourcePath, destPath);
+        // Copy file (SVGs are rewritten without scripts and external references)
+        if (result.fileType === 'svg') {
+          const sanitized = await readSanitizedSvg(sourcePath);
+          if (sanitized.error !== undefined) {
+            throw new Error(`${fileName}: ${sanitized.error}`);
+          }
+          await fs.writeFile(destPath, sanitized.svg, 'utf-8');
+        } else {
+          await fs.copyFile(sourcePath, destPath);
+        }
         copiedCount++;
       }
     }
@@ -108,11 +125,20 @@ function generateSummary(results: ImportResult[], processingTimeMs: number): Imp
     }
   });
 
+  // Group imported logos by file type
+  const fileTypes: Partial<Record<ImageFileType, number>> = {};
+  results.forEach(r => {
+    if (r.status === 'success' && r.fileType) {
+      fileTypes[r.fileType] = (fileTypes[r.fileType] || 0) + 1;
+    }
+  });
+
   return {
     totalProcessed: results.length,
     successful,
     failed,
     errorBreakdown,
+    fileTypes,
     warnings: totalWarnings,
     processingTimeMs
   };
@@ -128,13 +154,15 @@ function generateSummary(results: ImportResult[], processingTimeMs: number): Imp
  * @param results - Array of import results
  * @param processingTimeMs - Total processing time
  * @param outputPaths - Generated output file paths
+ * @param merge - Merge counts when brands were merged into an existing brands.json
  * @returns Complete import report
  */
 export function generateReport(
   input: ImportInput,
   results: ImportResult[],
   processingTimeMs: number,
-  outputPaths: { brandsJson: string; logosDir: string }
+  outputPaths: { brandsJson: string; logosDir: string },
+  merge?: BrandMergeSummary
 ): ImportReport {
   return {
     timestamp: new Date().toISOString(),
@@ -145,6 +173,7 @@ export function generateReport(
     },
     results,
     summary: generateSummary(results, processingTimeMs),
+    ...(merge && { merge }),
     outputPaths
   };
 }
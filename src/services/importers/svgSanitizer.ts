@@ -0,0 +1,293 @@
+/**
+ * SVG checks and sanitization for imported logos
+ *
+ * Logos are served from our own origin, so an SVG with scripts or external
+ * references would run (or phone home) whenever a logo is opened directly.
+ * Imported SVGs are parsed with an XML parser (which also decodes entities
+ * and character references), then rebuilt from allowlisted SVG elements and
+ * attributes only. CSS is checked after decoding: escaped CSS is dropped and
+ * external url() references and stylesheet imports are removed.
+ */
+
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import type { Element, Node } from '@xmldom/xmldom';
+
+/**
+ * Sanitized markup and what was removed, or why the file was rejected
+ */
+export type SvgSanitizeResult =
+  | { svg: string; removed: string[]; error?: undefined }
+  | { svg?: undefined; removed?: undefined; error: string };
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+
+/**
+ * SVG-namespace elements kept; anything else is dropped along with its content
+ * (scripts, foreignObject, links, animations and elements in other namespaces)
+ */
+const ALLOWED_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'title', 'desc', 'metadata', 'symbol', 'use', 'switch', 'style', 'image',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+  'text', 'tspan', 'textPath',
+  'linearGradient', 'radialGradient', 'stop', 'pattern', 'clipPath', 'mask', 'marker',
+  'filter', 'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite', 'feConvolveMatrix',
+  'feDiffuseLighting', 'feDisplacementMap', 'feDistantLight', 'feDropShadow', 'feFlood',
+  'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR', 'feGaussianBlur', 'feMerge', 'feMergeNode',
+  'feMorphology', 'feOffset', 'fePointLight', 'feSpecularLighting', 'feSpotLight', 'feTile',
+  'feTurbulence',
+]);
+
+/**
+ * Attributes (without a namespace) kept on allowed elements
+ */
+const ALLOWED_ATTRIBUTES = new Set([
+  // Core and structure
+  'id', 'class', 'style', 'lang', 'version', 'baseProfile', 'viewBox', 'preserveAspectRatio',
+  'transform', 'systemLanguage', 'type', 'media',
+  // Geometry
+  'x', 'y', 'width', 'height', 'cx', 'cy', 'r', 'rx', 'ry', 'x1', 'y1', 'x2', 'y2', 'd',
+  'points', 'pathLength', 'dx', 'dy', 'rotate', 'textLength', 'lengthAdjust', 'startOffset',
+  'method', 'spacing', 'side',
+  // Gradients, patterns, clipping, masking and markers
+  'gradientUnits', 'gradientTransform', 'spreadMethod', 'fx', 'fy', 'fr', 'offset',
+  'patternUnits', 'patternContentUnits', 'patternTransform', 'clipPathUnits', 'maskUnits',
+  'maskContentUnits', 'markerUnits', 'markerWidth', 'markerHeight', 'refX', 'refY', 'orient',
+  // Filters
+  'filterUnits', 'primitiveUnits', 'in', 'in2', 'result', 'stdDeviation', 'mode', 'operator',
+  'k1', 'k2', 'k3', 'k4', 'values', 'tableValues', 'slope', 'intercept', 'amplitude', 'exponent',
+  'baseFrequency', 'numOctaves', 'seed', 'stitchTiles', 'scale', 'xChannelSelector',
+  'yChannelSelector', 'radius', 'kernelMatrix', 'kernelUnitLength', 'order', 'divisor', 'bias',
+  'targetX', 'targetY', 'edgeMode', 'preserveAlpha', 'surfaceScale', 'diffuseConstant',
+  'specularConstant', 'specularExponent', 'azimuth', 'elevation', 'pointsAtX', 'pointsAtY',
+  'pointsAtZ', 'limitingConeAngle', 'z',
+  // Presentation
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity',
+  'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit', 'stroke-dasharray',
+  'stroke-dashoffset', 'opacity', 'color', 'display', 'visibility', 'overflow', 'clip',
+  'clip-path', 'clip-rule', 'mask', 'filter', 'marker-start', 'marker-mid', 'marker-end',
+  'stop-color', 'stop-opacity', 'flood-color', 'flood-opacity', 'lighting-color',
+  'font-family', 'font-size', 'font-size-adjust', 'font-weight', 'font-style', 'font-variant',
+  'font-stretch', 'text-anchor', 'text-decoration', 'dominant-baseline', 'alignment-baseline',
+  'baseline-shift', 'letter-spacing', 'word-spacing', 'writing-mode', 'direction',
+  'unicode-bidi', 'color-interpolation', 'color-interpolation-filters', 'shape-rendering',
+  'text-rendering', 'image-rendering', 'paint-order', 'vector-effect', 'mix-blend-mode',
+  'isolation', 'transform-origin',
+]);
+
+/**
+ * Inline data allowed in href/url() (raster images only; nested SVG could carry scripts)
+ */
+const SAFE_DATA_URL = /^data:image\/(png|jpeg|gif|webp|avif)[;,]/i;
+
+/**
+ * CSS functions that load resources without url()
+ */
+const UNSAFE_CSS_FUNCTIONS = /\b(image-set|image|cross-fade|element|expression)\s*\(/i;
+
+/**
+ * Quick check whether text is SVG markup (root element <svg>)
+ * Used for detection, since SVG has no magic bytes
+ *
+ * @param text - Start of the file
+ */
+export function isSvgMarkup(text: string): boolean {
+  return /^\uFEFF?\s*(<\?xml[\s\S]*?\?>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>\s*)*<(svg:)?svg[\s>/]/i.test(text);
+}
+
+function isSafeReference(value: string): boolean {
+  const trimmed = value.trim();
+  return trimmed.startsWith('#') || SAFE_DATA_URL.test(trimmed);
+}
+
+/**
+ * Parse markup into a document
+ *
+ * @returns Root element, or an error message for markup that is not well-formed
+ */
+function parseSvg(text: string): Element | string {
+  if (/<!DOCTYPE[^>]*\[/i.test(text)) {
+    return 'DOCTYPE declarations with entities are not allowed';
+  }
+
+  let parseError: string | undefined;
+  const parser = new DOMParser({
+    onError: (level, message) => {
+      // Warnings (e.g. unusual whitespace) are harmless; anything else rejects the file
+      if (level !== 'warning') {
+        parseError = parseError ?? message.replace(/^\[xmldom \w+\]\s*/, '').split('\n')[0].trim();
+      }
+    },
+  });
+
+  let root: Element | null;
+  try {
+    root = parser.parseFromString(text, 'image/svg+xml').documentElement;
+  } catch (error) {
+    return parseError ?? (error instanceof Error ? error.message : 'Malformed markup');
+  }
+
+  if (parseError) return parseError;
+  if (!root) return 'No <svg> root element';
+  if (root.localName !== 'svg' || root.namespaceURI !== SVG_NS) {
+    return `Root element must be <svg> in the SVG namespace, found <${root.nodeName}>`;
+  }
+  return root;
+}
+
+/**
+ * Remove stylesheet imports and external url() references from CSS
+ *
+ * @returns Cleaned CSS, or null if the CSS must be dropped entirely
+ */
+function sanitizeCss(css: string, removed: string[]): string | null {
+  const text = css.replace(/\/\*[\s\S]*?(\*\/|$)/g, '');
+
+  // Escapes (u\72l, @\69mport) would get past the checks below
+  if (text.includes('\\')) {
+    removed.push('escaped CSS');
+    return null;
+  }
+
+  if (UNSAFE_CSS_FUNCTIONS.test(text)) {
+    removed.push('external CSS image');
+    return null;
+  }
+
+  const cleaned = text
+    .replace(/@import\b[^;]*;?/gi, () => {
+      removed.push('@import rule');
+      return '';
+    })
+    .replace(/url\(\s*("[^"]*"|'[^']*'|[^'")]*)\s*\)/gi, (match, url: string) => {
+      if (isSafeReference(url.replace(/^(['"])([\s\S]*)\1$/, '$2'))) return match;
+      removed.push('external url()');
+      return 'none';
+    });
+
+  // Anything the patterns above could not parse
+  if (/url\((?![\s'"]*(#|data:image\/(png|jpeg|gif|webp|avif)[;,]))/i.test(cleaned)) {
+    removed.push('external url()');
+    return null;
+  }
+  return cleaned;
+}
+
+/**
+ * Filter an element's attributes
+ */
+function sanitizeAttributes(element: Element, removed: string[]): void {
+  for (const attribute of Array.from(element.attributes)) {
+    const { name, namespaceURI, localName, value } = attribute;
+    let keep: boolean;
+
+    if (namespaceURI === XMLNS_NS) {
+      // Declarations for namespaces whose content is removed anyway
+      keep = value === SVG_NS || value === XLINK_NS;
+    } else if ((namespaceURI === null && localName === 'href') || (namespaceURI === XLINK_NS && localName === 'href')) {
+      keep = isSafeReference(value);
+      if (!keep) removed.push('external reference');
+    } else if (namespaceURI === XML_NS && localName === 'space') {
+      keep = true;
+    } else if (namespaceURI === null && ALLOWED_ATTRIBUTES.has(name)) {
+      if (name === 'style' || /url\(/i.test(value)) {
+        const css = sanitizeCss(value, removed);
+        keep = css !== null;
+        if (css !== null && css !== value) element.setAttribute(name, css);
+      } else {
+        keep = true;
+      }
+    } else {
+      keep = false;
+      removed.push(`${name} attribute`);
+    }
+
+    if (!keep) element.removeAttributeNode(attribute);
+  }
+}
+
+/**
+ * Sanitize a <style> element's text
+ *
+ * @returns Whether the element is kept
+ */
+function sanitizeStyleElement(element: Element, removed: string[]): boolean {
+  const css = sanitizeCss(element.textContent ?? '', removed);
+  if (css === null) return false;
+
+  element.textContent = css;
+  return true;
+}
+
+/**
+ * Remove disallowed content below an element
+ */
+function sanitizeChildren(parent: Node, removed: string[]): void {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === child.ELEMENT_NODE) {
+      const element = child as Element;
+      const allowed = element.namespaceURI === SVG_NS && ALLOWED_ELEMENTS.has(element.localName ?? '');
+      if (!allowed || (element.localName === 'style' && !sanitizeStyleElement(element, removed))) {
+        if (!allowed) removed.push(`<${element.nodeName}>`);
+        parent.removeChild(child);
+        continue;
+      }
+
+      sanitizeAttributes(element, removed);
+      sanitizeChildren(element, removed);
+    } else if (child.nodeType === child.PROCESSING_INSTRUCTION_NODE) {
+      removed.push('processing instruction');
+      parent.removeChild(child);
+    } else if (child.nodeType === child.COMMENT_NODE) {
+      parent.removeChild(child);
+    }
+  }
+}
+
+/**
+ * Give the root element a width/height from its viewBox when it has neither,
+ * so <img> and canvas render it at its intended size
+ */
+function withIntrinsicSize(root: Element): void {
+  const viewBox = root.getAttribute('viewBox');
+  if (root.hasAttribute('width') || root.hasAttribute('height') || !viewBox) return;
+
+  const [, , width, height] = viewBox.trim().split(/[\s,]+/).map(Number);
+  if (!(width > 0) || !(height > 0)) return;
+
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+}
+
+/**
+ * Check and sanitize SVG markup
+ *
+ * Rejects markup that is not well-formed, has no <svg> root in the SVG
+ * namespace or declares entities. Keeps only allowlisted SVG elements and
+ * attributes, fragment (#id) or raster data: href references, and CSS without
+ * escapes, @import or external url(). Comments and processing instructions
+ * are dropped.
+ *
+ * @param text - SVG file contents
+ * @returns Sanitized markup and a list of removed items, or an error
+ *
+ * @example
+ * sanitizeSvg('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10" onload="alert(1)"><script>x()</script></svg>')
+ * // { svg: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10" width="10" height="10"/>',
+ * //   removed: ['onload attribute', '<script>'] }
+ */
+export function sanitizeSvg(text: string): SvgSanitizeResult {
+  const root = parseSvg(text.replace(/^\uFEFF/, ''));
+  if (typeof root === 'string') {
+    return { error: root };
+  }
+
+  const removed: string[] = [];
+  sanitizeAttributes(root, removed);
+  sanitizeChildren(root, removed);
+  withIntrinsicSize(root);
+
+  return { svg: new XMLSerializer().serializeToString(root), removed };
+}
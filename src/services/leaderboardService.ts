@@ -0,0 +1,144 @@
+/**
+ * Leaderboard Service
+ * Feature: 004-quarterly-data-association
+ *
+ * Ranks brands by any metric within a quarter, with rank movement versus
+ * the previous available quarter. Built on the full quarter files.
+ */
+
+import type { Brand, BrandCategory } from '../types/brand';
+import type {
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardOptions,
+  MetricKey,
+  RankDirection,
+} from '../types/quarterlyData';
+import { firstRecordPerBrand, quarterlyDataLoader } from './quarterlyDataLoader';
+import { getBrandsById } from './brandLoader';
+import { isMetricKey } from '../utils/metricRegistry';
+
+export class UnknownMetricError extends Error {
+  constructor(metric: string) {
+    super(`Unknown metric: ${metric}`);
+    this.name = 'UnknownMetricError';
+  }
+}
+
+interface RankedBrand {
+  rank: number;
+  brand: Brand;
+  value: number;
+}
+
+/**
+ * Leaderboard Service Implementation
+ */
+class LeaderboardService {
+  /**
+   * Rank every brand with a value for the metric in one quarter
+   * Ties share a rank (standard competition ranking: 1, 2, 2, 4)
+   */
+  private async rankQuarter(
+    quarter: string,
+    metric: MetricKey,
+    category: BrandCategory | null,
+    direction: RankDirection
+  ): Promise<RankedBrand[]> {
+    const [quarterData, brandsById] = await Promise.all([
+      quarterlyDataLoader.loadQuarter(quarter),
+      getBrandsById(),
+    ]);
+
+    const candidates: Array<{ brand: Brand; value: number }> = [];
+
+    for (const record of firstRecordPerBrand(quarterData.records).values()) {
+      const brand = brandsById.get(record.brandId);
+      const value = record.metrics[metric];
+
+      if (!brand || value === null) continue;
+      if (category && brand.category !== category) continue;
+
+      candidates.push({ brand, value });
+    }
+
+    const sign = direction === 'desc' ? -1 : 1;
+    candidates.sort(
+      (a, b) => sign * (a.value - b.value) || a.brand.name.localeCompare(b.brand.name)
+    );
+
+    const ranked: RankedBrand[] = [];
+    candidates.forEach((candidate, index) => {
+      const previous = ranked[index - 1];
+      const rank = previous && previous.value === candidate.value ? previous.rank : index + 1;
+      ranked.push({ rank, ...candidate });
+    });
+
+    return ranked;
+  }
+
+  /**
+   * Get the leaderboard for a metric in a quarter
+   *
+   * @example
+   * const top = await leaderboardService.getLeaderboard('2009Q2', 'Brand_Strength_C', { limit: 10 });
+   * top.entries[0].brand.name // highest Brand Strength in 2009Q2
+   */
+  async getLeaderboard(
+    quarter: string,
+    metric: string,
+    options: LeaderboardOptions = {}
+  ): Promise<Leaderboard> {
+    if (!isMetricKey(metric)) {
+      throw new UnknownMetricError(metric);
+    }
+
+    const normalizedQuarter = quarter.toUpperCase();
+    const direction = options.direction || 'desc';
+    const category = options.category || null;
+
+    const quarters = await quarterlyDataLoader.getAvailableQuarters();
+    const quarterIndex = quarters.indexOf(normalizedQuarter);
+    const earlierQuarter = quarterIndex > 0 ? quarters[quarterIndex - 1] : null;
+
+    const [ranked, previousRanked] = await Promise.all([
+      this.rankQuarter(normalizedQuarter, metric, category, direction),
+      earlierQuarter
+        ? this.rankQuarter(earlierQuarter, metric, category, direction).catch(error => {
+            // Rank change is optional - still return the leaderboard, without it
+            console.warn(`[leaderboardService] Could not rank ${earlierQuarter}:`, error);
+            return null;
+          })
+        : Promise.resolve(null),
+    ]);
+
+    const previousQuarter = previousRanked ? earlierQuarter : null;
+    const previousRanks = new Map((previousRanked ?? []).map(entry => [entry.brand.id, entry.rank]));
+    const limited = options.limit !== undefined ? ranked.slice(0, options.limit) : ranked;
+
+    const entries: LeaderboardEntry[] = limited.map(entry => {
+      const previousRank = previousRanks.get(entry.brand.id) ?? null;
+
+      return {
+        rank: entry.rank,
+        brand: entry.brand,
+        value: entry.value,
+        previousRank,
+        rankChange: previousRank !== null ? previousRank - entry.rank : null,
+      };
+    });
+
+    return {
+      quarter: normalizedQuarter,
+      metric,
+      direction,
+      category,
+      previousQuarter,
+      totalRanked: ranked.length,
+      entries,
+    };
+  }
+}
+
+// Export singleton instance
+export const leaderboardService = new LeaderboardService();
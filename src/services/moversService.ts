@@ -0,0 +1,176 @@
+/**
+ * Movers Service
+ * Feature: 004-quarterly-data-association
+ *
+ * Flags quarter-over-quarter metric changes that are unusually large, as
+ * z-scores against the brand's own earlier changes and against the changes
+ * of its CSV category peers in the same quarter.
+ */
+
+import type {
+  MetricKey,
+  MoverOptions,
+  NotableMove,
+  QuarterMovers,
+  QuarterlyDataRecord,
+} from '../types/quarterlyData';
+import { firstRecordPerBrand, quarterlyDataLoader } from './quarterlyDataLoader';
+import { getBrandsById } from './brandLoader';
+import { UnknownMetricError } from './leaderboardService';
+import { METRIC_KEYS, getChangeDirection, isMetricKey } from '../utils/metricRegistry';
+import { surveyCategoryKey } from '../utils/benchmarks';
+
+const DEFAULT_LIMIT = 10;
+const DEFAULT_MIN_Z = 2;
+// Categories with fewer movers than this are compared with every brand instead
+const MIN_CATEGORY_PEERS = 5;
+// Earlier changes needed before a brand's own history is used
+const MIN_HISTORY = 3;
+const ALL_BRANDS = 'All brands';
+
+/**
+ * z-score of a value within a sample, or null when the sample has no spread
+ * Uses the sample standard deviation - histories are short
+ */
+function zScore(value: number, sample: number[]): number | null {
+  if (sample.length < 2) return null;
+
+  const mean = sample.reduce((sum, v) => sum + v, 0) / sample.length;
+  const variance = sample.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (sample.length - 1);
+  const sd = Math.sqrt(variance);
+
+  return sd > 0 ? Math.round(((value - mean) / sd) * 100) / 100 : null;
+}
+
+/**
+ * Change in a metric between two records, or null if either value is missing
+ */
+function metricChange(
+  previous: QuarterlyDataRecord | undefined,
+  current: QuarterlyDataRecord | undefined,
+  metric: MetricKey
+): number | null {
+  const before = previous?.metrics[metric] ?? null;
+  const after = current?.metrics[metric] ?? null;
+  return before !== null && after !== null ? after - before : null;
+}
+
+/**
+ * Movers Service Implementation
+ */
+class MoversService {
+  /**
+   * Get the most unusual risers and fallers between a quarter and the previous one
+   *
+   * @example
+   * const movers = await moversService.getNotableMovers('2009Q2', { metrics: ['Brand_Strength_C'] });
+   * movers.fallers[0] // e.g. { brand, change: -1.42, categoryZ: -2.8, historyZ: -3.1, ... }
+   */
+  async getNotableMovers(quarter: string, options: MoverOptions = {}): Promise<QuarterMovers> {
+    const metrics = options.metrics ?? METRIC_KEYS;
+    for (const metric of metrics) {
+      if (!isMetricKey(metric)) {
+        throw new UnknownMetricError(metric);
+      }
+    }
+
+    const normalizedQuarter = quarter.toUpperCase();
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const minZ = options.minZ ?? DEFAULT_MIN_Z;
+
+    const quarters = await quarterlyDataLoader.getAvailableQuarters();
+    const quarterIndex = quarters.indexOf(normalizedQuarter);
+    if (quarterIndex <= 0) {
+      // Unknown quarters still fail loudly; the first quarter just has no moves
+      if (quarterIndex < 0) await quarterlyDataLoader.loadQuarter(normalizedQuarter);
+      return {
+        quarter: normalizedQuarter,
+        previousQuarter: null,
+        totalNotable: 0,
+        risers: [],
+        fallers: [],
+      };
+    }
+
+    // Every quarter up to this one - earlier pairs are the brands' history
+    const history = quarters.slice(0, quarterIndex + 1);
+    const [quarterData, brandsById] = await Promise.all([
+      quarterlyDataLoader.loadQuarters(history),
+      getBrandsById(),
+    ]);
+    const records = history.map(q => firstRecordPerBrand(quarterData.get(q)?.records ?? []));
+    const current = records[quarterIndex];
+    const previous = records[quarterIndex - 1];
+
+    const moves: NotableMove[] = [];
+
+    for (const metric of metrics) {
+      // This quarter's changes, overall and per CSV category
+      const changes = new Map<string, number>();
+      const changesByCategory = new Map<string, number[]>();
+
+      for (const [brandId, record] of current) {
+        const change = metricChange(previous.get(brandId), record, metric);
+        if (change === null) continue;
+
+        changes.set(brandId, change);
+        const key = surveyCategoryKey(record.category);
+        changesByCategory.set(key, [...(changesByCategory.get(key) ?? []), change]);
+      }
+
+      const allChanges = Array.from(changes.values());
+
+      for (const [brandId, change] of changes) {
+        const brand = brandsById.get(brandId);
+        const record = current.get(brandId) as QuarterlyDataRecord;
+        if (!brand) continue;
+
+        const categoryChanges = changesByCategory.get(surveyCategoryKey(record.category)) ?? [];
+        const useCategory = categoryChanges.length >= MIN_CATEGORY_PEERS;
+        const categoryZ = zScore(change, useCategory ? categoryChanges : allChanges);
+
+        const ownChanges: number[] = [];
+        for (let i = 1; i < quarterIndex; i++) {
+          const earlier = metricChange(records[i - 1].get(brandId), records[i].get(brandId), metric);
+          if (earlier !== null) ownChanges.push(earlier);
+        }
+        const historyZ = ownChanges.length >= MIN_HISTORY ? zScore(change, ownChanges) : null;
+
+        const strength = Math.max(Math.abs(categoryZ ?? 0), Math.abs(historyZ ?? 0));
+        if (strength < minZ) continue;
+
+        moves.push({
+          brand,
+          metric,
+          value: record.metrics[metric] as number,
+          previousValue: previous.get(brandId)?.metrics[metric] as number,
+          change: Math.round(change * 100) / 100,
+          categoryZ,
+          peerGroup: useCategory ? record.category.trim() : ALL_BRANDS,
+          historyZ,
+          strength,
+        });
+      }
+    }
+
+    const byStrength = (a: NotableMove, b: NotableMove) =>
+      b.strength - a.strength || a.brand.name.localeCompare(b.brand.name);
+
+    return {
+      quarter: normalizedQuarter,
+      previousQuarter: quarters[quarterIndex - 1],
+      totalNotable: moves.length,
+      risers: moves
+        .filter(move => getChangeDirection(move.change, move.metric) === 'positive')
+        .sort(byStrength)
+        .slice(0, limit),
+      fallers: moves
+        .filter(move => getChangeDirection(move.change, move.metric) === 'negative')
+        .sort(byStrength)
+        .slice(0, limit),
+    };
+  }
+}
+
+// Export singleton instance
+export const moversService = new MoversService();
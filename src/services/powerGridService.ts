@@ -0,0 +1,67 @@
+/**
+ * Power Grid Service
+ * Feature: 004-quarterly-data-association
+ *
+ * Positions brands by two metrics within a quarter for the scatter plot
+ * explorer (by default the BAV Stature × Strength power grid).
+ */
+
+import type { MetricScatter, MetricScatterPoint } from '../types/quarterlyData';
+import { firstRecordPerBrand, quarterlyDataLoader } from './quarterlyDataLoader';
+import { getBrandsById } from './brandLoader';
+import { UnknownMetricError } from './leaderboardService';
+import { isMetricKey } from '../utils/metricRegistry';
+import { computeMetricBenchmark } from '../utils/benchmarks';
+
+/**
+ * Power Grid Service Implementation
+ */
+class PowerGridService {
+  /**
+   * Get every brand with values for both metrics in a quarter
+   *
+   * @example
+   * const grid = await powerGridService.getScatter('2009Q2', 'Brand_Stature_C', 'Brand_Strength_C');
+   * grid.medians // { x: 3.1, y: 6.4 } - quadrant lines
+   */
+  async getScatter(quarter: string, xMetric: string, yMetric: string): Promise<MetricScatter> {
+    if (!isMetricKey(xMetric)) {
+      throw new UnknownMetricError(xMetric);
+    }
+    if (!isMetricKey(yMetric)) {
+      throw new UnknownMetricError(yMetric);
+    }
+
+    const normalizedQuarter = quarter.toUpperCase();
+    const [quarterData, brandsById] = await Promise.all([
+      quarterlyDataLoader.loadQuarter(normalizedQuarter),
+      getBrandsById(),
+    ]);
+
+    const points: MetricScatterPoint[] = [];
+
+    for (const record of firstRecordPerBrand(quarterData.records).values()) {
+      const brand = brandsById.get(record.brandId);
+      const x = record.metrics[xMetric];
+      const y = record.metrics[yMetric];
+
+      if (brand && x !== null && y !== null) {
+        points.push({ brand, x, y });
+      }
+    }
+
+    const xBenchmark = computeMetricBenchmark(points.map(p => p.x));
+    const yBenchmark = computeMetricBenchmark(points.map(p => p.y));
+
+    return {
+      quarter: normalizedQuarter,
+      xMetric,
+      yMetric,
+      points,
+      medians: xBenchmark && yBenchmark ? { x: xBenchmark.median, y: yBenchmark.median } : null,
+    };
+  }
+}
+
+// Export singleton instance
+export const powerGridService = new PowerGridService();
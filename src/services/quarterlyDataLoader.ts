@@ -6,7 +6,14 @@
  * Implements IQuarterlyDataLoader contract
  */
 
-import type { QuarterlyData, QuarterIndex } from '../types/quarterlyData';
+import type {
+  QuarterlyData,
+  QuarterIndex,
+  BrandQuarterlySeries,
+  BrandAvailabilityManifest,
+  QuarterBenchmarks,
+  QuarterlyDataRecord,
+} from '../types/quarterlyData';
 
 // Error classes
 export class QuarterNotFoundError extends Error {
@@ -30,6 +37,41 @@ export class QuarterIndexLoadError extends Error {
   }
 }
 
+export class BrandSeriesNotFoundError extends Error {
+  constructor(brandId: string) {
+    super(`Brand time series not found: ${brandId}`);
+    this.name = 'BrandSeriesNotFoundError';
+  }
+}
+
+export class BrandAvailabilityLoadError extends Error {
+  constructor(reason: string) {
+    super(`Failed to load brand availability manifest: ${reason}`);
+    this.name = 'BrandAvailabilityLoadError';
+  }
+}
+
+export class BenchmarksNotFoundError extends Error {
+  constructor(quarter: string) {
+    super(`Category benchmarks not found: ${quarter}`);
+    this.name = 'BenchmarksNotFoundError';
+  }
+}
+
+/**
+ * First record per brand in a quarter, in file order
+ * A brand can match several CSV rows - first match wins, as in the brand shards
+ */
+export function firstRecordPerBrand(records: QuarterlyDataRecord[]): Map<string, QuarterlyDataRecord> {
+  const byBrand = new Map<string, QuarterlyDataRecord>();
+  for (const record of records) {
+    if (!byBrand.has(record.brandId)) {
+      byBrand.set(record.brandId, record);
+    }
+  }
+  return byBrand;
+}
+
 /**
  * Performance metrics interface
  */
@@ -51,6 +93,9 @@ class QuarterlyDataLoader {
   private baseUrl = '/assets/data/quarterly/';
   private cache: Map<string, QuarterlyData> = new Map();
   private indexCache: QuarterIndex | null = null;
+  private brandSeriesCache: Map<string, BrandQuarterlySeries> = new Map();
+  private brandAvailabilityCache: BrandAvailabilityManifest | null = null;
+  private benchmarksCache: Map<string, QuarterBenchmarks> = new Map();
 
   // T037: Performance monitoring
   private performanceMetrics: PerformanceMetrics = {
@@ -218,6 +263,133 @@ class QuarterlyDataLoader {
     return map;
   }
 
+  /**
+   * Load the brand → quarters availability and coverage manifest
+   * Lets callers answer "which quarters does this brand have?" without any quarter payloads
+   */
+  async loadBrandAvailability(): Promise<BrandAvailabilityManifest> {
+    if (this.brandAvailabilityCache) {
+      return this.brandAvailabilityCache;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}brands/index.json`);
+
+      if (!response.ok) {
+        throw new BrandAvailabilityLoadError(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+
+      // Validate manifest structure
+      if (!data.brands || typeof data.brands !== 'object' || !Array.isArray(data.quarters)) {
+        throw new BrandAvailabilityLoadError('Invalid manifest structure: missing brands map');
+      }
+
+      this.brandAvailabilityCache = data as BrandAvailabilityManifest;
+      return this.brandAvailabilityCache;
+    } catch (error) {
+      if (error instanceof BrandAvailabilityLoadError) {
+        throw error;
+      }
+      throw new BrandAvailabilityLoadError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Load the time series for a single brand across all quarters
+   * Much smaller than loading every quarter file; results are cached in memory
+   */
+  async loadBrandSeries(brandId: string): Promise<BrandQuarterlySeries> {
+    if (this.brandSeriesCache.has(brandId)) {
+      return this.brandSeriesCache.get(brandId)!;
+    }
+
+    const startTime = performance.now();
+
+    try {
+      const response = await fetch(`${this.baseUrl}brands/${encodeURIComponent(brandId)}.json`);
+
+      if (response.status === 404) {
+        throw new BrandSeriesNotFoundError(brandId);
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+
+      // Validate series structure (also rejects SPA index.html fallbacks)
+      if (data.brandId !== brandId || !Array.isArray(data.records)) {
+        throw new BrandSeriesNotFoundError(brandId);
+      }
+
+      const series = data as BrandQuarterlySeries;
+      this.brandSeriesCache.set(brandId, series);
+
+      const loadTime = performance.now() - startTime;
+      if (loadTime > this.PERFORMANCE_THRESHOLD_MS) {
+        console.warn(
+          `[quarterlyDataLoader] Slow brand series load detected: ${brandId} took ${loadTime.toFixed(0)}ms (threshold: ${this.PERFORMANCE_THRESHOLD_MS}ms)`
+        );
+      }
+
+      return series;
+    } catch (error) {
+      if (error instanceof BrandSeriesNotFoundError) {
+        throw error;
+      }
+      throw new Error(`Failed to load brand series ${brandId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Load category benchmarks for a quarter (cached)
+   */
+  async loadQuarterBenchmarks(quarter: string): Promise<QuarterBenchmarks> {
+    const normalizedQuarter = quarter.toUpperCase();
+
+    if (this.benchmarksCache.has(normalizedQuarter)) {
+      return this.benchmarksCache.get(normalizedQuarter)!;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}benchmarks/${normalizedQuarter}.json`);
+
+      if (response.status === 404) {
+        throw new BenchmarksNotFoundError(normalizedQuarter);
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+
+      // Validate benchmarks structure (also rejects SPA index.html fallbacks)
+      if (data.quarter !== normalizedQuarter || !data.categories || typeof data.categories !== 'object') {
+        throw new BenchmarksNotFoundError(normalizedQuarter);
+      }
+
+      const benchmarks = data as QuarterBenchmarks;
+      this.benchmarksCache.set(normalizedQuarter, benchmarks);
+      return benchmarks;
+    } catch (error) {
+      if (error instanceof BenchmarksNotFoundError) {
+        throw error;
+      }
+      throw new Error(`Failed to load benchmarks ${normalizedQuarter}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Check if a brand's time series is already loaded in cache
+   */
+  isBrandSeriesCached(brandId: string): boolean {
+    return this.brandSeriesCache.has(brandId);
+  }
+
   /**
    * Check if a quarter is already loaded in cache
    */
@@ -231,6 +403,9 @@ class QuarterlyDataLoader {
   clearCache(): void {
     this.cache.clear();
     this.indexCache = null;
+    this.brandSeriesCache.clear();
+    this.brandAvailabilityCache = null;
+    this.benchmarksCache.clear();
   }
 
   /**
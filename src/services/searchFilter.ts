@@ -1,21 +1,16 @@
 import type { Brand, BrandCategory, SortOption } from '@/types/brand';
-import { brandAssociationService } from './brandAssociationService';
+import type { GridFilterState } from '@/types/routes';
+import { getAllCategories } from '@/utils/categoryInference';
+import { brandAvailabilityIndex } from './brandAvailabilityIndex';
+import { searchBrandsRanked } from './brandSearch';
 
+/**
+ * Ranked, typo-tolerant search over name, tags and description
+ * Returns matching brands ordered by relevance (all brands for a blank query)
+ */
 export function searchBrands(brands: Brand[], query: string): Brand[] {
   if (!query.trim()) return brands;
-
-  const lowerQuery = query.toLowerCase();
-  return brands.filter((brand) => {
-    const searchableText = [
-      brand.name,
-      brand.description || '',
-      ...(brand.tags || []),
-    ]
-      .join(' ')
-      .toLowerCase();
-
-    return searchableText.includes(lowerQuery);
-  });
+  return searchBrandsRanked(brands, query).map((result) => result.brand);
 }
 
 export function filterByCategory(brands: Brand[], categories: BrandCategory[]): Brand[] {
@@ -27,6 +22,9 @@ export function sortBrands(brands: Brand[], option: SortOption): Brand[] {
   const sorted = [...brands];
 
   switch (option) {
+    case 'relevance':
+      // Input order is already ranked by searchBrands
+      return sorted;
     case 'alphabetical-asc':
       return sorted.sort((a, b) => a.name.localeCompare(b.name));
     case 'alphabetical-desc':
@@ -49,73 +47,86 @@ export function sortBrands(brands: Brand[], option: SortOption): Brand[] {
 /**
  * T031: Filter brands by quarterly data availability
  * Returns brands that have at least one quarter of quarterly data
+ * Requires brandAvailabilityIndex.load() to have resolved
  */
-export async function filterByQuarterlyDataAvailability(
-  brands: Brand[],
-  hasData: boolean
-): Promise<Brand[]> {
+export function filterByQuarterlyDataAvailability(brands: Brand[], hasData: boolean): Brand[] {
   if (!hasData) {
     // If filter is "show brands without data", return all brands
     // (or inverse logic - but typically we want to show brands WITH data)
     return brands;
   }
 
-  // Get brands with quarterly data
-  const brandsWithData: Brand[] = [];
-
-  for (const brand of brands) {
-    try {
-      const brandData = await brandAssociationService.getBrandWithQuarterlyData(brand.id);
-      if (brandData.availableQuarters.length > 0) {
-        brandsWithData.push(brand);
-      }
-    } catch (error) {
-      // Brand has no data or error loading - skip it
-      continue;
-    }
-  }
-
-  return brandsWithData;
+  return brands.filter((brand) => brandAvailabilityIndex.hasData(brand.id));
 }
 
 /**
  * T034: Filter brands by specific quarter
  * Returns brands that have data available for the specified quarter
+ * Requires brandAvailabilityIndex.load() to have resolved
  */
-export async function filterBySpecificQuarter(
-  brands: Brand[],
-  quarter: string
-): Promise<Brand[]> {
+export function filterBySpecificQuarter(brands: Brand[], quarter: string): Brand[] {
   if (!quarter) {
     return brands;
   }
 
-  const brandsWithQuarterData: Brand[] = [];
-
-  for (const brand of brands) {
-    try {
-      const brandData = await brandAssociationService.getBrandWithQuarterlyData(brand.id, [quarter]);
-      if (brandData.availableQuarters.includes(quarter)) {
-        brandsWithQuarterData.push(brand);
-      }
-    } catch (error) {
-      // Brand has no data for this quarter - skip it
-      continue;
-    }
-  }
-
-  return brandsWithQuarterData;
+  return brands.filter((brand) => brandAvailabilityIndex.hasDataInQuarter(brand.id, quarter));
 }
 
 /**
  * T031: Get quarter count for a brand
  * Helper function to get the number of available quarters for a brand
+ * Requires brandAvailabilityIndex.load() to have resolved
  */
-export async function getQuarterCountForBrand(brandId: string): Promise<number> {
-  try {
-    const brandData = await brandAssociationService.getBrandWithQuarterlyData(brandId);
-    return brandData.availableQuarters.length;
-  } catch (error) {
-    return 0;
-  }
+export function getQuarterCountForBrand(brandId: string): number {
+  return brandAvailabilityIndex.getQuarterCount(brandId);
+}
+
+/**
+ * Apply every grid filter criterion (without sorting)
+ * Order: search → category → quarterly data availability → specific quarter
+ * Quarterly criteria require brandAvailabilityIndex.load() to have resolved
+ */
+export function filterBrands(brands: Brand[], filters: GridFilterState): Brand[] {
+  let result = searchBrands(brands, filters.search);
+  result = filterByCategory(result, filters.categories);
+  result = filterByQuarterlyDataAvailability(result, filters.dataOnly);
+  result = filterBySpecificQuarter(result, filters.quarter);
+  return result;
+}
+
+/**
+ * Full grid pipeline: filterBrands followed by sortBrands
+ */
+export function applyGridFilters(brands: Brand[], filters: GridFilterState): Brand[] {
+  // Without a query there is nothing to rank by - fall back to alphabetical
+  const sort =
+    filters.sort === 'relevance' && !filters.search.trim() ? 'alphabetical-asc' : filters.sort;
+  return sortBrands(filterBrands(brands, filters), sort);
+}
+
+/**
+ * Count brands per category (every BrandCategory is present, possibly 0)
+ */
+export function countByCategory(brands: Brand[]): Record<BrandCategory, number> {
+  const counts = Object.fromEntries(getAllCategories().map((category) => [category, 0])) as Record<
+    BrandCategory,
+    number
+  >;
+
+  brands.forEach((brand) => {
+    counts[brand.category] = (counts[brand.category] || 0) + 1;
+  });
+
+  return counts;
+}
+
+/**
+ * Live category facet counts: brands matching every other filter, per category
+ * (the category facet itself is ignored so counts show what selecting it would add)
+ */
+export function getCategoryFacetCounts(
+  brands: Brand[],
+  filters: GridFilterState
+): Record<BrandCategory, number> {
+  return countByCategory(filterBrands(brands, { ...filters, categories: [] }));
 }
@@ -0,0 +1,210 @@
+/**
+ * Similarity Service
+ * Feature: 004-quarterly-data-association
+ *
+ * Finds brands perceived similarly to a brand: each brand's metrics in a
+ * quarter form a vector, normalized per metric across the quarter, and
+ * neighbours are ranked by distance over the metrics both brands share.
+ */
+
+import type { Brand } from '../types/brand';
+import type {
+  BrandMetrics,
+  BrandSimilarity,
+  MetricKey,
+  SimilarBrand,
+  SimilarityDriver,
+  SimilarityOptions,
+} from '../types/quarterlyData';
+import { firstRecordPerBrand, quarterlyDataLoader } from './quarterlyDataLoader';
+import { getBrandsById } from './brandLoader';
+import { UnknownMetricError } from './leaderboardService';
+import { METRIC_KEYS, isMetricKey } from '../utils/metricRegistry';
+
+const DEFAULT_K = 5;
+// Pairs sharing fewer metrics than this are not compared
+const MIN_SHARED_METRICS = 5;
+// Drivers must stand out from the quarter by at least this many standard deviations
+const MIN_DRIVER_Z = 0.5;
+const MAX_DRIVERS = 3;
+
+/**
+ * Mean and standard deviation of one metric across a quarter
+ */
+interface MetricScale {
+  mean: number;
+  sd: number;
+}
+
+/**
+ * A brand's metrics in a quarter as z-scores (null where missing)
+ */
+interface BrandVector {
+  brand: Brand;
+  metrics: BrandMetrics;
+  z: Map<MetricKey, number>;
+}
+
+/**
+ * Per-metric mean and standard deviation over the non-null values
+ * Metrics with fewer than two values or no spread are left out - they
+ * cannot tell brands apart
+ */
+function computeScales(
+  metricsList: BrandMetrics[],
+  keys: MetricKey[]
+): Map<MetricKey, MetricScale> {
+  const scales = new Map<MetricKey, MetricScale>();
+
+  for (const key of keys) {
+    const values = metricsList
+      .map(metrics => metrics[key])
+      .filter((value): value is number => value !== null);
+    if (values.length < 2) continue;
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    const sd = Math.sqrt(variance);
+
+    if (sd > 0) {
+      scales.set(key, { mean, sd });
+    }
+  }
+
+  return scales;
+}
+
+/**
+ * Compare two brand vectors over the metrics both have
+ * Returns null when they share too few metrics to be compared fairly
+ */
+function compareVectors(
+  target: BrandVector,
+  candidate: BrandVector
+): Omit<SimilarBrand, 'brand'> | null {
+  let sumSquares = 0;
+  let shared = 0;
+  const traits: Array<{ metric: MetricKey; strength: number }> = [];
+
+  for (const [metric, targetZ] of target.z) {
+    const candidateZ = candidate.z.get(metric);
+    if (candidateZ === undefined) continue;
+
+    shared++;
+    sumSquares += (targetZ - candidateZ) ** 2;
+
+    // Same side of the quarter average - how far both stand out
+    if (targetZ * candidateZ > 0) {
+      const strength = Math.min(Math.abs(targetZ), Math.abs(candidateZ));
+      if (strength >= MIN_DRIVER_Z) {
+        traits.push({ metric, strength });
+      }
+    }
+  }
+
+  const required = Math.min(MIN_SHARED_METRICS, target.z.size);
+  if (shared === 0 || shared < required) {
+    return null;
+  }
+
+  const drivers: SimilarityDriver[] = traits
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, MAX_DRIVERS)
+    .map(({ metric }) => ({
+      metric,
+      value: target.metrics[metric] as number,
+      neighborValue: candidate.metrics[metric] as number,
+    }));
+
+  return {
+    // RMS rather than Euclidean, so pairs sharing fewer metrics aren't favoured
+    distance: Math.round(Math.sqrt(sumSquares / shared) * 1000) / 1000,
+    sharedMetrics: shared,
+    drivers,
+  };
+}
+
+/**
+ * Similarity Service Implementation
+ */
+class SimilarityService {
+  /**
+   * Get the k brands perceived most similarly to a brand in a quarter
+   * Returns no neighbours when the brand has no data in the quarter
+   *
+   * @example
+   * const similar = await similarityService.getSimilarBrands('nike', '2009Q2', { k: 3 });
+   * similar.neighbors[0].drivers // e.g. [{ metric: 'Athletic_pct', value: 61.2, neighborValue: 58.9 }]
+   */
+  async getSimilarBrands(
+    brandId: string,
+    quarter: string,
+    options: SimilarityOptions = {}
+  ): Promise<BrandSimilarity> {
+    const keys = options.metrics ?? METRIC_KEYS;
+    for (const key of keys) {
+      if (!isMetricKey(key)) {
+        throw new UnknownMetricError(key);
+      }
+    }
+
+    const normalizedQuarter = quarter.toUpperCase();
+    const k = options.k ?? DEFAULT_K;
+    const [quarterData, brandsById] = await Promise.all([
+      quarterlyDataLoader.loadQuarter(normalizedQuarter),
+      getBrandsById(),
+    ]);
+
+    const candidates: Array<{ brand: Brand; metrics: BrandMetrics }> = [];
+
+    for (const record of firstRecordPerBrand(quarterData.records).values()) {
+      const brand = brandsById.get(record.brandId);
+      if (brand) {
+        candidates.push({ brand, metrics: record.metrics });
+      }
+    }
+
+    const scales = computeScales(
+      candidates.map(candidate => candidate.metrics),
+      keys
+    );
+
+    const vectors: BrandVector[] = candidates.map(({ brand, metrics }) => {
+      const z = new Map<MetricKey, number>();
+      for (const [key, scale] of scales) {
+        const value = metrics[key];
+        if (value !== null) {
+          z.set(key, (value - scale.mean) / scale.sd);
+        }
+      }
+      return { brand, metrics, z };
+    });
+
+    const target = vectors.find(vector => vector.brand.id === brandId);
+    if (!target || target.z.size === 0) {
+      return { quarter: normalizedQuarter, brandId, neighbors: [] };
+    }
+
+    const neighbors: SimilarBrand[] = [];
+    for (const vector of vectors) {
+      if (vector === target) continue;
+      const comparison = compareVectors(target, vector);
+      if (comparison) {
+        neighbors.push({ brand: vector.brand, ...comparison });
+      }
+    }
+
+    neighbors.sort(
+      (a, b) => a.distance - b.distance || a.brand.name.localeCompare(b.brand.name)
+    );
+
+    return {
+      quarter: normalizedQuarter,
+      brandId,
+      neighbors: neighbors.slice(0, k),
+    };
+  }
+}
+
+// Export singleton instance
+export const similarityService = new SimilarityService();
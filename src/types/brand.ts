@@ -21,9 +21,61 @@ export interface Brand {
   tags?: string[];
   dateAdded: string;
   featured?: boolean;
+  removedAt?: string; // Set by `import-brands --merge --mark-removed`; hidden in the app
+}
+
+/**
+ * Where a brand's category came from, in precedence order
+ * - override: manual entry in category-overrides.json
+ * - survey: the brand's category in the quarterly survey CSVs
+ * - inferred: keywords in the brand name
+ */
+export type CategorySource = 'override' | 'survey' | 'inferred';
+
+export interface CategoryResolution {
+  category: BrandCategory;
+  source: CategorySource;
+  surveyCategory?: string; // CSV category the resolution was based on, if any
+}
+
+/**
+ * Manual category overrides, keyed by brand id
+ * Stored at data/brands/category-overrides.json (read by the Node scripts only, not deployed)
+ */
+export interface CategoryOverrideFile {
+  overrides: Record<string, BrandCategory>;
+}
+
+/**
+ * One brand whose category a recategorize run changed
+ */
+export interface CategoryChange {
+  brandId: string;
+  brandName: string;
+  from: BrandCategory;
+  to: BrandCategory;
+  source: CategorySource;
+  surveyCategory?: string;
+}
+
+/**
+ * Result of re-categorizing brands.json (recategorize-report.json)
+ */
+export interface RecategorizeReport {
+  timestamp: string;
+  brandsJson: string;
+  dryRun: boolean;
+  totalBrands: number;
+  changedBrands: number;
+  bySource: Record<CategorySource, number>;
+  byCategory: Record<BrandCategory, { before: number; after: number }>;
+  changes: CategoryChange[];
+  unmappedSurveyCategories: string[];  // CSV categories with no BrandCategory mapping
+  unknownOverrides: string[];          // Override brand ids missing from brands.json
 }
 
 export type SortOption =
+  | 'relevance'
   | 'alphabetical-asc'
   | 'alphabetical-desc'
   | 'newest'
@@ -19,10 +19,18 @@ export interface ImportInput {
 
   /** Optional output directory for brands.json and logos (default: public/data/brands/) */
   outputDir?: string;
+
+  /** Upsert into the existing brands.json instead of replacing it */
+  merge?: boolean;
+
+  /** With merge: flag existing brands missing from this import as removed */
+  markRemoved?: boolean;
 }
 
 /**
  * CSV row representing a single brand entry
+ * Optional fields hold the raw cell text and are only set when the CSV has
+ * the column (see IMPORT_COLUMNS); they are validated per field in validateRow
  */
 export interface CSVRow {
   /** Brand name (from logoName column) */
@@ -33,12 +41,44 @@ export interface CSVRow {
 
   /** Line number in CSV file (for error reporting) */
   lineNumber: number;
+
+  /** Explicit brand id (default: generated from the name) */
+  id?: string;
+
+  /** Explicit URL slug (default: slugified name) */
+  slug?: string;
+
+  /** BrandCategory, case-insensitive (default: inferred from the name) */
+  category?: string;
+
+  /** Official website, http(s) only */
+  websiteUrl?: string;
+
+  /** Short description */
+  description?: string;
+
+  /** Tags separated by TAG_DELIMITER */
+  tags?: string;
+
+  /** true/false, yes/no or 1/0 */
+  featured?: string;
+
+  /** ISO 8601 date (default: time of import) */
+  dateAdded?: string;
+
+  /** Set when the row itself is malformed (e.g. wrong column count) */
+  parseError?: string;
 }
 
+/**
+ * CSVRow fields that can be mapped from a header column
+ */
+export type ImportColumn = Exclude<keyof CSVRow, 'lineNumber' | 'parseError'>;
+
 /**
  * Supported and unsupported image file types
  */
-export type ImageFileType = 'png' | 'jpeg' | 'gif' | 'eps' | 'ai' | 'pdf' | 'unknown';
+export type ImageFileType = 'png' | 'jpeg' | 'gif' | 'svg' | 'webp' | 'avif' | 'eps' | 'ai' | 'pdf' | 'unknown';
 
 /**
  * Logo file metadata and validation result
@@ -61,6 +101,9 @@ export interface LogoFile {
 
   /** Error message if validation failed */
   errorMessage?: string;
+
+  /** Non-fatal findings (e.g., content removed by SVG sanitization) */
+  warnings?: string[];
 }
 
 /**
@@ -74,12 +117,27 @@ export type ImportStatus =
   | 'duplicate_brand'       // Brand name already seen (first wins)
   | 'unknown_error';        // Unexpected error
 
+/**
+ * Error codes: an import status, or the field that failed validation
+ * (reported with status 'csv_validation_error')
+ */
+export type ImportErrorCode =
+  | ImportStatus
+  | 'invalid_brand_id'       // id is not lowercase alphanumeric + hyphens
+  | 'invalid_slug'           // slug is not lowercase alphanumeric + hyphens
+  | 'invalid_category'       // Not a BrandCategory
+  | 'invalid_website_url'    // Not an absolute http(s) URL
+  | 'invalid_description'    // Longer than MAX_DESCRIPTION_LENGTH
+  | 'invalid_tags'           // Wrong delimiter, too many, too long or repeated tags
+  | 'invalid_featured'       // Not a recognized boolean
+  | 'invalid_date_added';    // Not a parseable date
+
 /**
  * Structured error information
  */
 export interface ImportError {
-  /** Error status code */
-  code: ImportStatus;
+  /** Error code (status or field-specific code) */
+  code: ImportErrorCode;
 
   /** Human-readable error message */
   message: string;
@@ -104,6 +162,12 @@ export interface ImportResult {
   /** Successfully created Brand object (if status = 'success') */
   brand?: Brand;
 
+  /** Detected logo file type (once the logo file was found) */
+  fileType?: ImageFileType;
+
+  /** Brand fields the CSV row set explicitly (the rest were generated or inferred) */
+  suppliedFields?: (keyof Brand)[];
+
   /** Error details (if status != 'success') */
   error?: ImportError;
 
@@ -124,8 +188,11 @@ export interface ImportSummary {
   /** Failed import count */
   failed: number;
 
-  /** Errors grouped by status code */
-  errorBreakdown: Partial<Record<ImportStatus, number>>;
+  /** Errors grouped by error code */
+  errorBreakdown: Partial<Record<ImportErrorCode, number>>;
+
+  /** Successfully imported logos grouped by file type */
+  fileTypes: Partial<Record<ImageFileType, number>>;
 
   /** Total warnings count */
   warnings: number;
@@ -134,6 +201,26 @@ export interface ImportSummary {
   processingTimeMs: number;
 }
 
+/**
+ * Outcome of merging an import into an existing brands.json
+ */
+export interface BrandMergeSummary {
+  /** Brands new to brands.json */
+  added: number;
+
+  /** Existing brands whose imported fields changed (or that came back after removal) */
+  updated: number;
+
+  /** Existing brands the import left identical */
+  unchanged: number;
+
+  /** Existing brands missing from the import, newly flagged with removedAt */
+  removed: number;
+
+  /** Existing brands missing from the import, left as they were */
+  retained: number;
+}
+
 /**
  * Complete import operation report
  */
@@ -154,6 +241,9 @@ export interface ImportReport {
   /** Aggregate statistics */
   summary: ImportSummary;
 
+  /** Merge counts (merge mode only) */
+  merge?: BrandMergeSummary;
+
   /** Output file paths */
   outputPaths: {
     brandsJson: string;
@@ -164,7 +254,7 @@ export interface ImportReport {
 /**
  * Supported image file formats (FR-004)
  */
-export const SUPPORTED_FORMATS: ImageFileType[] = ['png', 'jpeg', 'gif'];
+export const SUPPORTED_FORMATS: ImageFileType[] = ['png', 'jpeg', 'gif', 'svg', 'webp', 'avif'];
 
 /**
  * Unsupported file formats (FR-005, FR-006, FR-007)
@@ -200,3 +290,32 @@ export const MAX_FILE_SIZE_WARN = 10 * 1024 * 1024;
  * Maximum brand name length
  */
 export const MAX_BRAND_NAME_LENGTH = 200;
+
+/**
+ * Header names accepted for each column (compared lowercase, ignoring spaces,
+ * hyphens and underscores); the first two columns are required
+ */
+export const IMPORT_COLUMNS: Record<ImportColumn, string[]> = {
+  logoName: ['logoname', 'name', 'brand', 'brandname'],
+  fileName: ['filename', 'file', 'logo', 'logofile'],
+  id: ['id', 'brandid'],
+  slug: ['slug'],
+  category: ['category'],
+  websiteUrl: ['websiteurl', 'website', 'url'],
+  description: ['description'],
+  tags: ['tags'],
+  featured: ['featured'],
+  dateAdded: ['dateadded', 'added'],
+};
+
+/**
+ * Separator between tags in the tags column (commas would split the CSV row)
+ */
+export const TAG_DELIMITER = ';';
+
+/**
+ * Tag and description limits (match public/data/brands/schema.json)
+ */
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 50;
+export const MAX_DESCRIPTION_LENGTH = 500;
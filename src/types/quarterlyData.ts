@@ -3,7 +3,7 @@
  * Feature: 004-quarterly-data-association
  */
 
-import { Brand } from './brand';
+import { Brand, BrandCategory } from './brand';
 
 /**
  * Brand metrics from quarterly CSV files
@@ -118,6 +118,7 @@ export interface QuarterlyDataRecord {
   csvBrandId: string;     // Original "Brand id" from CSV
   category: string;       // Category from CSV (may differ from brands.json)
   metrics: BrandMetrics;  // All 85+ metric columns
+  percentiles?: MetricPercentiles;  // Percentile within the CSV category (build time)
 }
 
 /**
@@ -154,6 +155,17 @@ export interface BrandWithQuarterlyData {
   quarterlyData: Map<string, BrandMetrics>;  // Quarter → metrics
   availableQuarters: string[];               // Sorted list of quarters with data
   latestQuarter?: string;                    // Most recent quarter (if any)
+  surveyCategories: Map<string, string>;     // Quarter → CSV category
+  percentiles: Map<string, MetricPercentiles>;  // Quarter → percentile within CSV category
+}
+
+/**
+ * Several brands' metrics side by side (brand-vs-brand comparison)
+ */
+export interface BrandComparisonData {
+  brands: Brand[];                                      // Compared brands, in request order
+  quarters: string[];                                   // Sorted quarters where any brand has data
+  metricsByBrand: Map<string, Map<string, BrandMetrics>>;  // brandId → quarter → metrics
 }
 
 /**
@@ -168,3 +180,380 @@ export interface BrandDataCoverage {
   earliestQuarter: string | null;  // First quarter with data
   latestQuarter: string | null;    // Most recent quarter with data
 }
+
+/**
+ * A single quarter's record inside a per-brand time-series shard
+ */
+export interface BrandQuarterRecord {
+  quarter: string;        // e.g., "2010Q1"
+  csvBrandId: string;     // Original "Brand id" from CSV
+  category: string;       // Category from CSV for this quarter
+  metrics: BrandMetrics;  // All 85+ metric columns
+  percentiles?: MetricPercentiles;  // Percentile within the CSV category (build time)
+}
+
+/**
+ * Per-brand time series across every processed quarter
+ * Stored at /public/assets/data/quarterly/brands/{brandId}.json
+ */
+export interface BrandQuarterlySeries {
+  brandId: string;                // Reference to Brand.id from brands.json
+  brandName: string;              // Denormalized for debugging/validation
+  processedAt: string;            // ISO 8601 timestamp (build time)
+  quarters: string[];             // Sorted list of quarters with data
+  records: BrandQuarterRecord[];  // One record per quarter, same order as quarters
+}
+
+/**
+ * Precomputed coverage statistics for one brand
+ */
+export interface BrandCoverageEntry {
+  quarters: string[];            // Sorted quarters with data
+  firstQuarter: string | null;   // First quarter with data
+  lastQuarter: string | null;    // Most recent quarter with data
+  coveragePercent: number;       // Percentage of indexed quarters with data (0-100)
+}
+
+/**
+ * Brand → quarters availability and coverage manifest
+ * Stored at /public/assets/data/quarterly/brands/index.json
+ */
+export interface BrandAvailabilityManifest {
+  brands: Record<string, BrandCoverageEntry>;  // Map brandId → quarters with data and coverage
+  quarters: string[];                          // Quarters the manifest was built from
+  totalQuarters: number;                       // Count of indexed quarters
+  lastUpdated: string;                         // ISO 8601 timestamp (build time)
+  totalBrands: number;                         // Count of brands with at least one quarter
+}
+
+/**
+ * Key of a single metric column
+ */
+export type MetricKey = keyof BrandMetrics;
+
+/**
+ * Metric groups, following the column groups in the BAV survey CSV
+ */
+export type MetricGroup =
+  | 'Awareness & Preference'
+  | 'Brand Equity'
+  | 'Differentiation'
+  | 'Esteem & Quality'
+  | 'Brand Image'
+  | 'Personality Factors'
+  | 'Loyalty & Relationship';
+
+/**
+ * How a metric's raw value is expressed
+ * - percent: share of respondents (0-100)
+ * - score: composite index (unitless)
+ */
+export type MetricUnit = 'percent' | 'score';
+
+/**
+ * Metadata for one metric column (see utils/metricRegistry.ts)
+ */
+export interface MetricDefinition {
+  key: MetricKey;
+  label: string;
+  group: MetricGroup;
+  unit: MetricUnit;
+  scale: { min: number; max: number };  // Nominal range, used for axes and normalization
+  higherIsBetter: boolean;               // False for negative attributes (e.g. Arrogant)
+  description: string;
+}
+
+/**
+ * Sort direction for rankings ('desc' = highest value ranks first)
+ */
+export type RankDirection = 'asc' | 'desc';
+
+/**
+ * Options for a per-quarter leaderboard
+ */
+export interface LeaderboardOptions {
+  category?: BrandCategory;    // Only rank brands in this category
+  limit?: number;              // Maximum entries returned (default: all)
+  direction?: RankDirection;   // Default: 'desc'
+}
+
+/**
+ * One ranked brand on a leaderboard
+ */
+export interface LeaderboardEntry {
+  rank: number;                  // 1-based, ties share a rank (1, 2, 2, 4)
+  brand: Brand;
+  value: number;
+  previousRank: number | null;   // Rank in the previous available quarter (null if unranked)
+  rankChange: number | null;     // Positive = moved up; null if unranked previously
+}
+
+/**
+ * Brands ranked by one metric in one quarter
+ */
+export interface Leaderboard {
+  quarter: string;
+  metric: MetricKey;
+  direction: RankDirection;
+  category: BrandCategory | null;
+  previousQuarter: string | null;  // Quarter used for rank change (null if none or it failed to load)
+  totalRanked: number;             // Brands with a value, before the limit
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * Percentile rank (0-100) of each metric within the brand's CSV category
+ * Metrics with no value are omitted
+ */
+export type MetricPercentiles = Partial<Record<MetricKey, number>>;
+
+/**
+ * Distribution of one metric across a CSV category in one quarter
+ */
+export interface MetricBenchmark {
+  count: number;    // Brands with a value for this metric
+  mean: number;
+  median: number;
+  q1: number;       // 25th percentile
+  q3: number;       // 75th percentile
+}
+
+/**
+ * Benchmarks for one CSV category (e.g. "Sports and hobbies")
+ */
+export interface CategoryBenchmark {
+  category: string;                                  // Category label as written in the CSV
+  brandCount: number;                                // Surveyed brands in the category
+  metrics: Partial<Record<MetricKey, MetricBenchmark>>;  // Metrics with at least one value
+}
+
+/**
+ * Category benchmarks for a single quarter, computed from every CSV row
+ * (not just brands matched to brands.json)
+ * Stored at /public/assets/data/quarterly/benchmarks/{quarter}.json
+ */
+export interface QuarterBenchmarks {
+  quarter: string;
+  processedAt: string;                             // ISO 8601 timestamp (build time)
+  categories: Record<string, CategoryBenchmark>;  // Map normalized category key → benchmark
+}
+
+/**
+ * One brand plotted on a two-metric scatter
+ */
+export interface MetricScatterPoint {
+  brand: Brand;
+  x: number;
+  y: number;
+}
+
+/**
+ * Brands positioned by two metrics in one quarter (e.g. the Stature × Strength power grid)
+ * Brands missing either metric are left out
+ */
+export interface MetricScatter {
+  quarter: string;
+  xMetric: MetricKey;
+  yMetric: MetricKey;
+  points: MetricScatterPoint[];
+  medians: { x: number; y: number } | null;  // Quadrant lines (null when no points)
+}
+
+/**
+ * Options for finding brands perceived similarly to a brand
+ */
+export interface SimilarityOptions {
+  k?: number;              // Neighbours returned (default: 5)
+  metrics?: MetricKey[];   // Dimensions compared (default: every metric)
+}
+
+/**
+ * A metric on which two brands stand out from the quarter in the same direction
+ */
+export interface SimilarityDriver {
+  metric: MetricKey;
+  value: number;           // The brand's value
+  neighborValue: number;   // The similar brand's value
+}
+
+/**
+ * A brand close to the target brand in perception space
+ */
+export interface SimilarBrand {
+  brand: Brand;
+  distance: number;         // RMS difference of normalized metrics (0 = identical)
+  sharedMetrics: number;    // Metrics both brands have a value for
+  drivers: SimilarityDriver[];  // Strongest shared traits, most distinctive first
+}
+
+/**
+ * The k nearest brands to one brand in one quarter
+ */
+export interface BrandSimilarity {
+  quarter: string;
+  brandId: string;
+  neighbors: SimilarBrand[];  // Nearest first
+}
+
+/**
+ * Clustering method for brand segmentation
+ */
+export type ClusteringAlgorithm = 'kmeans' | 'hierarchical';
+
+/**
+ * Options for segmenting a quarter's brands
+ */
+export interface ClusteringOptions {
+  algorithm?: ClusteringAlgorithm;  // Default: 'kmeans'
+  k?: number;                       // Number of clusters (default: 5)
+  metrics?: MetricKey[];            // Dimensions clustered on (default: personality factors)
+}
+
+/**
+ * A metric where a cluster's centroid stands apart from the quarter
+ */
+export interface ClusterTrait {
+  metric: MetricKey;
+  value: number;   // Centroid (mean of members with a value)
+  z: number;       // Standard deviations from the quarter mean
+}
+
+/**
+ * One segment of brands
+ */
+export interface BrandCluster {
+  id: number;                                          // 1-based, largest cluster first
+  members: Brand[];                                    // Sorted by name
+  centroid: Partial<Record<MetricKey, number>>;        // Mean of each clustered metric
+  traits: ClusterTrait[];                              // Most distinctive metrics first
+}
+
+/**
+ * A quarter's brands split into clusters
+ */
+export interface BrandClustering {
+  quarter: string;
+  algorithm: ClusteringAlgorithm;
+  metrics: MetricKey[];
+  clusters: BrandCluster[];
+  excluded: Brand[];   // Brands missing too many of the metrics to place
+}
+
+/**
+ * Options for finding notable quarter-over-quarter moves
+ */
+export interface MoverOptions {
+  metrics?: MetricKey[];   // Metrics considered (default: every metric)
+  limit?: number;          // Risers and fallers returned, each (default: 10)
+  minZ?: number;           // Smallest |z| counted as notable (default: 2)
+}
+
+/**
+ * A brand's change in one metric since the previous quarter, scored
+ * against its own history and against its category's moves
+ */
+export interface NotableMove {
+  brand: Brand;
+  metric: MetricKey;
+  value: number;
+  previousValue: number;
+  change: number;
+  categoryZ: number | null;  // Versus peers' changes this quarter (null without spread)
+  peerGroup: string;         // CSV category, or "All brands" when the category is too small
+  historyZ: number | null;   // Versus the brand's earlier changes (null without enough history)
+  strength: number;          // Largest |z| - how unusual the move is
+}
+
+/**
+ * Notable risers and fallers between a quarter and the one before it
+ */
+export interface QuarterMovers {
+  quarter: string;
+  previousQuarter: string | null;  // null for the first quarter (no moves)
+  totalNotable: number;            // Moves at or above minZ, before the limit
+  risers: NotableMove[];           // Improvements, most unusual first
+  fallers: NotableMove[];          // Declines, most unusual first
+}
+
+/**
+ * One brand's values for a metric across every quarter (a heatmap row)
+ */
+export interface HeatmapRow {
+  brand: Brand;
+  values: Array<number | null>;  // Aligned with MetricHeatmap.quarters; null = no data
+  latest: number | null;         // Most recent non-null value
+  change: number | null;         // Latest minus earliest non-null value (null with < 2 values)
+}
+
+/**
+ * Brands × quarters grid for one metric
+ */
+export interface MetricHeatmap {
+  metric: MetricKey;
+  quarters: string[];
+  rows: HeatmapRow[];                 // Brands with at least one value, by name
+  domain: [number, number] | null;    // Min and max across every cell
+}
+
+/**
+ * A headline metric in the latest quarter, against the quarter before it
+ */
+export interface KeyMetricSummary {
+  metric: MetricKey;
+  value: number | null;
+  previousValue: number | null;
+  change: number | null;       // null unless both quarters have a value
+  percentile: number | null;   // Within the brand's CSV category in the latest quarter
+}
+
+/**
+ * Everything the one-page brand report shows
+ */
+export interface BrandReport {
+  brand: Brand;
+  coverage: BrandDataCoverage;
+  quarters: string[];                          // Quarters with data, sorted
+  metricsByQuarter: Map<string, BrandMetrics>;
+  latestQuarter: string | null;
+  previousQuarter: string | null;              // Quarter before the latest with data
+  surveyCategory: string | null;               // CSV category in the latest quarter
+  keyMetrics: KeyMetricSummary[];              // In KEY_METRICS order
+}
+
+/**
+ * Maps a survey CSV brand to a brands.json brand when the names differ
+ * Matched by CSV "Brand id" when set, otherwise by normalized CSV brand name
+ */
+export interface BrandAlias {
+  csvBrandName: string;
+  csvBrandId?: string;
+  brandId: string;              // Brand.id in brands.json
+  score?: number;               // Fuzzy score when accepted from a suggestion (0-1)
+  addedAt: string;              // ISO 8601 timestamp
+}
+
+/**
+ * A survey CSV brand reviewed and confirmed to have no brands.json match
+ */
+export interface IgnoredCSVBrand {
+  csvBrandName: string;
+  csvBrandId?: string;
+}
+
+/**
+ * Maintained alias table for quarterly data processing
+ * Stored at data/brands/brand-aliases.json (read by the Node scripts only, not deployed)
+ */
+export interface BrandAliasFile {
+  lastUpdated: string;
+  aliases: BrandAlias[];
+  ignored: IgnoredCSVBrand[];
+}
+
+/**
+ * How a CSV row was linked to a brand
+ * - csv-id-alias: alias keyed by CSV "Brand id"
+ * - name-alias: alias keyed by CSV brand name
+ * - exact: case-insensitive name match (FR-011)
+ */
+export type BrandMatchSource = 'csv-id-alias' | 'name-alias' | 'exact';
@@ -0,0 +1,192 @@
+/**
+ * Type definitions for deep-linkable application routes
+ *
+ * Routes are derived from window.location so links to brands, comparisons
+ * and filtered grid views can be shared.
+ */
+
+import type { BrandCategory, SortOption } from './brand';
+import type { ClusteringAlgorithm, MetricGroup, RankDirection } from './quarterlyData';
+
+/**
+ * Grid filter state
+ * (query string: ?q=nike&category=Retail,Automotive&sort=newest&quarter=2008Q1&data=1)
+ */
+export interface GridFilterState {
+  /** Free-text search over name, description and tags */
+  search: string;
+
+  /** Category facets (empty = all categories) */
+  categories: BrandCategory[];
+
+  /** Sort order */
+  sort: SortOption;
+
+  /** Quarter filter, empty string for all quarters */
+  quarter: string;
+
+  /** Only show brands with quarterly data */
+  dataOnly: boolean;
+}
+
+/**
+ * Pre-selected quarters and metrics for QuarterComparison
+ * (query string: ?quarters=2008Q1,2009Q4&metrics=Brand_Stature_C)
+ * Empty arrays mean "use the component defaults"
+ */
+export interface ComparisonSelection {
+  quarters: string[];
+  metrics: string[];
+}
+
+/**
+ * Quarter and metrics for the brand-vs-brand comparison
+ * (query string: ?brands=nike,adidas&at=2009Q4&metrics=Brand_Stature_C)
+ */
+export interface BrandComparisonSelection {
+  /** Single quarter to compare, empty string for all quarters */
+  quarter: string;
+
+  /** Metrics to compare (empty = component defaults) */
+  metrics: string[];
+}
+
+/**
+ * Leaderboard settings
+ * (query string: ?metric=Brand_Strength_C&at=2009Q2&sector=Technology&order=asc&top=25)
+ */
+export interface LeaderboardSelection {
+  /** Metric key to rank by (empty = default metric) */
+  metric: string;
+
+  /** Quarter to rank, empty string for the latest quarter */
+  quarter: string;
+
+  /** Category to rank within, empty string for all categories */
+  category: BrandCategory | '';
+
+  /** Ranking direction */
+  direction: RankDirection;
+
+  /** Number of entries shown, 0 for all */
+  limit: number;
+}
+
+/**
+ * Scatter plot explorer settings
+ * (query string: ?x=Brand_Stature_C&y=Brand_Strength_C&at=2009Q2&markers=dot)
+ */
+export interface PowerGridSelection {
+  /** Metric on the horizontal axis (empty = Brand Stature) */
+  x: string;
+
+  /** Metric on the vertical axis (empty = Brand Strength) */
+  y: string;
+
+  /** Quarter shown, empty string for the latest quarter */
+  quarter: string;
+
+  /** Draw brands as logos or as category-colored dots */
+  markers: 'logo' | 'dot';
+}
+
+/**
+ * Brand segmentation settings
+ * (query string: ?at=2009Q2&algo=hierarchical&k=6&metrics=Classic_C,Chic_C)
+ */
+export interface ClustersSelection {
+  /** Quarter to segment, empty string for the latest quarter */
+  quarter: string;
+
+  /** Clustering method */
+  algorithm: ClusteringAlgorithm;
+
+  /** Number of clusters */
+  k: number;
+
+  /** Metrics to cluster on (empty = personality factors) */
+  metrics: string[];
+}
+
+/**
+ * Notable movers settings
+ * (query string: ?at=2009Q2&group=Brand%20Equity&metric=Brand_Strength_C&z=2.5)
+ */
+export interface InsightsSelection {
+  /** Quarter whose moves are shown, empty string for the latest quarter */
+  quarter: string;
+
+  /** Only metrics in this group, empty string for all groups */
+  group: MetricGroup | '';
+
+  /** A single metric (overrides the group), empty for all */
+  metric: string;
+
+  /** Smallest |z-score| counted as notable */
+  minZ: number;
+}
+
+/**
+ * Heatmap row order
+ */
+export type HeatmapSort = 'latest' | 'change' | 'name';
+
+/**
+ * Brands × quarters heatmap settings
+ * (query string: ?metric=Brand_Asset_C&sector=Technology&find=apple&sort=change&order=asc)
+ */
+export interface HeatmapSelection {
+  /** Metric shown (empty = default metric) */
+  metric: string;
+
+  /** Category to show, empty string for all categories */
+  category: BrandCategory | '';
+
+  /** Brand name filter */
+  search: string;
+
+  /** Row order: latest value, change since the first quarter, or name */
+  sort: HeatmapSort;
+
+  /** Sort direction ('desc' = highest / biggest rise first; names A-Z either way) */
+  direction: RankDirection;
+}
+
+/**
+ * Top-level views (shown in the main area rather than as a modal)
+ */
+export type ViewRoute =
+  | { name: 'grid'; filters: GridFilterState }
+  | { name: 'leaderboard'; leaderboard: LeaderboardSelection; filters: GridFilterState }
+  | { name: 'power-grid'; powerGrid: PowerGridSelection; filters: GridFilterState }
+  | { name: 'clusters'; clusters: ClustersSelection; filters: GridFilterState }
+  | { name: 'insights'; insights: InsightsSelection; filters: GridFilterState }
+  | { name: 'heatmap'; heatmap: HeatmapSelection; filters: GridFilterState };
+
+/**
+ * Routes shown as a modal over a view
+ * background is the view the modal was opened from (query string:
+ * ?from=/leaderboard%3Fmetric%3DBrand_Strength_C); the grid when omitted
+ */
+export type ModalRoute =
+  | { name: 'brand'; brandKey: string; filters: GridFilterState; background?: ViewRoute }
+  | {
+      name: 'compare';
+      brandKey: string;
+      comparison: ComparisonSelection;
+      filters: GridFilterState;
+      background?: ViewRoute;
+    }
+  | { name: 'report'; brandKey: string; filters: GridFilterState; background?: ViewRoute }
+  | {
+      name: 'compare-brands';
+      brandKeys: string[];
+      selection: BrandComparisonSelection;
+      filters: GridFilterState;
+      background?: ViewRoute;
+    };
+
+/**
+ * All routes the application understands
+ */
+export type AppRoute = ViewRoute | ModalRoute;
@@ -0,0 +1,41 @@
+/**
+ * Type definitions for ranked brand search
+ */
+
+import type { Brand } from './brand';
+
+/**
+ * Brand fields covered by search, in descending weight
+ */
+export type SearchField = 'name' | 'tags' | 'description';
+
+/**
+ * Highlighted [start, end) character range in a field value
+ */
+export interface MatchSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * How a query word matched a brand word
+ */
+export type MatchKind = 'exact' | 'prefix' | 'fuzzy';
+
+/**
+ * Matched spans within a single field value (one tag, the name, or the description)
+ */
+export interface FieldMatch {
+  field: SearchField;
+  value: string;
+  spans: MatchSpan[];
+}
+
+/**
+ * A brand matching a search query, with relevance score and highlights
+ */
+export interface BrandSearchResult {
+  brand: Brand;
+  score: number;
+  matches: FieldMatch[];
+}
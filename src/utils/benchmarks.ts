@@ -0,0 +1,166 @@
+/**
+ * Category benchmark helpers
+ * Feature: 004-quarterly-data-association
+ *
+ * Used by the processing script to build benchmarks/{quarter}.json and the
+ * per-record percentiles, and by the client to look benchmarks up by the
+ * CSV category of a record.
+ */
+
+import type {
+  BrandMetrics,
+  CategoryBenchmark,
+  MetricBenchmark,
+  MetricPercentiles,
+  QuarterBenchmarks,
+} from '../types/quarterlyData';
+import { METRIC_KEYS } from './metricRegistry';
+
+/**
+ * Normalize a CSV category into a lookup key
+ * The surveys aren't consistent about case ("Department Stores" / "Department stores")
+ *
+ * @example
+ * surveyCategoryKey('  Department Stores ') // "department stores"
+ */
+export function surveyCategoryKey(category: string): string {
+  return category.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Look up the benchmark for a record's CSV category
+ */
+export function getCategoryBenchmark(
+  benchmarks: QuarterBenchmarks,
+  category: string
+): CategoryBenchmark | null {
+  return benchmarks.categories[surveyCategoryKey(category)] ?? null;
+}
+
+/**
+ * Quantile of a sorted array using linear interpolation between closest ranks
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Summarize a metric's values across a category
+ *
+ * @param values - Values of brands that have data (nulls already removed)
+ * @returns Benchmark rounded to 2 decimals, or null if there are no values
+ *
+ * @example
+ * computeMetricBenchmark([10, 20, 30, 40])
+ * // { count: 4, mean: 25, median: 25, q1: 17.5, q3: 32.5 }
+ */
+export function computeMetricBenchmark(values: number[]): MetricBenchmark | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+
+  return {
+    count: sorted.length,
+    mean: round2(sum / sorted.length),
+    median: round2(quantile(sorted, 0.5)),
+    q1: round2(quantile(sorted, 0.25)),
+    q3: round2(quantile(sorted, 0.75)),
+  };
+}
+
+/**
+ * Percentile rank of a value within a sorted distribution (0-100)
+ * Ties count half, so the middle of a symmetric distribution is 50
+ *
+ * @example
+ * percentileRank(30, [10, 20, 30, 40]) // 63
+ */
+export function percentileRank(value: number, sorted: number[]): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+
+  let below = 0;
+  let equal = 0;
+  for (const other of sorted) {
+    if (other < value) below++;
+    else if (other === value) equal++;
+    else break;
+  }
+
+  return Math.round(((below + equal / 2) / sorted.length) * 100);
+}
+
+/**
+ * Build benchmarks for one category from the metrics of every surveyed brand in it
+ * Returns the benchmark plus a function giving each brand's percentiles
+ */
+export function createCategoryBenchmark(
+  category: string,
+  brandMetrics: BrandMetrics[]
+): { benchmark: CategoryBenchmark; getPercentiles: (metrics: BrandMetrics) => MetricPercentiles } {
+  const benchmark: CategoryBenchmark = {
+    category,
+    brandCount: brandMetrics.length,
+    metrics: {},
+  };
+  const sortedByMetric = new Map<string, number[]>();
+
+  for (const key of METRIC_KEYS) {
+    const values = brandMetrics
+      .map(metrics => metrics[key])
+      .filter((value): value is number => value !== null)
+      .sort((a, b) => a - b);
+
+    const metricBenchmark = computeMetricBenchmark(values);
+    if (metricBenchmark) {
+      benchmark.metrics[key] = metricBenchmark;
+      sortedByMetric.set(key, values);
+    }
+  }
+
+  const getPercentiles = (metrics: BrandMetrics): MetricPercentiles => {
+    const percentiles: MetricPercentiles = {};
+    for (const key of METRIC_KEYS) {
+      const value = metrics[key];
+      const sorted = sortedByMetric.get(key);
+      if (value !== null && sorted) {
+        percentiles[key] = percentileRank(value, sorted);
+      }
+    }
+    return percentiles;
+  };
+
+  return { benchmark, getPercentiles };
+}
+
+/**
+ * Format a percentile as an ordinal ("1st", "22nd", "63rd", "100th")
+ */
+export function formatPercentile(percentile: number): string {
+  const tens = percentile % 100;
+  if (tens >= 11 && tens <= 13) {
+    return `${percentile}th`;
+  }
+
+  switch (percentile % 10) {
+    case 1:
+      return `${percentile}st`;
+    case 2:
+      return `${percentile}nd`;
+    case 3:
+      return `${percentile}rd`;
+    default:
+      return `${percentile}th`;
+  }
+}
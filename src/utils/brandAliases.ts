@@ -0,0 +1,193 @@
+/**
+ * Brand alias table for quarterly data processing
+ * Feature: 004-quarterly-data-association
+ *
+ * Survey CSV names often differ from brands.json names ("Amazondotcom" vs
+ * "Amazon"). Reviewed links live in a maintained alias file so every run of
+ * process-quarterly-data matches the same rows the same way.
+ */
+
+import { promises as fs } from 'fs';
+import type { Brand } from '../types/brand';
+import type {
+  BrandAlias,
+  BrandAliasFile,
+  BrandMatchSource,
+  IgnoredCSVBrand,
+} from '../types/quarterlyData';
+import { findBrandByName, normalizeBrandName } from './brandMatcher';
+
+/**
+ * Default alias file location, relative to the project root
+ */
+export const BRAND_ALIASES_PATH = 'data/brands/brand-aliases.json';
+
+/**
+ * A CSV brand linked to brands.json, and how it was linked
+ */
+export interface CSVBrandMatch {
+  brand: Brand;
+  source: BrandMatchSource;
+}
+
+/**
+ * Create an empty alias file
+ */
+export function createEmptyAliasFile(): BrandAliasFile {
+  return { lastUpdated: new Date().toISOString(), aliases: [], ignored: [] };
+}
+
+/**
+ * Read the alias file; a missing file is an empty table
+ *
+ * @param filePath - Path to brand-aliases.json
+ * @throws Error if the file exists but is not a valid alias file
+ */
+export async function loadBrandAliasFile(filePath: string): Promise<BrandAliasFile> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return createEmptyAliasFile();
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(content) as Partial<BrandAliasFile>;
+  if (!Array.isArray(parsed.aliases)) {
+    throw new Error(`Invalid alias file ${filePath}: "aliases" must be an array`);
+  }
+
+  return {
+    lastUpdated: parsed.lastUpdated ?? new Date().toISOString(),
+    aliases: parsed.aliases,
+    ignored: Array.isArray(parsed.ignored) ? parsed.ignored : [],
+  };
+}
+
+/**
+ * Write the alias file, sorted by CSV brand name so diffs stay small
+ */
+export async function writeBrandAliasFile(
+  aliasFile: BrandAliasFile,
+  filePath: string
+): Promise<void> {
+  const byName = (a: { csvBrandName: string }, b: { csvBrandName: string }) =>
+    a.csvBrandName.localeCompare(b.csvBrandName);
+
+  const output: BrandAliasFile = {
+    lastUpdated: new Date().toISOString(),
+    aliases: [...aliasFile.aliases].sort(byName),
+    ignored: [...aliasFile.ignored].sort(byName),
+  };
+
+  await fs.writeFile(filePath, JSON.stringify(output, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Check whether an alias or ignore entry refers to a CSV brand
+ * Entries with a CSV brand id match on the id only; others match on the name
+ */
+function refersTo(
+  entry: { csvBrandName: string; csvBrandId?: string },
+  csvBrandName: string,
+  csvBrandId?: string
+): boolean {
+  if (entry.csvBrandId) {
+    return entry.csvBrandId === csvBrandId;
+  }
+  return normalizeBrandName(entry.csvBrandName) === normalizeBrandName(csvBrandName);
+}
+
+/**
+ * Create a matcher for CSV rows
+ * Precedence: alias by CSV "Brand id", alias by CSV brand name, exact name (FR-011).
+ * Aliases pointing at brands missing from brands.json are skipped (see findStaleAliases)
+ *
+ * @example
+ * const matchCSVBrand = createCSVBrandMatcher(brands, aliasFile);
+ * matchCSVBrand('Amazondotcom', '25') // { brand: { name: 'Amazon', ... }, source: 'csv-id-alias' }
+ */
+export function createCSVBrandMatcher(
+  brands: Brand[],
+  aliasFile: BrandAliasFile
+): (csvBrandName: string, csvBrandId?: string) => CSVBrandMatch | undefined {
+  const brandsById = new Map(brands.map((brand) => [brand.id, brand]));
+  const aliasesById = new Map<string, Brand>();
+  const aliasesByName = new Map<string, Brand>();
+
+  for (const alias of aliasFile.aliases) {
+    const brand = brandsById.get(alias.brandId);
+    if (!brand) continue;
+
+    if (alias.csvBrandId) {
+      if (!aliasesById.has(alias.csvBrandId)) aliasesById.set(alias.csvBrandId, brand);
+    } else {
+      const key = normalizeBrandName(alias.csvBrandName);
+      if (!aliasesByName.has(key)) aliasesByName.set(key, brand);
+    }
+  }
+
+  return (csvBrandName, csvBrandId) => {
+    const byId = csvBrandId ? aliasesById.get(csvBrandId) : undefined;
+    if (byId) return { brand: byId, source: 'csv-id-alias' };
+
+    const byName = aliasesByName.get(normalizeBrandName(csvBrandName));
+    if (byName) return { brand: byName, source: 'name-alias' };
+
+    const exact = findBrandByName(csvBrandName, brands);
+    return exact ? { brand: exact, source: 'exact' } : undefined;
+  };
+}
+
+/**
+ * Aliases whose brand id is no longer in brands.json
+ */
+export function findStaleAliases(aliasFile: BrandAliasFile, brands: Brand[]): BrandAlias[] {
+  const brandIds = new Set(brands.map((brand) => brand.id));
+  return aliasFile.aliases.filter((alias) => !brandIds.has(alias.brandId));
+}
+
+/**
+ * Check whether a CSV brand was reviewed and marked as having no match
+ */
+export function isIgnoredCSVBrand(
+  aliasFile: BrandAliasFile,
+  csvBrandName: string,
+  csvBrandId?: string
+): boolean {
+  return aliasFile.ignored.some((entry) => refersTo(entry, csvBrandName, csvBrandId));
+}
+
+/**
+ * Add or replace the alias for a CSV brand
+ * Also clears any "no match" entry for it
+ */
+export function setBrandAlias(
+  aliasFile: BrandAliasFile,
+  alias: Omit<BrandAlias, 'addedAt'>
+): BrandAliasFile {
+  return {
+    ...aliasFile,
+    aliases: [
+      ...aliasFile.aliases.filter(
+        (entry) => !refersTo(entry, alias.csvBrandName, alias.csvBrandId)
+      ),
+      { ...alias, addedAt: new Date().toISOString() },
+    ],
+    ignored: aliasFile.ignored.filter(
+      (entry) => !refersTo(entry, alias.csvBrandName, alias.csvBrandId)
+    ),
+  };
+}
+
+/**
+ * Record that a CSV brand has no brands.json match, so reviews skip it
+ */
+export function ignoreCSVBrand(aliasFile: BrandAliasFile, entry: IgnoredCSVBrand): BrandAliasFile {
+  if (isIgnoredCSVBrand(aliasFile, entry.csvBrandName, entry.csvBrandId)) {
+    return aliasFile;
+  }
+  return { ...aliasFile, ignored: [...aliasFile.ignored, entry] };
+}
@@ -0,0 +1,128 @@
+/**
+ * Brand card image
+ * Feature: 004-quarterly-data-association
+ *
+ * A slide-ready SVG summary of a brand: logo, name, category, coverage and
+ * the headline metrics for the latest quarter with their change.
+ */
+
+import type { BrandReport } from '../types/quarterlyData';
+import { escapeSvgText, fetchAsDataUrl, type SvgImage } from './imageExport';
+import { formatMetricValue, getChangeDirection, getMetricLabel } from './metricRegistry';
+import { formatPercentile } from './benchmarks';
+
+const WIDTH = 800;
+const HEIGHT = 480;
+const PADDING = 32;
+const LOGO_SIZE = 160;
+const COLUMNS = 3;
+const TILE_GAP = 16;
+const TILE_HEIGHT = 88;
+const TILES_TOP = 256;
+const FONT_FAMILY = 'Inter, system-ui, Helvetica, Arial, sans-serif';
+
+const CHANGE_COLORS = {
+  positive: '#15803d',
+  negative: '#b91c1c',
+  neutral: '#6b7280',
+};
+
+function text(
+  x: number,
+  y: number,
+  content: string,
+  attributes: Record<string, string | number> = {}
+): string {
+  const attrs = Object.entries(attributes)
+    .map(([name, value]) => ` ${name}="${escapeSvgText(String(value))}"`)
+    .join('');
+  return `<text x="${x}" y="${y}"${attrs}>${escapeSvgText(content)}</text>`;
+}
+
+/**
+ * Build the brand card for a report
+ *
+ * @example
+ * const report = await brandReportService.getBrandReport(brand.id);
+ * downloadSvgImage(await createBrandCardImage(report), `${brand.slug}-card`);
+ */
+export async function createBrandCardImage(report: BrandReport): Promise<SvgImage> {
+  const { brand, coverage, latestQuarter, previousQuarter, surveyCategory, keyMetrics } = report;
+  const logo = await fetchAsDataUrl(`/${brand.logoPath}`);
+  const textLeft = PADDING + LOGO_SIZE + PADDING;
+  const parts: string[] = [];
+
+  parts.push(
+    `<rect x="0.5" y="0.5" width="${WIDTH - 1}" height="${HEIGHT - 1}" rx="12" fill="#ffffff" stroke="#e5e7eb"/>`
+  );
+  if (logo) {
+    parts.push(
+      `<image href="${escapeSvgText(logo)}" x="${PADDING}" y="${PADDING}" width="${LOGO_SIZE}" height="${LOGO_SIZE}" preserveAspectRatio="xMidYMid meet"/>`
+    );
+  }
+
+  const category =
+    surveyCategory && surveyCategory !== brand.category
+      ? `${brand.category} · surveyed as ${surveyCategory}`
+      : brand.category;
+  const coverageText =
+    coverage.quartersWithData > 0
+      ? `Data in ${coverage.quartersWithData} of ${coverage.totalQuarters} quarters (${coverage.earliestQuarter}–${coverage.latestQuarter})`
+      : 'No quarterly perception data';
+
+  parts.push(
+    text(textLeft, 84, brand.name, { 'font-size': 30, 'font-weight': 700, fill: '#111827' }),
+    text(textLeft, 116, category, { 'font-size': 16, fill: '#4b5563' }),
+    text(textLeft, 144, coverageText, { 'font-size': 14, fill: '#6b7280' })
+  );
+
+  if (latestQuarter) {
+    const heading = previousQuarter
+      ? `Key metrics, ${latestQuarter} (change vs ${previousQuarter})`
+      : `Key metrics, ${latestQuarter}`;
+    parts.push(
+      text(PADDING, TILES_TOP - 16, heading, { 'font-size': 15, 'font-weight': 600, fill: '#111827' })
+    );
+
+    const tileWidth = (WIDTH - PADDING * 2 - TILE_GAP * (COLUMNS - 1)) / COLUMNS;
+    keyMetrics.forEach((summary, index) => {
+      const x = PADDING + (index % COLUMNS) * (tileWidth + TILE_GAP);
+      const y = TILES_TOP + Math.floor(index / COLUMNS) * (TILE_HEIGHT + TILE_GAP);
+
+      parts.push(
+        `<rect x="${x}" y="${y}" width="${tileWidth}" height="${TILE_HEIGHT}" rx="8" fill="#f3f4f6"/>`,
+        text(x + 12, y + 24, getMetricLabel(summary.metric), { 'font-size': 13, fill: '#4b5563' }),
+        text(x + 12, y + 56, formatMetricValue(summary.value, summary.metric), {
+          'font-size': summary.value === null ? 16 : 22,
+          'font-weight': 700,
+          fill: summary.value === null ? '#9ca3af' : '#111827',
+        })
+      );
+
+      if (summary.change !== null) {
+        const direction = getChangeDirection(summary.change, summary.metric);
+        const arrow = summary.change > 0 ? '▲' : summary.change < 0 ? '▼' : '–';
+        parts.push(
+          text(x + tileWidth - 12, y + 56, `${arrow} ${Math.abs(summary.change).toFixed(2)}`, {
+            'font-size': 14,
+            'font-weight': 600,
+            'text-anchor': 'end',
+            fill: CHANGE_COLORS[direction],
+          })
+        );
+      }
+      if (summary.percentile !== null) {
+        const percentile = `${formatPercentile(Math.round(summary.percentile))} percentile in category`;
+        parts.push(text(x + 12, y + 76, percentile, { 'font-size': 12, fill: '#6b7280' }));
+      }
+    });
+  }
+
+  const markup =
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="${FONT_FAMILY}">` +
+    parts.join('') +
+    '</svg>';
+
+  return { markup, width: WIDTH, height: HEIGHT };
+}
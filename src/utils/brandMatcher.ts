@@ -2,8 +2,13 @@
  * Brand name matching utility
  * Implements case-insensitive exact matching per FR-011
  * Feature: 004-quarterly-data-association
+ *
+ * Fuzzy candidates are only ever suggestions: they are reviewed by hand and
+ * stored in the alias file (utils/brandAliases.ts), never applied directly.
  */
 
+import { editDistance, maxEditsForLength, normalizeText } from './textMatching';
+
 /**
  * Normalize brand name for matching
  * Trims whitespace and converts to lowercase
@@ -49,3 +54,178 @@ export function findBrandByName<T extends { name: string }>(
   const normalizedSearch = normalizeBrandName(searchName);
   return brands.find((brand) => normalizeBrandName(brand.name) === normalizedSearch);
 }
+
+/**
+ * A possible brands.json match for a survey brand name
+ */
+export interface BrandMatchCandidate<T> {
+  brand: T;
+  score: number; // 0-1, rounded to 2 decimals
+}
+
+/**
+ * Options for fuzzy candidate search
+ */
+export interface BrandCandidateOptions {
+  /** Maximum candidates returned (default 3) */
+  limit?: number;
+  /** Minimum score to be proposed (default 0.6) */
+  minScore?: number;
+}
+
+// Legal suffixes, file-type noise from logo names and articles
+const NOISE_TOKENS = new Set([
+  'the', 'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'ltd', 'limited',
+  'llc', 'plc', 'ag', 'gmbh', 'sa', 'com', 'logo', 'icon', 'vector', 'svg', 'png',
+]);
+
+// Descriptors the survey appends to names ("300 (the movie)", "Call of Duty (the video game)")
+const TRAILING_NOISE_TOKENS = new Set([
+  'tv', 'show', 'series', 'movie', 'film', 'network', 'video', 'game',
+]);
+
+// Descriptors glued onto a word ("Amazondotcom", "24TVShow")
+const GLUED_SUFFIXES = ['dotcom', 'tvshow', 'movie'];
+
+/**
+ * Strip noise words and glued suffixes from normalized tokens
+ */
+function stripNoiseTokens(tokens: string[]): string[] {
+  let result = tokens
+    .filter((token) => !NOISE_TOKENS.has(token))
+    .map((token) => {
+      const suffix = GLUED_SUFFIXES.find((s) => token.length > s.length && token.endsWith(s));
+      return suffix ? token.slice(0, -suffix.length) : token;
+    });
+
+  while (result.length > 1 && TRAILING_NOISE_TOKENS.has(result[result.length - 1])) {
+    result = result.slice(0, -1);
+  }
+  // "A and W" / "Barnes & Noble": "and" only separates, "&" is already dropped
+  return result.filter((token, index) => token !== 'and' || index === 0);
+}
+
+/**
+ * Token lists a name may be known by
+ * The full name, the name without any parenthetical and the parenthetical itself
+ *
+ * @example
+ * brandNameVariants("300 (the movie)") // [["300"]]
+ * brandNameVariants("HRC (Honda Racing Corporation)") // [["hrc", "honda", "racing"], ["hrc"], ["honda", "racing"]]
+ */
+export function brandNameVariants(name: string): string[][] {
+  const variants = [name];
+  const parenthetical = name.match(/\(([^)]*)\)/);
+  if (parenthetical) {
+    variants.push(name.replace(/\([^)]*\)/g, ' '), parenthetical[1]);
+  }
+
+  const seen = new Set<string>();
+  const result: string[][] = [];
+  for (const variant of variants) {
+    const tokens = stripNoiseTokens(normalizeText(variant).split(' ').filter(Boolean));
+    const key = tokens.join(' ');
+    // A parenthetical that is only a descriptor ("(the movie)") is not a name
+    const descriptive = tokens.every((token) => TRAILING_NOISE_TOKENS.has(token));
+    if (tokens.length > 0 && !descriptive && !seen.has(key)) {
+      seen.add(key);
+      result.push(tokens);
+    }
+  }
+  return result;
+}
+
+// Credit for a token that only matches with a typo ("busch" ~ "bosch")
+const FUZZY_TOKEN_CREDIT = 0.75;
+
+/**
+ * Credit for two tokens being the same word: 1 if equal, partial for a typo in
+ * a longer word, 0 otherwise
+ */
+function tokenMatchCredit(a: string, b: string): number {
+  if (a === b) return 1;
+  const maxEdits = maxEditsForLength(Math.min(a.length, b.length));
+  return maxEdits > 0 && editDistance(a, b, maxEdits) <= maxEdits ? FUZZY_TOKEN_CREDIT : 0;
+}
+
+/**
+ * Similarity of two token lists (0-1)
+ * The better of token overlap (Dice coefficient) and the edit similarity of
+ * the names with spaces removed, so "Band Aid" ~ "BandAid" and "Adiddas" ~ "Adidas"
+ */
+function tokenListSimilarity(a: string[], b: string[]): number {
+  const unmatched = [...b];
+  let shared = 0;
+  for (const token of a) {
+    let bestIndex = -1;
+    let bestCredit = 0;
+    unmatched.forEach((other, index) => {
+      const credit = tokenMatchCredit(token, other);
+      if (credit > bestCredit) {
+        bestCredit = credit;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex !== -1) {
+      shared += bestCredit;
+      unmatched.splice(bestIndex, 1);
+    }
+  }
+  const dice = (2 * shared) / (a.length + b.length);
+
+  const compactA = a.join('');
+  const compactB = b.join('');
+  const longest = Math.max(compactA.length, compactB.length);
+  const maxDistance = maxEditsForLength(longest);
+  const distance = editDistance(compactA, compactB, maxDistance);
+  const compact = distance > maxDistance ? 0 : 1 - distance / longest;
+
+  return Math.max(dice, compact);
+}
+
+/**
+ * Score how likely two brand names refer to the same brand (0-1)
+ *
+ * @example
+ * scoreBrandMatch("Amazondotcom", "Amazon.com") // 1
+ * scoreBrandMatch("Applebees", "Applebee's") // 1
+ * scoreBrandMatch("Nike", "Nike Golf") // 0.67
+ */
+export function scoreBrandMatch(name1: string, name2: string): number {
+  return scoreVariants(brandNameVariants(name1), brandNameVariants(name2));
+}
+
+function scoreVariants(variants1: string[][], variants2: string[][]): number {
+  let best = 0;
+  for (const a of variants1) {
+    for (const b of variants2) {
+      best = Math.max(best, tokenListSimilarity(a, b));
+    }
+  }
+  return Math.round(best * 100) / 100;
+}
+
+/**
+ * Create a fuzzy candidate finder over a brand list
+ * Brand names are normalized once up front, so one finder can serve a whole review run
+ *
+ * @example
+ * const findCandidates = createBrandCandidateFinder(brands);
+ * findCandidates("Amazondotcom") // [{ brand: { name: "Amazon", ... }, score: 1 }, { brand: { name: "Amazon.com", ... }, score: 1 }, ...]
+ */
+export function createBrandCandidateFinder<T extends { name: string }>(
+  brands: T[]
+): (searchName: string, options?: BrandCandidateOptions) => BrandMatchCandidate<T>[] {
+  const indexed = brands.map((brand) => ({ brand, variants: brandNameVariants(brand.name) }));
+
+  return (searchName, { limit = 3, minScore = 0.6 } = {}) => {
+    const searchVariants = brandNameVariants(searchName);
+    if (searchVariants.length === 0) return [];
+
+    return indexed
+      .map(({ brand, variants }) => ({ brand, score: scoreVariants(searchVariants, variants) }))
+      .filter((candidate) => candidate.score >= minScore)
+      .sort((a, b) => b.score - a.score || a.brand.name.localeCompare(b.brand.name))
+      .slice(0, limit);
+  };
+}
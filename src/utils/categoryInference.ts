@@ -2,10 +2,15 @@
  * Category inference utility for brand categorization
  *
  * Provides basic category inference based on brand names using keyword matching.
- * Falls back to "Other" category when no match is found.
+ * Keywords match whole words (or their plural), and the category with the most matches wins.
+ * Falls back to "Other" category when no match is found or the best score is tied.
+ *
+ * Inference is the last resort: see utils/categoryResolution.ts for manual
+ * overrides and survey categories, which take precedence.
  */
 
 import type { BrandCategory } from '../types/brand';
+import { normalizeText } from './textMatching';
 
 /**
  * Category keywords mapping
@@ -15,7 +20,8 @@ import type { BrandCategory } from '../types/brand';
 const CATEGORY_KEYWORDS: Record<BrandCategory, string[]> = {
   'Technology': [
     'tech', 'software', 'digital', 'computer', 'internet', 'web', 'cloud',
-    'cyber', 'data', 'app', 'mobile', 'systems', 'solutions', 'ai', 'tech'
+    'cyber', 'data', 'app', 'mobile', 'systems', 'solutions', 'ai', 'tech',
+    'technology', 'technologies'
   ],
   'Apparel & Fashion': [
     'apparel', 'fashion', 'clothing', 'wear', 'style', 'boutique', 'threads',
@@ -26,8 +32,8 @@ const CATEGORY_KEYWORDS: Record<BrandCategory, string[]> = {
     'bakery', 'grill', 'diner', 'eatery', 'brewery', 'winery', 'bar'
   ],
   'Automotive': [
-    'auto', 'motor', 'car', 'vehicle', 'automotive', 'drive', 'garage',
-    'wheel', 'tire', 'transport'
+    'auto', 'motor', 'car', 'vehicle', 'automotive', 'garage',
+    'wheel', 'tire', 'transport', 'motorcycle', 'motorsport', 'automobile'
   ],
   'Finance & Banking': [
     'bank', 'finance', 'credit', 'invest', 'capital', 'fund', 'insurance',
@@ -39,7 +45,7 @@ const CATEGORY_KEYWORDS: Record<BrandCategory, string[]> = {
   ],
   'Media & Entertainment': [
     'media', 'entertainment', 'studio', 'film', 'music', 'tv', 'radio',
-    'broadcast', 'production', 'entertainment', 'streaming', 'gaming'
+    'broadcast', 'production', 'entertainment', 'streaming', 'gaming', 'musical'
   ],
   'Retail': [
     'retail', 'store', 'shop', 'market', 'mart', 'outlet', 'mall', 'plaza',
@@ -47,36 +53,76 @@ const CATEGORY_KEYWORDS: Record<BrandCategory, string[]> = {
   ],
   'Sports & Fitness': [
     'sport', 'fitness', 'gym', 'athletic', 'training', 'workout', 'exercise',
-    'yoga', 'wellness', 'active', 'outdoors'
+    'yoga', 'wellness', 'active', 'outdoors', 'fc', 'football', 'soccer',
+    'basketball', 'baseball', 'hockey', 'racing', 'league', 'sporting'
   ],
   'Other': []
 };
 
+/**
+ * Check whether a word is a keyword or its plural
+ * Other forms are listed as keywords of their own ("motorcycle", "technology"),
+ * since open prefixes match unrelated words ("mart" in "Martin", "motor" in "Motorola")
+ */
+function matchesKeyword(word: string, keyword: string): boolean {
+  return word === keyword || word === `${keyword}s` || word === `${keyword}es`;
+}
+
+/**
+ * Score categories by the number of distinct keywords found in the name's words
+ * Categories without a match are omitted
+ *
+ * @example
+ * scoreCategories("FC Barcelona") // { 'Sports & Fitness': 1 } ("bar" is not a word here)
+ * scoreCategories("Fitness Food Bar") // { 'Food & Beverage': 2, 'Sports & Fitness': 1 }
+ */
+export function scoreCategories(brandName: string): Partial<Record<BrandCategory, number>> {
+  const words = normalizeText(brandName).split(' ').filter(Boolean);
+  const scores: Partial<Record<BrandCategory, number>> = {};
+
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS) as [BrandCategory, string[]][]) {
+    const matched = new Set(
+      keywords.filter(keyword => words.some(word => matchesKeyword(word, keyword)))
+    );
+    if (matched.size > 0) {
+      scores[category] = matched.size;
+    }
+  }
+
+  return scores;
+}
+
 /**
  * Infer brand category from brand name
  *
  * Uses keyword matching to determine the most likely category for a brand.
- * Defaults to "Other" if no keywords match.
+ * Defaults to "Other" if no keywords match or two categories score the same.
  *
  * @param brandName - Brand name to analyze
  * @returns Inferred brand category
+ *
+ * @example
+ * inferCategory("Bank of America") // 'Finance & Banking'
+ * inferCategory("FC Barcelona") // 'Sports & Fitness'
+ * inferCategory("Applebee's") // 'Other' (no longer 'Technology' via "app")
  */
 export function inferCategory(brandName: string): BrandCategory {
-  const lowerName = brandName.toLowerCase();
-
-  // Check each category's keywords
-  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
-    if (category === 'Other') continue;
+  let best: BrandCategory = 'Other';
+  let bestScore = 0;
+  let tied = false;
 
-    for (const keyword of keywords) {
-      if (lowerName.includes(keyword)) {
-        return category as BrandCategory;
-      }
+  for (const [category, score] of Object.entries(scoreCategories(brandName)) as [BrandCategory, number][]) {
+    if (score > bestScore) {
+      best = category;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore) {
+      tied = true;
     }
   }
 
-  // Default to "Other" if no match found
-  return 'Other';
+  // Ambiguous names are better left uncategorized than guessed
+  return tied ? 'Other' : best;
 }
 
 /**
@@ -0,0 +1,118 @@
+/**
+ * Brand category resolution
+ *
+ * Decides a brand's BrandCategory from, in order of precedence:
+ * 1. A manual override (category-overrides.json)
+ * 2. The brand's category in the quarterly survey CSVs, mapped to a BrandCategory
+ * 3. Keyword inference from the brand name (utils/categoryInference.ts)
+ */
+
+import { promises as fs } from 'fs';
+import type {
+  BrandCategory,
+  CategoryOverrideFile,
+  CategoryResolution,
+} from '../types/brand';
+import { inferCategory, isValidCategory } from './categoryInference';
+import { surveyCategoryKey } from './benchmarks';
+
+/**
+ * Default overrides file location, relative to the project root
+ */
+export const CATEGORY_OVERRIDES_PATH = 'data/brands/category-overrides.json';
+
+/**
+ * Survey CSV categories (by surveyCategoryKey) → BrandCategory
+ * Categories without a close BrandCategory map to 'Other' explicitly, so a
+ * survey category still beats a keyword guess
+ */
+const SURVEY_CATEGORY_MAP: Record<string, BrandCategory> = {
+  'beauty products': 'Apparel & Fashion',
+  beverages: 'Food & Beverage',
+  cars: 'Automotive',
+  "children's products": 'Retail',
+  'clothing products': 'Apparel & Fashion',
+  'department stores': 'Retail',
+  'financial services': 'Finance & Banking',
+  'food and dining': 'Food & Beverage',
+  'health products and services': 'Healthcare',
+  'home design and decoration': 'Retail',
+  'household products (cleaning ingredients etc.)': 'Other',
+  'media and entertainment': 'Media & Entertainment',
+  'sports and hobbies': 'Sports & Fitness',
+  'technology products and stores': 'Technology',
+  telecommunications: 'Technology',
+  'travel services': 'Other',
+};
+
+/**
+ * Map a survey CSV category to a BrandCategory
+ *
+ * @returns The BrandCategory, or null if the survey category is not mapped
+ *
+ * @example
+ * mapSurveyCategory('Food and dining') // 'Food & Beverage'
+ * mapSurveyCategory('Department Stores') // 'Retail'
+ * mapSurveyCategory('Pet supplies') // null
+ */
+export function mapSurveyCategory(csvCategory: string): BrandCategory | null {
+  return SURVEY_CATEGORY_MAP[surveyCategoryKey(csvCategory)] ?? null;
+}
+
+/**
+ * Resolve a brand's category
+ * Unmapped survey categories fall through to inference
+ *
+ * @example
+ * resolveBrandCategory('FC Barcelona', {}) // { category: 'Sports & Fitness', source: 'inferred' }
+ * resolveBrandCategory("Applebee's", { surveyCategory: 'Food and dining' })
+ * // { category: 'Food & Beverage', source: 'survey', surveyCategory: 'Food and dining' }
+ */
+export function resolveBrandCategory(
+  brandName: string,
+  { override, surveyCategory }: { override?: BrandCategory; surveyCategory?: string }
+): CategoryResolution {
+  if (override) {
+    return { category: override, source: 'override' };
+  }
+
+  const mapped = surveyCategory ? mapSurveyCategory(surveyCategory) : null;
+  if (mapped && surveyCategory) {
+    return { category: mapped, source: 'survey', surveyCategory: surveyCategory.trim() };
+  }
+
+  return { category: inferCategory(brandName), source: 'inferred' };
+}
+
+/**
+ * Read the overrides file; a missing file means no overrides
+ *
+ * @param filePath - Path to category-overrides.json
+ * @throws Error if the file is invalid or names an unknown category
+ */
+export async function loadCategoryOverrides(filePath: string): Promise<CategoryOverrideFile> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { overrides: {} };
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(content) as Partial<CategoryOverrideFile>;
+  if (!parsed.overrides || typeof parsed.overrides !== 'object') {
+    throw new Error(`Invalid overrides file ${filePath}: "overrides" must be an object`);
+  }
+
+  const invalid = Object.entries(parsed.overrides).filter(
+    ([, category]) => !isValidCategory(String(category))
+  );
+  if (invalid.length > 0) {
+    const list = invalid.map(([brandId, category]) => `${brandId}: "${category}"`).join(', ');
+    throw new Error(`Invalid categories in ${filePath}: ${list}`);
+  }
+
+  return { overrides: parsed.overrides };
+}
@@ -0,0 +1,174 @@
+/**
+ * Scale and tick helpers for the SVG charts
+ * Feature: 004-quarterly-data-association
+ */
+
+/**
+ * Map a value from a domain onto a pixel range
+ *
+ * @example
+ * const x = linearScale([0, 100], [0, 500]);
+ * x(50) // 250
+ */
+export function linearScale(
+  domain: [number, number],
+  range: [number, number]
+): (value: number) => number {
+  const [d0, d1] = domain;
+  const [r0, r1] = range;
+  const span = d1 - d0;
+
+  // Degenerate domain (single value): place everything in the middle
+  if (span === 0) {
+    return () => (r0 + r1) / 2;
+  }
+
+  return (value: number) => r0 + ((value - d0) / span) * (r1 - r0);
+}
+
+/**
+ * Min and max of the non-null values, or null if there are none
+ */
+export function extent(values: Array<number | null>): [number, number] | null {
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (const value of values) {
+    if (value === null || !Number.isFinite(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+
+  return min === Infinity ? null : [min, max];
+}
+
+/**
+ * Round a step to 1, 2 or 5 × a power of ten
+ */
+function niceStep(roughStep: number): number {
+  const power = Math.pow(10, Math.floor(Math.log10(roughStep)));
+  const fraction = roughStep / power;
+
+  if (fraction <= 1) return power;
+  if (fraction <= 2) return 2 * power;
+  if (fraction <= 5) return 5 * power;
+  return 10 * power;
+}
+
+/**
+ * Expand a domain to round numbers and return evenly spaced ticks across it
+ *
+ * @example
+ * niceTicks(3.2, 47.9, 5) // { domain: [0, 50], ticks: [0, 10, 20, 30, 40, 50] }
+ */
+export function niceTicks(
+  min: number,
+  max: number,
+  count = 5
+): { domain: [number, number]; ticks: number[] } {
+  if (min === max) {
+    // Pad a flat series so it doesn't sit on the axis
+    const pad = min === 0 ? 1 : Math.abs(min) * 0.1;
+    min -= pad;
+    max += pad;
+  }
+
+  const step = niceStep((max - min) / Math.max(1, count));
+  const niceMin = Math.floor(min / step) * step;
+  const niceMax = Math.ceil(max / step) * step;
+
+  const ticks: number[] = [];
+  // Round to the step's precision to avoid 0.30000000000000004
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  for (let value = niceMin; value <= niceMax + step / 2; value += step) {
+    ticks.push(Number(value.toFixed(decimals)));
+  }
+
+  return { domain: [niceMin, niceMax], ticks };
+}
+
+const QUARTER_PATTERN = /^(\d{4})Q([1-4])$/;
+
+/**
+ * Every calendar quarter from the earliest to the latest of the given quarters,
+ * so quarters without data keep their place on a time axis instead of closing up
+ * (returns the quarters unchanged if any is not in YYYYQn form)
+ *
+ * @example
+ * continuousQuarters(['2009Q4', '2010Q2']) // ['2009Q4', '2010Q1', '2010Q2']
+ */
+export function continuousQuarters(quarters: string[]): string[] {
+  const indices: number[] = [];
+  for (const quarter of quarters) {
+    const match = QUARTER_PATTERN.exec(quarter);
+    if (!match) return quarters;
+    indices.push(Number(match[1]) * 4 + Number(match[2]) - 1);
+  }
+  if (indices.length === 0) return quarters;
+
+  const range: string[] = [];
+  for (let index = Math.min(...indices); index <= Math.max(...indices); index++) {
+    range.push(`${Math.floor(index / 4)}Q${(index % 4) + 1}`);
+  }
+  return range;
+}
+
+/**
+ * Categorical palette shared by the charts (colorblind-friendly, Okabe-Ito based)
+ */
+export const SERIES_COLORS = [
+  '#0072b2',
+  '#e69f00',
+  '#009e73',
+  '#cc79a7',
+  '#d55e00',
+  '#56b4e9',
+  '#7f6a00',
+  '#332288',
+  '#882255',
+  '#44aa99',
+];
+
+/**
+ * Color for the nth series (cycles through the palette)
+ */
+export function seriesColor(index: number): string {
+  return SERIES_COLORS[index % SERIES_COLORS.length];
+}
+
+/**
+ * Stops of the sequential palette (viridis), from low to high
+ */
+const SEQUENTIAL_STOPS = ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'];
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Color for a position (0-1) on the sequential palette, as rgb()
+ *
+ * @example
+ * sequentialColor(0) // "rgb(68, 1, 84)"
+ * sequentialColor(1) // "rgb(253, 231, 37)"
+ */
+export function sequentialColor(t: number): string {
+  const clamped = Math.min(Math.max(Number.isFinite(t) ? t : 0, 0), 1);
+  const position = clamped * (SEQUENTIAL_STOPS.length - 1);
+  const index = Math.min(Math.floor(position), SEQUENTIAL_STOPS.length - 2);
+  const fraction = position - index;
+
+  const from = hexToRgb(SEQUENTIAL_STOPS[index]);
+  const to = hexToRgb(SEQUENTIAL_STOPS[index + 1]);
+  const [r, g, b] = from.map((channel, i) => Math.round(channel + (to[i] - channel) * fraction));
+
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * CSS gradient across the sequential palette (for legends)
+ */
+export function sequentialGradient(direction = 'to right'): string {
+  return `linear-gradient(${direction}, ${SEQUENTIAL_STOPS.join(', ')})`;
+}
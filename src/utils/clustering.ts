@@ -0,0 +1,266 @@
+/**
+ * Clustering Utilities
+ * Feature: 004-quarterly-data-association
+ *
+ * k-means and agglomerative (hierarchical) clustering over numeric vectors.
+ * Pure functions, shared by the clustering Web Worker and its in-thread fallback.
+ */
+
+import type { ClusteringAlgorithm } from '../types/quarterlyData';
+
+/**
+ * Message sent to the clustering worker
+ */
+export interface ClusteringRequest {
+  id: number;
+  algorithm: ClusteringAlgorithm;
+  k: number;
+  points: number[][];
+}
+
+/**
+ * Message sent back by the clustering worker
+ * assignments[i] is the cluster index (0..k-1) of points[i]
+ */
+export type ClusteringResponse =
+  | { id: number; assignments: number[] }
+  | { id: number; error: string };
+
+// Restarts keep k-means from settling on a poor local minimum
+const KMEANS_RESTARTS = 8;
+const KMEANS_MAX_ITERATIONS = 100;
+
+function squaredDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - b[i]) ** 2;
+  }
+  return sum;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so the same inputs always give the same clusters
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Choose initial centroids with k-means++ (spread out, weighted by distance)
+ */
+function seedCentroids(points: number[][], k: number, random: () => number): number[][] {
+  const centroids = [points[Math.floor(random() * points.length)]];
+
+  while (centroids.length < k) {
+    const weights = points.map(point =>
+      Math.min(...centroids.map(centroid => squaredDistance(point, centroid)))
+    );
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    // Every point coincides with a centroid - any choice is as good as another
+    if (total === 0) {
+      centroids.push(points[centroids.length % points.length]);
+      continue;
+    }
+
+    let target = random() * total;
+    let index = 0;
+    while (target > weights[index] && index < points.length - 1) {
+      target -= weights[index];
+      index++;
+    }
+    centroids.push(points[index]);
+  }
+
+  return centroids.map(centroid => [...centroid]);
+}
+
+/**
+ * Mean of each cluster's points
+ * An empty cluster takes the point farthest from its own centroid
+ */
+function updateCentroids(
+  points: number[][],
+  assignments: number[],
+  previous: number[][]
+): number[][] {
+  const dimensions = points[0].length;
+  const sums = previous.map(() => new Array<number>(dimensions).fill(0));
+  const counts = new Array<number>(previous.length).fill(0);
+
+  points.forEach((point, i) => {
+    const cluster = assignments[i];
+    counts[cluster]++;
+    for (let d = 0; d < dimensions; d++) {
+      sums[cluster][d] += point[d];
+    }
+  });
+
+  return sums.map((sum, cluster) => {
+    if (counts[cluster] > 0) {
+      return sum.map(value => value / counts[cluster]);
+    }
+
+    let farthest = 0;
+    let farthestDistance = -1;
+    points.forEach((point, i) => {
+      const distance = squaredDistance(point, previous[assignments[i]]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    });
+    return [...points[farthest]];
+  });
+}
+
+function nearestCentroid(point: number[], centroids: number[][]): number {
+  let nearest = 0;
+  let nearestDistance = Infinity;
+  centroids.forEach((centroid, index) => {
+    const distance = squaredDistance(point, centroid);
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * k-means (Lloyd's algorithm with k-means++ seeding)
+ * The run with the lowest within-cluster sum of squares wins
+ *
+ * @example
+ * kMeans([[0, 0], [0, 1], [9, 9], [9, 8]], 2) // [0, 0, 1, 1]
+ */
+export function kMeans(points: number[][], k: number, seed = 1): number[] {
+  if (points.length === 0) return [];
+  const clusterCount = Math.min(Math.max(Math.floor(k), 1), points.length);
+  const random = createRandom(seed);
+
+  let best: number[] = [];
+  let bestInertia = Infinity;
+
+  for (let restart = 0; restart < KMEANS_RESTARTS; restart++) {
+    let centroids = seedCentroids(points, clusterCount, random);
+    let assignments = points.map(point => nearestCentroid(point, centroids));
+
+    for (let iteration = 0; iteration < KMEANS_MAX_ITERATIONS; iteration++) {
+      centroids = updateCentroids(points, assignments, centroids);
+      const next = points.map(point => nearestCentroid(point, centroids));
+      const changed = next.some((cluster, i) => cluster !== assignments[i]);
+      assignments = next;
+      if (!changed) break;
+    }
+
+    const inertia = points.reduce(
+      (sum, point, i) => sum + squaredDistance(point, centroids[assignments[i]]),
+      0
+    );
+    if (inertia < bestInertia) {
+      best = assignments;
+      bestInertia = inertia;
+    }
+  }
+
+  return relabel(best);
+}
+
+/**
+ * Agglomerative clustering with average linkage, cut at k clusters
+ * O(n³) - fine for a quarter's few hundred brands
+ *
+ * @example
+ * hierarchicalClusters([[0, 0], [0, 1], [9, 9], [9, 8]], 2) // [0, 0, 1, 1]
+ */
+export function hierarchicalClusters(points: number[][], k: number): number[] {
+  if (points.length === 0) return [];
+  const clusterCount = Math.min(Math.max(Math.floor(k), 1), points.length);
+
+  // Each point starts as its own cluster
+  let clusters: number[][] = points.map((_, i) => [i]);
+  const distances = points.map(a => points.map(b => Math.sqrt(squaredDistance(a, b))));
+
+  const linkage = (a: number[], b: number[]): number => {
+    let sum = 0;
+    for (const i of a) {
+      for (const j of b) {
+        sum += distances[i][j];
+      }
+    }
+    return sum / (a.length * b.length);
+  };
+
+  while (clusters.length > clusterCount) {
+    let mergeA = 0;
+    let mergeB = 1;
+    let closest = Infinity;
+
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const distance = linkage(clusters[a], clusters[b]);
+        if (distance < closest) {
+          closest = distance;
+          mergeA = a;
+          mergeB = b;
+        }
+      }
+    }
+
+    clusters = [
+      ...clusters.filter((_, index) => index !== mergeA && index !== mergeB),
+      [...clusters[mergeA], ...clusters[mergeB]],
+    ];
+  }
+
+  const assignments = new Array<number>(points.length).fill(0);
+  clusters.forEach((members, cluster) => {
+    for (const i of members) {
+      assignments[i] = cluster;
+    }
+  });
+
+  return relabel(assignments);
+}
+
+/**
+ * Renumber clusters by size (largest first), ties by first member
+ * so results don't depend on internal ordering
+ */
+function relabel(assignments: number[]): number[] {
+  const sizes = new Map<number, number>();
+  const firstSeen = new Map<number, number>();
+
+  assignments.forEach((cluster, i) => {
+    sizes.set(cluster, (sizes.get(cluster) ?? 0) + 1);
+    if (!firstSeen.has(cluster)) firstSeen.set(cluster, i);
+  });
+
+  const order = Array.from(sizes.keys()).sort(
+    (a, b) =>
+      (sizes.get(b) as number) - (sizes.get(a) as number) ||
+      (firstSeen.get(a) as number) - (firstSeen.get(b) as number)
+  );
+  const labels = new Map(order.map((cluster, index) => [cluster, index]));
+
+  return assignments.map(cluster => labels.get(cluster) as number);
+}
+
+/**
+ * Run the chosen algorithm
+ */
+export function clusterPoints(
+  algorithm: ClusteringAlgorithm,
+  points: number[][],
+  k: number
+): number[] {
+  return algorithm === 'hierarchical' ? hierarchicalClusters(points, k) : kMeans(points, k);
+}
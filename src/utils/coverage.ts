@@ -0,0 +1,35 @@
+/**
+ * Brand data coverage helpers
+ * Feature: 004-quarterly-data-association
+ *
+ * Shared by the processing script (brands/index.json) and the client-side
+ * availability index so both compute coverage the same way.
+ */
+
+import type { BrandCoverageEntry } from '../types/quarterlyData';
+
+/**
+ * Build coverage statistics for a brand from the quarters it has data in
+ *
+ * @param brandQuarters - Quarters where the brand has data (any order)
+ * @param totalQuarters - Number of quarters available in the system
+ * @returns Coverage entry with sorted quarters and percentage rounded to 2 decimals
+ *
+ * @example
+ * createCoverageEntry(["2009Q1", "2008Q1"], 4)
+ * // { quarters: ["2008Q1", "2009Q1"], firstQuarter: "2008Q1", lastQuarter: "2009Q1", coveragePercent: 50 }
+ */
+export function createCoverageEntry(
+  brandQuarters: string[],
+  totalQuarters: number
+): BrandCoverageEntry {
+  const quarters = [...brandQuarters].sort();
+  const coveragePercent = totalQuarters > 0 ? (quarters.length / totalQuarters) * 100 : 0;
+
+  return {
+    quarters,
+    firstQuarter: quarters.length > 0 ? quarters[0] : null,
+    lastQuarter: quarters.length > 0 ? quarters[quarters.length - 1] : null,
+    coveragePercent: Math.round(coveragePercent * 100) / 100,
+  };
+}
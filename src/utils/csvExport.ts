@@ -0,0 +1,70 @@
+/**
+ * CSV export utilities (browser)
+ *
+ * Builds RFC 4180 CSV text and hands it to the browser as a download.
+ */
+
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * Whether spreadsheet apps would evaluate text as a formula
+ * (it starts with =, +, -, @, a tab or a carriage return)
+ */
+export function isFormulaLike(text: string): boolean {
+  return /^[=+\-@\t\r]/.test(text);
+}
+
+/**
+ * Quote a field when it contains a comma, quote or line break
+ * Text that would be evaluated as a formula is prefixed with ' so Excel
+ * shows it as text
+ *
+ * @example
+ * escapeCsvField('Nike') // 'Nike'
+ * escapeCsvField('Dolce, Gabbana') // '"Dolce, Gabbana"'
+ * escapeCsvField('=HYPERLINK("x")') // '"\'=HYPERLINK(""x"")"'
+ */
+export function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && isFormulaLike(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from a header row and data rows (CRLF line endings)
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Make a portable file name: letters, digits, dot, dash and underscore only
+ *
+ * @example
+ * toSafeFilename('nike-quarterly metrics') // 'nike-quarterly-metrics'
+ */
+export function toSafeFilename(name: string): string {
+  return name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+}
+
+/**
+ * Offer content to the user as a file download
+ */
+export function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Download rows as a .csv file
+ */
+export function downloadCsv(filename: string, headers: string[], rows: CsvValue[][]): void {
+  downloadFile(filename, toCsv(headers, rows), 'text/csv;charset=utf-8');
+}
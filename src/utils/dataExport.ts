@@ -0,0 +1,146 @@
+/**
+ * Tabular data export (browser)
+ *
+ * One dataset description - columns with labels and units, plus rows -
+ * serialized as CSV, an XLSX workbook or JSON and offered as a download.
+ */
+
+import type { Brand } from '../types/brand';
+import type { BrandMetrics, MetricKey } from '../types/quarterlyData';
+import { downloadFile, toCsv, toSafeFilename, type CsvValue } from './csvExport';
+import { createXlsxWorkbook, XLSX_MIME_TYPE } from './xlsxWriter';
+import { getMetricDefinition } from './metricRegistry';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  /** Unit of the column's values, e.g. "%" or "score" */
+  unit?: string;
+}
+
+export interface ExportDataset {
+  /** Shown as the sheet name and in the JSON document */
+  title: string;
+  /** File name without extension */
+  filename: string;
+  columns: ExportColumn[];
+  rows: Array<Record<string, CsvValue>>;
+}
+
+const FORMAT_DETAILS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  xlsx: { extension: 'xlsx', mimeType: XLSX_MIME_TYPE },
+  json: { extension: 'json', mimeType: 'application/json' },
+};
+
+/**
+ * Header text for a column, with its unit when it has one
+ *
+ * @example
+ * columnHeader({ key: 'value', label: 'Brand Stature', unit: 'score' }) // 'Brand Stature (score)'
+ */
+export function columnHeader(column: ExportColumn): string {
+  return column.unit ? `${column.label} (${column.unit})` : column.label;
+}
+
+/**
+ * Unit label for a metric's values
+ */
+export function metricUnit(key: MetricKey): string {
+  return getMetricDefinition(key).unit === 'percent' ? '%' : 'score';
+}
+
+/**
+ * Serialize a dataset in the given format
+ */
+export function serializeDataset(dataset: ExportDataset, format: ExportFormat): BlobPart {
+  const headers = dataset.columns.map(columnHeader);
+  const rows = dataset.rows.map(row => dataset.columns.map(column => row[column.key] ?? null));
+
+  switch (format) {
+    case 'csv':
+      return toCsv(headers, rows);
+    case 'xlsx':
+      return createXlsxWorkbook([{ name: dataset.title, rows: [headers, ...rows] }]);
+    case 'json':
+      return JSON.stringify(
+        {
+          title: dataset.title,
+          exportedAt: new Date().toISOString(),
+          columns: dataset.columns,
+          rows: dataset.rows.map(row =>
+            Object.fromEntries(dataset.columns.map(column => [column.key, row[column.key] ?? null]))
+          ),
+        },
+        null,
+        2
+      );
+  }
+}
+
+/**
+ * Download a dataset as <filename>.<csv|xlsx|json>
+ */
+export function exportDataset(dataset: ExportDataset, format: ExportFormat): void {
+  const { extension, mimeType } = FORMAT_DETAILS[format];
+
+  downloadFile(
+    `${toSafeFilename(dataset.filename)}.${extension}`,
+    serializeDataset(dataset, format),
+    mimeType
+  );
+}
+
+/**
+ * Long-format dataset of a brand's metrics: one row per metric and quarter
+ *
+ * @example
+ * const dataset = brandMetricsDataset(brand, ['2009Q1', '2009Q2'], metricsByQuarter, ['Brand_Asset_C'], 'Nike metrics');
+ * dataset.rows[0] // { brand_id: 'nike', ..., quarter: '2009Q1', metric: 'Brand_Asset_C', value: 4.2 }
+ */
+export function brandMetricsDataset(
+  brand: Pick<Brand, 'id' | 'name'>,
+  quarters: string[],
+  metricsByQuarter: Map<string, BrandMetrics>,
+  metrics: MetricKey[],
+  title: string
+): ExportDataset {
+  const rows: ExportDataset['rows'] = [];
+
+  for (const quarter of quarters) {
+    const values = metricsByQuarter.get(quarter);
+    for (const metric of metrics) {
+      const definition = getMetricDefinition(metric);
+      rows.push({
+        brand_id: brand.id,
+        brand_name: brand.name,
+        quarter,
+        metric,
+        metric_label: definition.label,
+        metric_group: definition.group,
+        unit: metricUnit(metric),
+        value: values ? values[metric] : null,
+      });
+    }
+  }
+
+  return {
+    title,
+    filename: `${brand.id}-${title}`.toLowerCase(),
+    columns: [
+      { key: 'brand_id', label: 'Brand ID' },
+      { key: 'brand_name', label: 'Brand' },
+      { key: 'quarter', label: 'Quarter' },
+      { key: 'metric', label: 'Metric key' },
+      { key: 'metric_label', label: 'Metric' },
+      { key: 'metric_group', label: 'Metric group' },
+      { key: 'unit', label: 'Unit' },
+      { key: 'value', label: 'Value' },
+    ],
+    rows,
+  };
+}
@@ -0,0 +1,298 @@
+/**
+ * Image export utilities (browser)
+ *
+ * Turns on-screen SVG charts into standalone SVG files - styles inlined,
+ * images embedded - and rasterizes them to PNG through a canvas.
+ */
+
+import { downloadFile, toSafeFilename } from './csvExport';
+
+/**
+ * Standalone SVG markup with its intrinsic size
+ */
+export interface SvgImage {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+// Presentation properties that charts set through CSS classes
+const INLINED_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-dasharray',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'stroke-opacity',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-style',
+  'font-weight',
+  'text-anchor',
+  'dominant-baseline',
+  'visibility',
+];
+
+/**
+ * Elements to leave out of exports (hover guides, brush targets...)
+ * Mark them with data-export="exclude"
+ */
+const EXCLUDED_SELECTOR = '[data-export="exclude"]';
+
+const DEFAULT_BACKGROUND = '#ffffff';
+
+/**
+ * Escape text for use in SVG markup
+ */
+export function escapeSvgText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Fetch an image and return it as a data: URL, or null if it can't be loaded
+ * SVG files rendered as images can't load external resources, so logos are embedded
+ */
+export async function fetchAsDataUrl(url: string): Promise<string | null> {
+  if (url.startsWith('data:')) return url;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    return await blobToDataUrl(await response.blob());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copy computed presentation styles from the live tree onto the clone
+ */
+function inlineStyles(source: Element, target: Element): void {
+  const computed = window.getComputedStyle(source);
+  const declarations = INLINED_PROPERTIES.map(
+    property => `${property}:${computed.getPropertyValue(property)}`
+  ).filter(declaration => !declaration.endsWith(':'));
+
+  target.setAttribute(
+    'style',
+    [target.getAttribute('style'), ...declarations].filter(Boolean).join(';')
+  );
+
+  for (let i = 0; i < source.children.length; i++) {
+    inlineStyles(source.children[i], target.children[i]);
+  }
+}
+
+/**
+ * Extras drawn around an exported chart (legends usually live in HTML)
+ */
+export interface ChartImageOptions {
+  title?: string;
+  legend?: Array<{ label: string; color: string }>;
+  background?: string;
+}
+
+const TITLE_HEIGHT = 32;
+const LEGEND_ROW_HEIGHT = 20;
+const LEGEND_FONT_SIZE = 12;
+const PADDING = 12;
+const FONT_FAMILY = 'Inter, system-ui, Helvetica, Arial, sans-serif';
+
+/**
+ * Lay legend entries out in rows; widths are estimated from the label length
+ */
+function layoutLegend(
+  legend: Array<{ label: string; color: string }>,
+  width: number
+): Array<{ label: string; color: string; x: number; row: number }> {
+  const items = [];
+  let x = PADDING;
+  let row = 0;
+
+  for (const entry of legend) {
+    const itemWidth = 20 + entry.label.length * LEGEND_FONT_SIZE * 0.55 + 16;
+    if (x + itemWidth > width - PADDING && x > PADDING) {
+      x = PADDING;
+      row++;
+    }
+    items.push({ ...entry, x, row });
+    x += itemWidth;
+  }
+
+  return items;
+}
+
+/**
+ * Serialize an on-screen SVG chart as a standalone image
+ *
+ * @example
+ * const image = await svgElementToImage(svgRef.current, { title: 'Brand Stature' });
+ * downloadSvgImage(image, 'trend');
+ */
+export async function svgElementToImage(
+  svg: SVGSVGElement | null,
+  options: ChartImageOptions = {}
+): Promise<SvgImage> {
+  if (!svg) {
+    throw new Error('The chart is not ready to export');
+  }
+
+  const { title, legend = [], background = DEFAULT_BACKGROUND } = options;
+  const viewBox = svg.viewBox.baseVal;
+  const bounds = svg.getBoundingClientRect();
+  const chartWidth = viewBox && viewBox.width > 0 ? viewBox.width : bounds.width;
+  const chartHeight = viewBox && viewBox.height > 0 ? viewBox.height : bounds.height;
+
+  const chart = svg.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svg, chart);
+  chart.querySelectorAll(EXCLUDED_SELECTOR).forEach(element => element.remove());
+  for (const attribute of ['class', 'tabindex', 'role', 'style']) {
+    chart.removeAttribute(attribute);
+  }
+  if (!chart.getAttribute('viewBox')) {
+    chart.setAttribute('viewBox', `0 0 ${chartWidth} ${chartHeight}`);
+  }
+
+  // Embed images (e.g. logo markers)
+  await Promise.all(
+    Array.from(chart.querySelectorAll('image')).map(async image => {
+      const href = image.getAttribute('href') ?? image.getAttributeNS(XLINK_NS, 'href');
+      if (!href) return;
+      const dataUrl = await fetchAsDataUrl(href);
+      if (dataUrl) {
+        image.setAttribute('href', dataUrl);
+      } else {
+        image.remove();
+      }
+    })
+  );
+
+  const legendItems = layoutLegend(legend, chartWidth);
+  const legendRows = legendItems.length > 0 ? legendItems[legendItems.length - 1].row + 1 : 0;
+  const top = title ? TITLE_HEIGHT : 0;
+  const width = chartWidth;
+  const height = top + chartHeight + (legendRows > 0 ? legendRows * LEGEND_ROW_HEIGHT + PADDING : 0);
+
+  chart.setAttribute('x', '0');
+  chart.setAttribute('y', String(top));
+  chart.setAttribute('width', String(chartWidth));
+  chart.setAttribute('height', String(chartHeight));
+
+  const root = document.createElementNS(SVG_NS, 'svg');
+  root.setAttribute('xmlns', SVG_NS);
+  root.setAttribute('xmlns:xlink', XLINK_NS);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+  root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  root.setAttribute('font-family', FONT_FAMILY);
+
+  const backdrop = document.createElementNS(SVG_NS, 'rect');
+  backdrop.setAttribute('width', String(width));
+  backdrop.setAttribute('height', String(height));
+  backdrop.setAttribute('fill', background);
+  root.appendChild(backdrop);
+
+  if (title) {
+    const heading = document.createElementNS(SVG_NS, 'text');
+    heading.setAttribute('x', String(PADDING));
+    heading.setAttribute('y', String(TITLE_HEIGHT - 10));
+    heading.setAttribute('font-size', '16');
+    heading.setAttribute('font-weight', '600');
+    heading.setAttribute('fill', '#111827');
+    heading.textContent = title;
+    root.appendChild(heading);
+  }
+
+  root.appendChild(chart);
+
+  for (const item of legendItems) {
+    const y = top + chartHeight + item.row * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2;
+    const swatch = document.createElementNS(SVG_NS, 'rect');
+    swatch.setAttribute('x', String(item.x));
+    swatch.setAttribute('y', String(y - 5));
+    swatch.setAttribute('width', '14');
+    swatch.setAttribute('height', '10');
+    swatch.setAttribute('rx', '2');
+    swatch.setAttribute('fill', item.color);
+    const label = document.createElementNS(SVG_NS, 'text');
+    label.setAttribute('x', String(item.x + 20));
+    label.setAttribute('y', String(y));
+    label.setAttribute('dy', '0.32em');
+    label.setAttribute('font-size', String(LEGEND_FONT_SIZE));
+    label.setAttribute('fill', '#374151');
+    label.textContent = item.label;
+    root.append(swatch, label);
+  }
+
+  const markup = new XMLSerializer().serializeToString(root);
+  return { markup: `<?xml version="1.0" encoding="UTF-8"?>\n${markup}`, width, height };
+}
+
+/**
+ * Rasterize an SVG image to PNG
+ * Scale 2 keeps text crisp when pasted into slides
+ */
+export async function svgImageToPng(image: SvgImage, scale = 2): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([image.markup], { type: 'image/svg+xml' }));
+
+  try {
+    const element = new Image();
+    element.decoding = 'async';
+    await new Promise<void>((resolve, reject) => {
+      element.onload = () => resolve();
+      element.onerror = () => reject(new Error('Failed to render the image'));
+      element.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not supported in this browser');
+    }
+    context.drawImage(element, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error('Failed to encode the PNG'))),
+        'image/png'
+      );
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Download an image as <filename>.svg
+ */
+export function downloadSvgImage(image: SvgImage, filename: string): void {
+  downloadFile(`${toSafeFilename(filename)}.svg`, image.markup, 'image/svg+xml');
+}
+
+/**
+ * Download an image as <filename>.png
+ */
+export async function downloadPngImage(image: SvgImage, filename: string): Promise<void> {
+  downloadFile(`${toSafeFilename(filename)}.png`, await svgImageToPng(image), 'image/png');
+}
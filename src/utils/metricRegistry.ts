@@ -0,0 +1,353 @@
+/**
+ * Metric registry
+ * Feature: 004-quarterly-data-association
+ *
+ * Single source of truth for every metric column in the quarterly CSV files:
+ * label, group, unit, nominal scale, direction and description.
+ * Components, formatting and CSV parsing are all driven from this table.
+ */
+
+import type { MetricDefinition, MetricGroup, MetricKey } from '../types/quarterlyData';
+
+type MetricMetadata = Omit<MetricDefinition, 'key'>;
+
+const PERCENT_SCALE = { min: 0, max: 100 };
+
+function percent(
+  label: string,
+  group: MetricGroup,
+  description: string,
+  higherIsBetter = true
+): MetricMetadata {
+  return { label, group, unit: 'percent', scale: PERCENT_SCALE, higherIsBetter, description };
+}
+
+function score(
+  label: string,
+  group: MetricGroup,
+  scale: { min: number; max: number },
+  description: string,
+  higherIsBetter = true
+): MetricMetadata {
+  return { label, group, unit: 'score', scale, higherIsBetter, description };
+}
+
+const imageAttribute = (label: string, higherIsBetter = true): MetricMetadata =>
+  percent(
+    label,
+    'Brand Image',
+    `Share of respondents who describe the brand as "${label.toLowerCase()}"`,
+    higherIsBetter
+  );
+
+const personalityFactor = (label: string, traits: string, higherIsBetter = true) =>
+  score(
+    label,
+    'Personality Factors',
+    { min: 0, max: 50 },
+    `Personality factor associated with being ${traits}`,
+    higherIsBetter
+  );
+
+const loyaltyStatement = (label: string, statement: string): MetricMetadata =>
+  percent(label, 'Loyalty & Relationship', `Share of users who agree: "${statement}"`);
+
+/**
+ * Metadata for every BrandMetrics field, in CSV column order
+ * Typed as a Record so a missing or misspelled key fails type-checking
+ */
+const METRIC_METADATA: Record<MetricKey, MetricMetadata> = {
+  // Usage & consideration
+  Total_Users_pct: percent(
+    'Total Users',
+    'Awareness & Preference',
+    'Share of respondents who use the brand'
+  ),
+  Total_Prefer_pct: percent(
+    'Total Prefer',
+    'Awareness & Preference',
+    'Share of respondents who prefer the brand over others in its category'
+  ),
+
+  // The four pillars and their composites
+  Energized_Differentiation_C: score(
+    'Energized Differentiation',
+    'Brand Equity',
+    { min: 0, max: 2 },
+    "Pillar measuring the brand's meaning, momentum and ability to stand apart"
+  ),
+  Relevance_C: score(
+    'Relevance',
+    'Brand Equity',
+    { min: 0, max: 7 },
+    'Pillar measuring how appropriate the brand is to personal needs'
+  ),
+  Esteem_C: score(
+    'Esteem',
+    'Brand Equity',
+    { min: 0, max: 2 },
+    'Pillar measuring how well regarded the brand is'
+  ),
+  Knowledge_C: score(
+    'Knowledge',
+    'Brand Equity',
+    { min: 0, max: 7 },
+    'Pillar measuring how well understood the brand is'
+  ),
+  Brand_Stature_C: score(
+    'Brand Stature',
+    'Brand Equity',
+    { min: 0, max: 10 },
+    "Esteem × Knowledge: the brand's current operating power"
+  ),
+  Brand_Strength_C: score(
+    'Brand Strength',
+    'Brand Equity',
+    { min: 0, max: 10 },
+    "Energized Differentiation × Relevance: the brand's future growth potential"
+  ),
+  Brand_Asset_C: score(
+    'Brand Asset',
+    'Brand Equity',
+    { min: 0, max: 50 },
+    'Stature × Strength: overall brand equity'
+  ),
+
+  // Components of differentiation and energy
+  Different_pct: percent('Different', 'Differentiation', 'Seen as different from other brands'),
+  Distinctive_pct: percent('Distinctive', 'Differentiation', 'Seen as distinctive'),
+  Unique_pct: percent('Unique', 'Differentiation', 'Seen as unique'),
+  Dynamic_pct: percent('Dynamic', 'Differentiation', 'Seen as dynamic (component of energy)'),
+  Innovative_pct: percent(
+    'Innovative',
+    'Differentiation',
+    'Seen as innovative (component of energy)'
+  ),
+
+  // Components of esteem
+  Leader_pct: percent('Leader', 'Esteem & Quality', 'Seen as a leader in its category'),
+  Reliable_pct: percent('Reliable', 'Esteem & Quality', 'Seen as reliable'),
+  High_quality_pct: percent('High Quality', 'Esteem & Quality', 'Seen as high quality'),
+
+  // Brand image attributes
+  Arrogant_pct: imageAttribute('Arrogant', false),
+  Authentic_pct: imageAttribute('Authentic'),
+  Best_Brand_pct: imageAttribute('Best Brand'),
+  Carefree_pct: imageAttribute('Carefree'),
+  Cares_Customers_pct: imageAttribute('Cares About Customers'),
+  Charming_pct: imageAttribute('Charming'),
+  Daring_pct: imageAttribute('Daring'),
+  Down_to_Earth_pct: imageAttribute('Down to Earth'),
+  Energetic_pct: imageAttribute('Energetic'),
+  Friendly_pct: imageAttribute('Friendly'),
+  Fun_pct: imageAttribute('Fun'),
+  Gaining_In_Popularity_pct: imageAttribute('Gaining in Popularity'),
+  Glamorous_pct: imageAttribute('Glamorous'),
+  Good_Value_pct: imageAttribute('Good Value'),
+  Healthy_pct: imageAttribute('Healthy'),
+  Helpful_pct: imageAttribute('Helpful'),
+  High_Performance_pct: imageAttribute('High Performance'),
+  Independent_pct: imageAttribute('Independent'),
+  Intelligent_pct: imageAttribute('Intelligent'),
+  Kind_pct: imageAttribute('Kind'),
+  Obliging_pct: imageAttribute('Obliging'),
+  Original_pct: imageAttribute('Original'),
+  Prestigious_pct: imageAttribute('Prestigious'),
+  Progressive_pct: imageAttribute('Progressive'),
+  Restrained_pct: imageAttribute('Restrained'),
+  Rugged_pct: imageAttribute('Rugged'),
+  Sensuous_pct: imageAttribute('Sensuous'),
+  Simple_pct: imageAttribute('Simple'),
+  Social_pct: imageAttribute('Social'),
+  Socially_Responsible_pct: imageAttribute('Socially Responsible'),
+  Straightforward_pct: imageAttribute('Straightforward'),
+  Stylish_pct: imageAttribute('Stylish'),
+  Traditional_pct: imageAttribute('Traditional'),
+  Trendy_pct: imageAttribute('Trendy'),
+  Trustworthy_pct: imageAttribute('Trustworthy'),
+  Unapproachable_pct: imageAttribute('Unapproachable', false),
+  Up_To_Date_pct: imageAttribute('Up to Date'),
+  Upper_Class_pct: imageAttribute('Upper Class'),
+  Visionary_pct: imageAttribute('Visionary'),
+  Worth_More_pct: imageAttribute('Worth More'),
+
+  // The 8 factors of brand personality
+  Cutting_Edge_C: personalityFactor(
+    'Cutting Edge',
+    'daring, innovative, progressive and visionary'
+  ),
+  Classic_C: personalityFactor('Classic', 'traditional, authentic, reliable and trustworthy'),
+  Superior_C: personalityFactor('Superior', 'high quality, prestigious and a leader'),
+  Chic_C: personalityFactor('Chic', 'glamorous, stylish, sensuous and trendy'),
+  Customer_Centric_C: personalityFactor('Customer Centric', 'caring, friendly, helpful and kind'),
+  Outgoing_C: personalityFactor('Outgoing', 'fun, energetic, social and carefree'),
+  No_Nonsense_C: personalityFactor(
+    'No Nonsense',
+    'simple, straightforward, down to earth and good value'
+  ),
+  Distant_C: personalityFactor('Distant', 'arrogant, unapproachable and restrained', false),
+
+  // Loyalty statements (asked of brand users)
+  Adapts_to_my_needs_pct: loyaltyStatement('Adapts to My Needs', 'Adapts to my needs'),
+  Belong_to_a_club_pct: loyaltyStatement(
+    'Belong to a Club',
+    'Using it feels like belonging to a club'
+  ),
+  Best_option_available_pct: loyaltyStatement(
+    'Best Option Available',
+    'It is the best option available'
+  ),
+  Fairly_priced_pct: loyaltyStatement('Fairly Priced', 'It is fairly priced'),
+  Feel_loyal_pct: loyaltyStatement('Feel Loyal', 'I feel loyal to it'),
+  Goes_out_of_its_way_pct: loyaltyStatement('Goes Out of Its Way', 'It goes out of its way for me'),
+  Identify_with_other_users_pct: loyaltyStatement(
+    'Identify with Other Users',
+    'I identify with other people who use it'
+  ),
+  Interested_learning_more_pct: loyaltyStatement(
+    'Interested in Learning More',
+    'I am interested in learning more about it'
+  ),
+  Interested_special_events_pct: loyaltyStatement(
+    'Interested in Special Events',
+    'I am interested in its special events'
+  ),
+  Meets_my_needs_completely_pct: loyaltyStatement(
+    'Meets My Needs Completely',
+    'It meets my needs completely'
+  ),
+  My_kind_of_brand_pct: loyaltyStatement('My Kind of Brand', 'It is my kind of brand'),
+  One_of_my_favorite_brands_pct: loyaltyStatement(
+    'One of My Favorites',
+    'It is one of my favorite brands'
+  ),
+  Recommend_to_a_friend_pct: loyaltyStatement(
+    'Recommend to a Friend',
+    'I would recommend it to a friend'
+  ),
+  Resolves_conflicts_well_pct: loyaltyStatement(
+    'Resolves Conflicts Well',
+    'It resolves conflicts well'
+  ),
+  Strongest_relationship_pct: loyaltyStatement(
+    'Strongest Relationship',
+    'It is the brand I have the strongest relationship with'
+  ),
+  Want_my_business_pct: loyaltyStatement('Wants My Business', 'It really wants my business'),
+  Worth_a_premium_price_pct: loyaltyStatement(
+    'Worth a Premium Price',
+    'It is worth a premium price'
+  ),
+  Would_miss_if_went_away_pct: loyaltyStatement(
+    'Would Miss If It Went Away',
+    'I would miss it if it went away'
+  ),
+
+  // Overall regard
+  Regard_MS: score(
+    'Regard',
+    'Esteem & Quality',
+    { min: 1, max: 7 },
+    'Mean overall regard rating on a 1-7 scale'
+  ),
+};
+
+/**
+ * Every metric, in CSV column order
+ */
+export const METRICS: MetricDefinition[] = (Object.keys(METRIC_METADATA) as MetricKey[]).map(
+  (key) => ({ key, ...METRIC_METADATA[key] })
+);
+
+/**
+ * Every metric key, in CSV column order
+ */
+export const METRIC_KEYS: MetricKey[] = METRICS.map((metric) => metric.key);
+
+/**
+ * Headline metrics for brand summaries (brand card, brand report)
+ */
+export const KEY_METRICS: MetricKey[] = [
+  'Brand_Asset_C',
+  'Brand_Strength_C',
+  'Brand_Stature_C',
+  'Energized_Differentiation_C',
+  'Total_Users_pct',
+  'Total_Prefer_pct',
+];
+
+/**
+ * Metric groups, in display order
+ */
+export const METRIC_GROUPS: MetricGroup[] = [
+  'Awareness & Preference',
+  'Brand Equity',
+  'Differentiation',
+  'Esteem & Quality',
+  'Personality Factors',
+  'Brand Image',
+  'Loyalty & Relationship',
+];
+
+/**
+ * Check whether a string is a known metric key (e.g. from a URL)
+ */
+export function isMetricKey(key: string): key is MetricKey {
+  return Object.prototype.hasOwnProperty.call(METRIC_METADATA, key);
+}
+
+/**
+ * Get the definition for a metric key
+ */
+export function getMetricDefinition(key: MetricKey): MetricDefinition {
+  return { key, ...METRIC_METADATA[key] };
+}
+
+/**
+ * Get a metric's display label, falling back to the raw key for unknown keys
+ */
+export function getMetricLabel(key: string): string {
+  return isMetricKey(key) ? METRIC_METADATA[key].label : key;
+}
+
+/**
+ * Get all metrics in a group, in CSV column order
+ */
+export function getMetricsByGroup(group: MetricGroup): MetricDefinition[] {
+  return METRICS.filter((metric) => metric.group === group);
+}
+
+/**
+ * Suffix shown after a formatted value ("%" for percentages)
+ */
+export function getMetricUnitSuffix(key: MetricKey): string {
+  return METRIC_METADATA[key].unit === 'percent' ? '%' : '';
+}
+
+/**
+ * Format a metric value for display
+ *
+ * @example
+ * formatMetricValue(42.123, 'Friendly_pct') // "42.12%"
+ * formatMetricValue(3.5, 'Brand_Stature_C') // "3.50"
+ * formatMetricValue(null, 'Friendly_pct') // "No data"
+ */
+export function formatMetricValue(value: number | null, key: MetricKey): string {
+  if (value === null) {
+    return 'No data';
+  }
+  return `${value.toFixed(2)}${getMetricUnitSuffix(key)}`;
+}
+
+/**
+ * Whether a change in a metric is an improvement, a decline or neither
+ * Accounts for negative attributes where a lower value is better
+ */
+export function getChangeDirection(
+  change: number,
+  key: MetricKey
+): 'positive' | 'negative' | 'neutral' {
+  if (change === 0) return 'neutral';
+  const improved = METRIC_METADATA[key].higherIsBetter ? change > 0 : change < 0;
+  return improved ? 'positive' : 'negative';
+}
@@ -0,0 +1,486 @@
+/**
+ * Route parsing and URL building for deep links
+ *
+ * Supported URLs:
+ * - /                                   Grid (with optional ?q=&category=&sort=&quarter=&data=1)
+ * - /brands/:slug                       Brand modal
+ * - /brands/:slug/compare               Quarter comparison (?quarters=&metrics=)
+ * - /brands/:slug/report                Printable one-page brand report
+ * - /compare                            Brand-vs-brand comparison (?brands=&at=&metrics=)
+ * - /leaderboard                        Leaderboard (?metric=&at=&sector=&order=&top=)
+ * - /power-grid                         Scatter plot explorer (?x=&y=&at=&markers=dot)
+ * - /clusters                           Brand segmentation (?at=&algo=&k=&metrics=)
+ * - /insights                           Notable movers (?at=&group=&metric=&z=)
+ * - /heatmap                            Brands × quarters heatmap (?metric=&sector=&find=&sort=&order=)
+ *
+ * Brands are addressed by slug; when several brands share a slug the unique
+ * brand id is used instead so every link resolves to exactly one brand.
+ *
+ * Modal routes (brand, comparison, report, brand-vs-brand comparison) opened
+ * from a view other than the grid carry that view's URL in ?from=, so the view
+ * stays behind the modal and closing the modal returns to it.
+ */
+
+import type { Brand, SortOption } from '../types/brand';
+import type {
+  AppRoute,
+  BrandComparisonSelection,
+  ClustersSelection,
+  ComparisonSelection,
+  GridFilterState,
+  HeatmapSelection,
+  HeatmapSort,
+  InsightsSelection,
+  LeaderboardSelection,
+  PowerGridSelection,
+  ViewRoute,
+} from '../types/routes';
+import { isValidCategory } from './categoryInference';
+import { METRIC_GROUPS } from './metricRegistry';
+
+const QUARTER_PATTERN = /^\d{4}Q[1-4]$/;
+const METRIC_KEY_PATTERN = /^[A-Za-z0-9_]+$/;
+
+const VIEW_NAMES: ViewRoute['name'][] = ['grid', 'leaderboard', 'power-grid', 'clusters', 'insights', 'heatmap'];
+
+/**
+ * Default grid filters (no filtering)
+ */
+export const DEFAULT_GRID_FILTERS: GridFilterState = {
+  search: '',
+  categories: [],
+  sort: 'relevance',
+  quarter: '',
+  dataOnly: false,
+};
+
+/**
+ * Every SortOption, in dropdown order
+ */
+export const SORT_OPTIONS: SortOption[] = [
+  'relevance',
+  'alphabetical-asc',
+  'alphabetical-desc',
+  'newest',
+  'oldest',
+  'random',
+];
+
+/**
+ * Split a comma-separated query parameter into trimmed, non-empty values
+ */
+function parseList(value: string | null): string[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Parse grid filter state from query parameters
+ */
+export function parseGridFilters(params: URLSearchParams): GridFilterState {
+  const quarter = (params.get('quarter') || '').toUpperCase();
+  const sort = params.get('sort') as SortOption | null;
+
+  return {
+    search: params.get('q') || '',
+    categories: parseList(params.get('category')).filter(isValidCategory),
+    sort: sort && SORT_OPTIONS.includes(sort) ? sort : DEFAULT_GRID_FILTERS.sort,
+    quarter: QUARTER_PATTERN.test(quarter) ? quarter : '',
+    dataOnly: params.get('data') === '1',
+  };
+}
+
+/**
+ * Parse comparison selection from query parameters
+ * Malformed quarters and metric keys are dropped
+ */
+export function parseComparisonSelection(params: URLSearchParams): ComparisonSelection {
+  return {
+    quarters: parseList(params.get('quarters'))
+      .map((q) => q.toUpperCase())
+      .filter((q) => QUARTER_PATTERN.test(q)),
+    metrics: parseList(params.get('metrics')).filter((m) => METRIC_KEY_PATTERN.test(m)),
+  };
+}
+
+/**
+ * Parse the brand-vs-brand comparison selection from query parameters
+ */
+export function parseBrandComparisonSelection(params: URLSearchParams): BrandComparisonSelection {
+  const quarter = (params.get('at') || '').toUpperCase();
+
+  return {
+    quarter: QUARTER_PATTERN.test(quarter) ? quarter : '',
+    metrics: parseList(params.get('metrics')).filter((m) => METRIC_KEY_PATTERN.test(m)),
+  };
+}
+
+/**
+ * Default leaderboard settings
+ */
+export const DEFAULT_LEADERBOARD: LeaderboardSelection = {
+  metric: '',
+  quarter: '',
+  category: '',
+  direction: 'desc',
+  limit: 25,
+};
+
+/**
+ * Parse leaderboard settings from query parameters
+ */
+export function parseLeaderboardSelection(params: URLSearchParams): LeaderboardSelection {
+  const metric = params.get('metric') || '';
+  const quarter = (params.get('at') || '').toUpperCase();
+  const category = params.get('sector') || '';
+  const limit = parseInt(params.get('top') || '', 10);
+
+  return {
+    metric: METRIC_KEY_PATTERN.test(metric) ? metric : '',
+    quarter: QUARTER_PATTERN.test(quarter) ? quarter : '',
+    category: isValidCategory(category) ? category : '',
+    direction: params.get('order') === 'asc' ? 'asc' : 'desc',
+    limit: Number.isInteger(limit) && limit >= 0 ? limit : DEFAULT_LEADERBOARD.limit,
+  };
+}
+
+/**
+ * Default scatter plot explorer settings
+ */
+export const DEFAULT_POWER_GRID: PowerGridSelection = {
+  x: '',
+  y: '',
+  quarter: '',
+  markers: 'logo',
+};
+
+/**
+ * Parse scatter plot explorer settings from query parameters
+ */
+export function parsePowerGridSelection(params: URLSearchParams): PowerGridSelection {
+  const x = params.get('x') || '';
+  const y = params.get('y') || '';
+  const quarter = (params.get('at') || '').toUpperCase();
+
+  return {
+    x: METRIC_KEY_PATTERN.test(x) ? x : '',
+    y: METRIC_KEY_PATTERN.test(y) ? y : '',
+    quarter: QUARTER_PATTERN.test(quarter) ? quarter : '',
+    markers: params.get('markers') === 'dot' ? 'dot' : 'logo',
+  };
+}
+
+/**
+ * Default brand segmentation settings
+ */
+export const DEFAULT_CLUSTERS: ClustersSelection = {
+  quarter: '',
+  algorithm: 'kmeans',
+  k: 5,
+  metrics: [],
+};
+
+/**
+ * Parse brand segmentation settings from query parameters
+ */
+export function parseClustersSelection(params: URLSearchParams): ClustersSelection {
+  const quarter = (params.get('at') || '').toUpperCase();
+  const k = parseInt(params.get('k') || '', 10);
+
+  return {
+    quarter: QUARTER_PATTERN.test(quarter) ? quarter : '',
+    algorithm: params.get('algo') === 'hierarchical' ? 'hierarchical' : 'kmeans',
+    k: Number.isInteger(k) && k > 0 ? k : DEFAULT_CLUSTERS.k,
+    metrics: parseList(params.get('metrics')).filter((m) => METRIC_KEY_PATTERN.test(m)),
+  };
+}
+
+/**
+ * Default notable movers settings
+ */
+export const DEFAULT_INSIGHTS: InsightsSelection = {
+  quarter: '',
+  group: '',
+  metric: '',
+  minZ: 2,
+};
+
+/**
+ * Parse notable movers settings from query parameters
+ */
+export function parseInsightsSelection(params: URLSearchParams): InsightsSelection {
+  const quarter = (params.get('at') || '').toUpperCase();
+  const group = METRIC_GROUPS.find((g) => g === params.get('group'));
+  const metric = params.get('metric') || '';
+  const minZ = parseFloat(params.get('z') || '');
+
+  return {
+    quarter: QUARTER_PATTERN.test(quarter) ? quarter : '',
+    group: group ?? '',
+    metric: METRIC_KEY_PATTERN.test(metric) ? metric : '',
+    minZ: Number.isFinite(minZ) && minZ > 0 ? minZ : DEFAULT_INSIGHTS.minZ,
+  };
+}
+
+/**
+ * Default heatmap settings
+ */
+export const DEFAULT_HEATMAP: HeatmapSelection = {
+  metric: '',
+  category: '',
+  search: '',
+  sort: 'latest',
+  direction: 'desc',
+};
+
+const HEATMAP_SORTS: HeatmapSort[] = ['latest', 'change', 'name'];
+
+/**
+ * Parse heatmap settings from query parameters
+ */
+export function parseHeatmapSelection(params: URLSearchParams): HeatmapSelection {
+  const metric = params.get('metric') || '';
+  const category = params.get('sector') || '';
+  const sort = HEATMAP_SORTS.find((s) => s === params.get('sort'));
+
+  return {
+    metric: METRIC_KEY_PATTERN.test(metric) ? metric : '',
+    category: isValidCategory(category) ? category : '',
+    search: params.get('find') || '',
+    sort: sort ?? DEFAULT_HEATMAP.sort,
+    direction: params.get('order') === 'asc' ? 'asc' : 'desc',
+  };
+}
+
+/**
+ * Whether a route is a top-level view rather than a modal
+ */
+export function isViewRoute(route: AppRoute): route is ViewRoute {
+  return (VIEW_NAMES as string[]).includes(route.name);
+}
+
+/**
+ * Get the view shown behind a route: the route itself for views, otherwise
+ * the view the modal was opened from (the grid by default)
+ */
+export function getBackgroundRoute(route: AppRoute): ViewRoute {
+  if (isViewRoute(route)) return route;
+  return route.background
+    ? { ...route.background, filters: route.filters }
+    : { name: 'grid', filters: route.filters };
+}
+
+/**
+ * Parse the view a modal was opened from (?from=/leaderboard%3Fmetric%3D...)
+ * Anything other than a view path is ignored
+ */
+function parseBackground(from: string | null, filters: GridFilterState): ViewRoute | undefined {
+  if (!from || !from.startsWith('/')) return undefined;
+
+  const queryStart = from.indexOf('?');
+  const route =
+    queryStart === -1
+      ? parseRoute(from, '')
+      : parseRoute(from.slice(0, queryStart), from.slice(queryStart));
+  return isViewRoute(route) && route.name !== 'grid' ? { ...route, filters } : undefined;
+}
+
+/**
+ * Parse a pathname and query string into an AppRoute
+ * Unknown or malformed paths resolve to the grid
+ *
+ * @example
+ * parseRoute('/brands/nike/compare', '?quarters=2008Q1,2009Q4')
+ * // { name: 'compare', brandKey: 'nike', comparison: { quarters: ['2008Q1', '2009Q4'], metrics: [] }, ... }
+ */
+export function parseRoute(pathname: string, search: string): AppRoute {
+  const params = new URLSearchParams(search);
+  const filters = parseGridFilters(params);
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed percent-encoding (e.g. /brands/%E0) - show the grid
+    return { name: 'grid', filters };
+  }
+
+  if (segments[0] === 'leaderboard') {
+    return { name: 'leaderboard', leaderboard: parseLeaderboardSelection(params), filters };
+  }
+
+  if (segments[0] === 'power-grid') {
+    return { name: 'power-grid', powerGrid: parsePowerGridSelection(params), filters };
+  }
+
+  if (segments[0] === 'clusters') {
+    return { name: 'clusters', clusters: parseClustersSelection(params), filters };
+  }
+
+  if (segments[0] === 'insights') {
+    return { name: 'insights', insights: parseInsightsSelection(params), filters };
+  }
+
+  if (segments[0] === 'heatmap') {
+    return { name: 'heatmap', heatmap: parseHeatmapSelection(params), filters };
+  }
+
+  const background = parseBackground(params.get('from'), filters);
+
+  if (segments[0] === 'compare') {
+    return {
+      name: 'compare-brands',
+      brandKeys: parseList(params.get('brands')),
+      selection: parseBrandComparisonSelection(params),
+      filters,
+      background,
+    };
+  }
+
+  if (segments[0] === 'brands' && segments[1]) {
+    if (segments[2] === 'compare') {
+      return {
+        name: 'compare',
+        brandKey: segments[1],
+        comparison: parseComparisonSelection(params),
+        filters,
+        background,
+      };
+    }
+    if (segments[2] === 'report') {
+      return { name: 'report', brandKey: segments[1], filters, background };
+    }
+    return { name: 'brand', brandKey: segments[1], filters, background };
+  }
+
+  return { name: 'grid', filters };
+}
+
+/**
+ * Build the URL (path + query) for an AppRoute
+ */
+export function buildRouteUrl(route: AppRoute): string {
+  const params = new URLSearchParams();
+
+  if (route.filters.search) {
+    params.set('q', route.filters.search);
+  }
+  if (route.filters.categories.length > 0) {
+    params.set('category', route.filters.categories.join(','));
+  }
+  if (route.filters.sort !== DEFAULT_GRID_FILTERS.sort) {
+    params.set('sort', route.filters.sort);
+  }
+  if (route.filters.quarter) {
+    params.set('quarter', route.filters.quarter);
+  }
+  if (route.filters.dataOnly) {
+    params.set('data', '1');
+  }
+
+  let path = '/';
+
+  if (route.name === 'brand' || route.name === 'compare' || route.name === 'report') {
+    path = `/brands/${encodeURIComponent(route.brandKey)}`;
+  }
+
+  if (route.name === 'report') {
+    path += '/report';
+  }
+
+  if (route.name === 'compare') {
+    path += '/compare';
+    if (route.comparison.quarters.length > 0) {
+      params.set('quarters', route.comparison.quarters.join(','));
+    }
+    if (route.comparison.metrics.length > 0) {
+      params.set('metrics', route.comparison.metrics.join(','));
+    }
+  }
+
+  if (route.name === 'compare-brands') {
+    path = '/compare';
+    if (route.brandKeys.length > 0) {
+      params.set('brands', route.brandKeys.join(','));
+    }
+    if (route.selection.quarter) {
+      params.set('at', route.selection.quarter);
+    }
+    if (route.selection.metrics.length > 0) {
+      params.set('metrics', route.selection.metrics.join(','));
+    }
+  }
+
+  if (route.name === 'leaderboard') {
+    const { metric, quarter, category, direction, limit } = route.leaderboard;
+    path = '/leaderboard';
+    if (metric) params.set('metric', metric);
+    if (quarter) params.set('at', quarter);
+    if (category) params.set('sector', category);
+    if (direction !== DEFAULT_LEADERBOARD.direction) params.set('order', direction);
+    if (limit !== DEFAULT_LEADERBOARD.limit) params.set('top', String(limit));
+  }
+
+  if (route.name === 'power-grid') {
+    const { x, y, quarter, markers } = route.powerGrid;
+    path = '/power-grid';
+    if (x) params.set('x', x);
+    if (y) params.set('y', y);
+    if (quarter) params.set('at', quarter);
+    if (markers !== DEFAULT_POWER_GRID.markers) params.set('markers', markers);
+  }
+
+  if (route.name === 'clusters') {
+    const { quarter, algorithm, k, metrics } = route.clusters;
+    path = '/clusters';
+    if (quarter) params.set('at', quarter);
+    if (algorithm !== DEFAULT_CLUSTERS.algorithm) params.set('algo', algorithm);
+    if (k !== DEFAULT_CLUSTERS.k) params.set('k', String(k));
+    if (metrics.length > 0) params.set('metrics', metrics.join(','));
+  }
+
+  if (route.name === 'insights') {
+    const { quarter, group, metric, minZ } = route.insights;
+    path = '/insights';
+    if (quarter) params.set('at', quarter);
+    if (group) params.set('group', group);
+    if (metric) params.set('metric', metric);
+    if (minZ !== DEFAULT_INSIGHTS.minZ) params.set('z', String(minZ));
+  }
+
+  if (route.name === 'heatmap') {
+    const { metric, category, search, sort, direction } = route.heatmap;
+    path = '/heatmap';
+    if (metric) params.set('metric', metric);
+    if (category) params.set('sector', category);
+    if (search) params.set('find', search);
+    if (sort !== DEFAULT_HEATMAP.sort) params.set('sort', sort);
+    if (direction !== DEFAULT_HEATMAP.direction) params.set('order', direction);
+  }
+
+  if (!isViewRoute(route) && route.background && route.background.name !== 'grid') {
+    // Grid filters are already in the query string
+    params.set('from', buildRouteUrl({ ...route.background, filters: DEFAULT_GRID_FILTERS }));
+  }
+
+  // Keep commas readable in shared links
+  const query = params.toString().replace(/%2C/g, ',');
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Get the URL key for a brand: its slug, or its id if the slug is ambiguous
+ */
+export function getBrandRouteKey(brand: Brand, brands: Brand[]): string {
+  const sharesSlug = brands.some((b) => b.slug === brand.slug && b.id !== brand.id);
+  return sharesSlug ? brand.id : brand.slug;
+}
+
+/**
+ * Resolve a URL key (id or slug) to a brand
+ */
+export function findBrandByRouteKey(brands: Brand[], key: string): Brand | undefined {
+  return brands.find((b) => b.id === key) || brands.find((b) => b.slug === key.toLowerCase());
+}
@@ -0,0 +1,136 @@
+/**
+ * Text normalization and fuzzy matching utilities
+ *
+ * Tokenizes text into lowercase ASCII-folded words while keeping each token's
+ * position in the original string, so matches can be highlighted in the UI.
+ */
+
+/**
+ * A normalized word and its [start, end) offsets in the original text
+ */
+export interface TextToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Fold a single character: strip diacritics and lowercase
+ * e.g. "É" → "e", "ß" → "ß" (unchanged), "-" → "-"
+ */
+function foldChar(char: string): string {
+  return char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Check whether a folded character is part of a word
+ */
+function isWordChar(char: string): boolean {
+  return /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Split text into normalized tokens
+ * Punctuation, hyphens, apostrophes and whitespace all separate words,
+ * except apostrophes inside a word are dropped ("Levi's" → "levis")
+ *
+ * @example
+ * tokenize("Mercedes-Benz") // [{ text: "mercedes", start: 0, end: 8 }, { text: "benz", start: 9, end: 13 }]
+ * tokenize("Nestlé") // [{ text: "nestle", start: 0, end: 6 }]
+ */
+export function tokenize(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  let current = '';
+  let start = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const folded = foldChar(char);
+
+    if (isWordChar(folded)) {
+      if (start === -1) start = i;
+      current += folded;
+      continue;
+    }
+
+    // Apostrophes inside a word join its parts ("Levi's", "McDonald’s")
+    const isApostrophe = char === "'" || char === '’';
+    if (isApostrophe && start !== -1 && i + 1 < text.length && isWordChar(foldChar(text[i + 1]))) {
+      continue;
+    }
+
+    if (start !== -1) {
+      tokens.push({ text: current, start, end: i });
+      current = '';
+      start = -1;
+    }
+  }
+
+  if (start !== -1) {
+    tokens.push({ text: current, start, end: text.length });
+  }
+
+  return tokens;
+}
+
+/**
+ * Normalize text to space-separated tokens
+ *
+ * @example
+ * normalizeText("  Coca-Cola®  ") // "coca cola"
+ */
+export function normalizeText(text: string): string {
+  return tokenize(text)
+    .map((token) => token.text)
+    .join(' ');
+}
+
+/**
+ * Optimal string alignment (Damerau-Levenshtein) distance
+ * Stops early and returns maxDistance + 1 once the distance is known to exceed maxDistance
+ *
+ * @example
+ * editDistance("adiddas", "adidas") // 1
+ * editDistance("nkie", "nike") // 1 (transposition)
+ */
+export function editDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let prevPrev: number[] = [];
+  let prev: number[] = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current: number[] = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+/**
+ * Maximum edits tolerated for a word of the given length
+ * Short words must match exactly to avoid noise ("hp" shouldn't match "bp")
+ */
+export function maxEditsForLength(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+}
@@ -0,0 +1,282 @@
+/**
+ * Minimal XLSX (Office Open XML spreadsheet) writer
+ *
+ * Produces a real .xlsx workbook in the browser with no dependencies:
+ * SpreadsheetML parts packed into an uncompressed ("stored") ZIP archive.
+ * Supports strings, numbers and empty cells, with a bold header row.
+ */
+
+import { isFormulaLike } from './csvExport';
+
+export type XlsxCellValue = string | number | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCellValue[][];
+  /** Render the first row bold and freeze it (default: true) */
+  header?: boolean;
+}
+
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Control characters other than tab and line breaks are invalid in XML 1.0
+ */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split('')
+    .filter(isXmlChar)
+    .join('');
+}
+
+/**
+ * Column letters for a 0-based index (0 → A, 26 → AA)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Excel sheet names: at most 31 characters, none of : \ / ? * [ ], unique
+ */
+function sheetNames(sheets: XlsxSheet[]): string[] {
+  const used = new Set<string>();
+
+  return sheets.map((sheet, index) => {
+    const base =
+      sheet.name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) ||
+      `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function worksheetXml(sheet: XlsxSheet): string {
+  const header = sheet.header ?? true;
+
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const isHeader = header && rowIndex === 0;
+      const style = isHeader ? ' s="1"' : '';
+      const cells = row
+        .map((value, columnIndex) => {
+          const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+          if (value === null || value === undefined || value === '') return '';
+          if (typeof value === 'number') {
+            return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : '';
+          }
+          // Quote-prefixed, as when typing ' before text in Excel, so it is never evaluated
+          const textStyle = !isHeader && isFormulaLike(value) ? ' s="2"' : style;
+          return `<c r="${ref}"${textStyle} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const frozenHeader = header
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '';
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${frozenHeader}<sheetData>${rows}</sheetData></worksheet>`
+  );
+}
+
+function workbookParts(sheets: XlsxSheet[]): Array<{ path: string; content: string }> {
+  const names = sheetNames(sheets);
+
+  const contentTypes =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets
+      .map(
+        (_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join('') +
+    '</Types>';
+
+  const rootRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>';
+
+  const workbook =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets>' +
+    names
+      .map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+      .join('') +
+    '</sheets></workbook>';
+
+  const workbookRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheets
+      .map(
+        (_, i) =>
+          `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+      )
+      .join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  // Style 0: default; style 1: bold (header row); style 2: quote-prefixed text
+  const styles =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" quotePrefix="1"/></cellXfs>' +
+    '</styleSheet>';
+
+  return [
+    { path: '[Content_Types].xml', content: contentTypes },
+    { path: '_rels/.rels', content: rootRels },
+    { path: 'xl/workbook.xml', content: workbook },
+    { path: 'xl/_rels/workbook.xml.rels', content: workbookRels },
+    { path: 'xl/styles.xml', content: styles },
+    ...sheets.map((sheet, i) => ({
+      path: `xl/worksheets/sheet${i + 1}.xml`,
+      content: worksheetXml(sheet),
+    })),
+  ];
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Pack files into a ZIP archive without compression
+ */
+function zipStored(files: Array<{ path: string; data: Uint8Array }>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  // 1980-01-01 00:00, the earliest DOS timestamp - keeps output reproducible
+  const dosTime = 0;
+  const dosDate = (0 << 9) | (1 << 5) | 1;
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const crc = crc32(file.data);
+    const size = file.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);   // Local file header signature
+    local.setUint16(4, 20, true);           // Version needed (2.0)
+    local.setUint16(6, 0x0800, true);       // Flags: UTF-8 names
+    local.setUint16(8, 0, true);            // Method: stored
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);        // Compressed size
+    local.setUint32(22, size, true);        // Uncompressed size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);           // Extra field length
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory signature
+    central.setUint16(4, 20, true);         // Version made by
+    central.setUint16(6, 20, true);         // Version needed
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, dosTime, true);
+    central.setUint16(14, dosDate, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);    // Local header offset
+
+    localParts.push(new Uint8Array(local.buffer), name, file.data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);       // End of central directory signature
+  end.setUint16(8, files.length, true);     // Entries on this disk
+  end.setUint16(10, files.length, true);    // Total entries
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);          // Central directory offset
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+/**
+ * Build an .xlsx workbook
+ *
+ * @example
+ * const bytes = createXlsxWorkbook([{ name: 'Leaderboard', rows: [['Brand', 'Value'], ['Nike', 7.2]] }]);
+ * downloadFile('leaderboard.xlsx', bytes, XLSX_MIME_TYPE);
+ */
+export function createXlsxWorkbook(sheets: XlsxSheet[]): Uint8Array<ArrayBuffer> {
+  if (sheets.length === 0) {
+    throw new Error('A workbook needs at least one sheet');
+  }
+
+  const encoder = new TextEncoder();
+  return zipStored(
+    workbookParts(sheets).map(part => ({ path: part.path, data: encoder.encode(part.content) }))
+  );
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
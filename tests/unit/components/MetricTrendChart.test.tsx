@@ -0,0 +1,38 @@
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { MetricTrendChart } from '../../../src/components/QuarterComparison/MetricTrendChart';
+
+describe('MetricTrendChart', () => {
+  it('keeps a gap for quarters absent from the selection', () => {
+    const { container } = render(
+      <MetricTrendChart
+        quarters={['2009Q3', '2009Q4', '2010Q2']}
+        series={[{ id: 'users', label: 'Users', metricKey: 'Total_Users_pct', values: [40, 42, 45] }]}
+      />
+    );
+
+    expect(screen.getByText('2010Q1')).toBeInTheDocument();
+    // The line breaks at 2010Q1: one run for 2009Q3-2009Q4, another for 2010Q2
+    expect(container.querySelectorAll('.trend-chart-series path')).toHaveLength(2);
+    expect(container.querySelectorAll('.trend-chart-series circle')).toHaveLength(3);
+  });
+
+  it('plots percentages and scores against separate axes', () => {
+    const { container } = render(
+      <MetricTrendChart
+        quarters={['2010Q1', '2010Q2']}
+        series={[
+          { id: 'users', label: 'Users', metricKey: 'Total_Users_pct', values: [40, 60] },
+          { id: 'stature', label: 'Stature', metricKey: 'Brand_Stature_C', values: [1.2, 1.6] },
+        ]}
+      />
+    );
+
+    const tickLabels = Array.from(container.querySelectorAll('.trend-chart-gridline text')).map(
+      text => text.textContent
+    );
+    expect(tickLabels).toContain('40%');
+    expect(tickLabels).toContain('1.6');
+    expect(screen.getByText('Stature (right axis)')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import type { Brand } from '../../../../src/types/brand';
+import { mergeBrands, type ImportedBrand } from '../../../../src/services/importers/brandMerger';
+
+const brand = (overrides: Partial<Brand> & Pick<Brand, 'id' | 'name'>): Brand => ({
+  slug: overrides.id,
+  category: 'Technology',
+  logoPath: `/assets/logos/${overrides.id}.png`,
+  dateAdded: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const imported = (value: Brand, suppliedFields: (keyof Brand)[] = []): ImportedBrand => ({
+  brand: value,
+  suppliedFields,
+});
+
+describe('mergeBrands', () => {
+  it('matches by id first, then by case-insensitive name', () => {
+    const existing = [
+      brand({ id: 'nike', name: 'Nike' }),
+      brand({ id: 'adidas-x1', name: 'Adidas' }),
+    ];
+
+    const { brands, summary } = mergeBrands(existing, [
+      imported(brand({ id: 'nike', name: 'Nike Inc' })),
+      imported(brand({ id: 'adidas-y2', name: ' ADIDAS ' })),
+    ]);
+
+    expect(brands.map(b => [b.id, b.name])).toEqual([
+      ['nike', 'Nike Inc'],
+      ['adidas-x1', ' ADIDAS '],
+    ]);
+    expect(summary).toEqual({ added: 0, updated: 2, unchanged: 0, removed: 0, retained: 0 });
+  });
+
+  it('appends unmatched brands and does not match one existing entry twice', () => {
+    const existing = [brand({ id: 'nike', name: 'Nike' })];
+
+    const { brands, summary } = mergeBrands(existing, [
+      imported(brand({ id: 'nike', name: 'Nike' })),
+      imported(brand({ id: 'nike-2', name: 'Nike' })),
+      imported(brand({ id: 'puma', name: 'Puma' })),
+    ]);
+
+    expect(brands.map(b => b.id)).toEqual(['nike', 'nike-2', 'puma']);
+    expect(summary).toEqual({ added: 2, updated: 0, unchanged: 1, removed: 0, retained: 0 });
+  });
+
+  it('keeps curated fields and the category unless the CSV supplies them', () => {
+    const existing = [
+      brand({
+        id: 'nike',
+        name: 'Nike',
+        category: 'Apparel & Fashion',
+        dateAdded: '2020-05-01T00:00:00.000Z',
+        featured: true,
+        description: 'Curated description',
+        tags: ['sport'],
+        websiteUrl: 'https://nike.example',
+      }),
+    ];
+    const reimport = brand({
+      id: 'nike',
+      name: 'Nike',
+      category: 'Technology',
+      dateAdded: '2025-01-01T00:00:00.000Z',
+      description: 'From CSV',
+      tags: ['csv'],
+      websiteUrl: 'https://csv.example',
+    });
+
+    const kept = mergeBrands(existing, [imported(reimport)]);
+    expect(kept.brands[0]).toEqual(existing[0]);
+    expect(kept.summary.unchanged).toBe(1);
+
+    const supplied = mergeBrands(existing, [
+      imported(reimport, ['category', 'description', 'tags', 'websiteUrl']),
+    ]);
+    expect(supplied.brands[0]).toEqual({
+      ...existing[0],
+      category: 'Technology',
+      description: 'From CSV',
+      tags: ['csv'],
+      websiteUrl: 'https://csv.example',
+    });
+    expect(supplied.summary.updated).toBe(1);
+  });
+
+  it('flags missing brands as removed only when asked, and clears the flag on return', () => {
+    const existing = [brand({ id: 'nike', name: 'Nike' }), brand({ id: 'puma', name: 'Puma' })];
+    const nikeOnly = [imported(brand({ id: 'nike', name: 'Nike' }))];
+
+    const retained = mergeBrands(existing, nikeOnly);
+    expect(retained.brands[1].removedAt).toBeUndefined();
+    expect(retained.summary).toEqual({ added: 0, updated: 0, unchanged: 1, removed: 0, retained: 1 });
+
+    const removed = mergeBrands(existing, nikeOnly, { markRemoved: true });
+    expect(removed.brands[1].removedAt).toEqual(expect.any(String));
+    expect(removed.summary).toEqual({ added: 0, updated: 0, unchanged: 1, removed: 1, retained: 0 });
+
+    // Already flagged: not counted as removed again
+    const again = mergeBrands(removed.brands, nikeOnly, { markRemoved: true });
+    expect(again.brands[1].removedAt).toBe(removed.brands[1].removedAt);
+    expect(again.summary).toEqual({ added: 0, updated: 0, unchanged: 1, removed: 0, retained: 1 });
+
+    // Back in the CSV: the flag is cleared
+    const restored = mergeBrands(removed.brands, [
+      ...nikeOnly,
+      imported(brand({ id: 'puma', name: 'Puma' })),
+    ]);
+    expect(restored.brands[1]).toEqual(existing[1]);
+    expect(restored.summary).toEqual({ added: 0, updated: 1, unchanged: 1, removed: 0, retained: 0 });
+  });
+});
@@ -0,0 +1,219 @@
+// @vitest-environment node
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  createCSVRecordParser,
+  detectCSVFormat,
+  detectDelimiter,
+  detectEncoding,
+  readCSVRecords,
+  type CSVDelimiter,
+  type CSVRecord,
+} from '../../../../src/services/importers/csvReader';
+
+/**
+ * Parse text fed in the given chunks
+ */
+function parse(chunks: string[], delimiter: CSVDelimiter = ','): CSVRecord[] {
+  const parser = createCSVRecordParser(delimiter);
+  return [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.end()];
+}
+
+/**
+ * Parse text fed one character at a time, so every quote pair and CRLF is split
+ */
+function parseByChar(text: string, delimiter: CSVDelimiter = ','): CSVRecord[] {
+  return parse(Array.from(text), delimiter);
+}
+
+const cells = (records: CSVRecord[]) => records.map(record => record.cells);
+
+describe('createCSVRecordParser', () => {
+  it('splits records on LF, CRLF and CR and skips blank records', () => {
+    const records = parse(['name,logo\r\nNike,nike.png\n\nAdidas,adidas.png\rPuma,puma.png']);
+
+    expect(cells(records)).toEqual([
+      ['name', 'logo'],
+      ['Nike', 'nike.png'],
+      ['Adidas', 'adidas.png'],
+      ['Puma', 'puma.png'],
+    ]);
+    expect(records.map(record => record.lineNumber)).toEqual([1, 2, 4, 5]);
+  });
+
+  it('unescapes doubled quotes inside quoted fields', () => {
+    expect(cells(parse(['"Ben & Jerry""s","say ""hi""",""""']))).toEqual([
+      ['Ben & Jerry"s', 'say "hi"', '"'],
+    ]);
+  });
+
+  it('keeps line breaks inside quoted fields as one multi-line record', () => {
+    const records = parse(['"Multi\r\nline\rtext",x.png\nNext,y.png']);
+
+    expect(records[0]).toEqual({
+      cells: ['Multi\nline\ntext', 'x.png'],
+      lineNumber: 1,
+      endLineNumber: 3,
+    });
+    expect(records[1]).toMatchObject({ cells: ['Next', 'y.png'], lineNumber: 4 });
+  });
+
+  it('gives the same result however the text is chunked', () => {
+    const text = '"Ben & Jerry""s",ben.png\r\n"Multi\r\nline",x.png\r\nPlain,p.png\r\n';
+    const whole = parse([text]);
+
+    expect(parseByChar(text)).toEqual(whole);
+    // Escaped quote split between chunks
+    expect(parse(['"Ben & Jerry"', '"s",ben.png'])).toEqual(parse(['"Ben & Jerry""s",ben.png']));
+    // CRLF split between chunks counts as one line break
+    expect(parse(['a,b\r', '\nc,d'])).toEqual([
+      { cells: ['a', 'b'], lineNumber: 1, endLineNumber: 1 },
+      { cells: ['c', 'd'], lineNumber: 2, endLineNumber: 2 },
+    ]);
+  });
+
+  it('tolerates whitespace around quoted fields', () => {
+    expect(cells(parse(['  "Nike" ,nike.png']))).toEqual([['Nike', 'nike.png']]);
+  });
+
+  it('marks a record with a stray quote invalid and resumes on the next line', () => {
+    const records = parse(['Ben "Jerry",ben.png,"ignored\nNike,nike.png']);
+
+    expect(records).toHaveLength(2);
+    expect(records[0].error).toBe('Unexpected quote in unquoted field on line 1');
+    expect(records[1]).toEqual({ cells: ['Nike', 'nike.png'], lineNumber: 2, endLineNumber: 2 });
+  });
+
+  it('marks text after a closing quote invalid', () => {
+    const [record] = parse(['"Nike"x,nike.png']);
+
+    expect(record.error).toBe('Unexpected character after closing quote on line 1');
+  });
+
+  it('reports an unterminated quoted field with the line it started on', () => {
+    const records = parse(['Nike,nike.png\n"Open,\nstill open']);
+
+    expect(records[1]).toMatchObject({
+      lineNumber: 2,
+      endLineNumber: 3,
+      error: 'Unterminated quoted field starting on line 2',
+    });
+  });
+
+  it('splits on the given delimiter only', () => {
+    expect(cells(parse(['a;b,c\td'], ';'))).toEqual([['a', 'b,c\td']]);
+    expect(cells(parse(['a;b,c\td'], '\t'))).toEqual([['a;b,c', 'd']]);
+  });
+});
+
+describe('detectEncoding', () => {
+  const utf16le = (text: string) => new Uint8Array(Buffer.from(text, 'utf16le'));
+
+  it('trusts a byte order mark', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+  });
+
+  it('recognizes UTF-16 without a BOM from its NUL bytes', () => {
+    const le = utf16le('name,logo\nNike,nike.png');
+    const be = new Uint8Array(le.length);
+    for (let i = 0; i < le.length; i += 2) {
+      be[i] = le[i + 1];
+      be[i + 1] = le[i];
+    }
+
+    expect(detectEncoding(le)).toBe('utf-16le');
+    expect(detectEncoding(be)).toBe('utf-16be');
+  });
+
+  it('reads valid UTF-8 as UTF-8, even if the sample cuts a character in half', () => {
+    const bytes = new TextEncoder().encode('Nestlé,Löwenbräu');
+
+    expect(detectEncoding(bytes)).toBe('utf-8');
+    expect(detectEncoding(bytes.subarray(0, bytes.length - 2))).toBe('utf-8');
+  });
+
+  it('falls back to Windows-1252 for bytes that are not valid UTF-8', () => {
+    // "Nestlé,x" with é as 0xE9
+    expect(detectEncoding(new Uint8Array(Buffer.from('Nestl\xe9,x', 'latin1')))).toBe('windows-1252');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter used most in the first record', () => {
+    expect(detectDelimiter('name,logo,category\nx')).toBe(',');
+    expect(detectDelimiter('name;logo;category\nx,y,z,w')).toBe(';');
+    expect(detectDelimiter('name\tlogo\nx')).toBe('\t');
+  });
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('"Dolce, Gabbana, and co";logo\n')).toBe(';');
+  });
+
+  it('defaults to comma', () => {
+    expect(detectDelimiter('name\nNike')).toBe(',');
+    expect(detectDelimiter('')).toBe(',');
+  });
+});
+
+describe('readCSVRecords', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'csv-reader-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function readFile(name: string, bytes: Uint8Array) {
+    const filePath = path.join(dir, name);
+    await writeFile(filePath, bytes);
+    const format = await detectCSVFormat(filePath);
+    const records: CSVRecord[] = [];
+    for await (const record of readCSVRecords(filePath, format)) {
+      records.push(record);
+    }
+    return { format, records };
+  }
+
+  it('strips a UTF-8 BOM from the first header', async () => {
+    const { format, records } = await readFile(
+      'bom.csv',
+      new Uint8Array(Buffer.from('\uFEFFname;logo\r\nNestlé;nestle.png\r\n', 'utf8'))
+    );
+
+    expect(format).toEqual({ encoding: 'utf-8', delimiter: ';' });
+    expect(cells(records)).toEqual([
+      ['name', 'logo'],
+      ['Nestlé', 'nestle.png'],
+    ]);
+  });
+
+  it('decodes Windows-1252 files', async () => {
+    const { format, records } = await readFile(
+      'cp1252.csv',
+      new Uint8Array(Buffer.from('name,logo\nNestl\xe9 \x80,nestle.png\n', 'latin1'))
+    );
+
+    expect(format.encoding).toBe('windows-1252');
+    expect(records[1].cells).toEqual(['Nestlé €', 'nestle.png']);
+  });
+
+  it('decodes UTF-16 files with a BOM', async () => {
+    const { format, records } = await readFile(
+      'utf16.csv',
+      new Uint8Array(Buffer.from('\uFEFFname\tlogo\nNike\tnike.png\n', 'utf16le'))
+    );
+
+    expect(format).toEqual({ encoding: 'utf-16le', delimiter: '\t' });
+    expect(cells(records)).toEqual([
+      ['name', 'logo'],
+      ['Nike', 'nike.png'],
+    ]);
+  });
+});
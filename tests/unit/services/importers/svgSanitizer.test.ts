@@ -0,0 +1,119 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { isSvgMarkup, sanitizeSvg } from '../../../../src/services/importers/svgSanitizer';
+
+const svg = (body: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="10" height="10">${body}</svg>`;
+
+function sanitized(text: string) {
+  const result = sanitizeSvg(text);
+  if (result.error !== undefined) throw new Error(result.error);
+  return result;
+}
+
+describe('isSvgMarkup', () => {
+  it('detects an svg root after a declaration, comments and doctype', () => {
+    expect(isSvgMarkup('\uFEFF<?xml version="1.0"?>\n<!-- logo -->\n<!DOCTYPE svg>\n<svg viewBox="0 0 1 1">')).toBe(true);
+  });
+
+  it('rejects other markup', () => {
+    expect(isSvgMarkup('<html><svg></svg></html>')).toBe(false);
+  });
+});
+
+describe('sanitizeSvg', () => {
+  describe('entity-encoded CSS', () => {
+    it('removes url() hidden behind a character reference in a style attribute', () => {
+      const result = sanitized(svg('<rect style="fill:u&#114;l(https://evil.example/p)"/>'));
+      expect(result.svg).not.toContain('evil.example');
+      expect(result.removed).toEqual(['external url()']);
+    });
+
+    it('removes url() hidden behind a character reference in a presentation attribute', () => {
+      const result = sanitized(svg('<rect fill="u&#x72;l(https://evil.example/p)"/>'));
+      expect(result.svg).not.toContain('evil.example');
+      expect(result.svg).toContain('<rect fill="none"/>');
+    });
+  });
+
+  describe('CSS escapes', () => {
+    it('drops a <style> element using backslash escapes', () => {
+      const result = sanitized(
+        svg('<style>@\\69mport "https://evil.example/a.css"; rect{fill:u\\72l(https://evil.example/p)}</style>')
+      );
+      expect(result.svg).not.toContain('evil.example');
+      expect(result.svg).not.toContain('<style');
+      expect(result.removed).toEqual(['escaped CSS']);
+    });
+
+    it('drops a style attribute using backslash escapes', () => {
+      const result = sanitized(svg('<rect style="fill:u\\72l(https://evil.example/p)"/>'));
+      expect(result.svg).toContain('<rect/>');
+      expect(result.removed).toEqual(['escaped CSS']);
+    });
+  });
+
+  it('removes @import and external url() from stylesheets but keeps fragment references', () => {
+    const result = sanitized(svg('<style>@import "https://evil.example/a.css"; a{fill:url(#g)} b{fill:url( "https://evil.example/p")}</style>'));
+    expect(result.svg).not.toContain('evil.example');
+    expect(result.svg).toContain('fill:url(#g)');
+    expect(result.removed).toEqual(['@import rule', 'external url()']);
+  });
+
+  it('removes elements in other namespaces', () => {
+    const result = sanitized(
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:h="http://www.w3.org/1999/xhtml" width="10" height="10">' +
+        '<h:meta http-equiv="refresh" content="0;url=https://evil.example"/></svg>'
+    );
+    expect(result.svg).toBe('<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"/>');
+    expect(result.removed).toEqual(['<h:meta>']);
+  });
+
+  it('removes scripts, event handlers and links', () => {
+    const result = sanitized(
+      svg('<script>alert(1)</script><rect onload="alert(1)" width="1"/><a href="javascript:alert(1)"><rect/></a>')
+    );
+    expect(result.svg).toContain('<rect width="1"/>');
+    expect(result.svg).not.toMatch(/script|alert|<a/);
+    expect(result.removed).toEqual(['<script>', 'onload attribute', '<a>']);
+  });
+
+  it('keeps fragment and raster data references and removes external ones', () => {
+    const result = sanitized(
+      svg(
+        '<use xlink:href="#logo"/><use href="https://evil.example/x.svg#logo"/>' +
+          '<image href="data:image/png;base64,AAAA"/><image href="data:image/svg+xml;base64,AAAA"/>'
+      )
+    );
+    expect(result.svg).toContain('<use xlink:href="#logo"/>');
+    expect(result.svg).toContain('<image href="data:image/png;base64,AAAA"/>');
+    expect(result.svg).not.toMatch(/evil\.example|svg\+xml/);
+    expect(result.removed).toEqual(['external reference', 'external reference']);
+  });
+
+  it('keeps gradients referenced with url(#id)', () => {
+    const body = '<linearGradient id="g"><stop offset="0" stop-color="red"/></linearGradient><rect fill="url(#g)"/>';
+    expect(sanitized(svg(body))).toEqual({ svg: svg(body), removed: [] });
+  });
+
+  it('rejects DOCTYPE entity declarations', () => {
+    expect(sanitizeSvg('<!DOCTYPE svg [<!ENTITY x "y">]><svg xmlns="http://www.w3.org/2000/svg">&x;</svg>')).toEqual({
+      error: 'DOCTYPE declarations with entities are not allowed',
+    });
+  });
+
+  it('rejects malformed markup', () => {
+    expect(sanitizeSvg(svg('<g><rect></g>')).error).toBeDefined();
+    expect(sanitizeSvg(svg('&nbsp;')).error).toBeDefined();
+  });
+
+  it('rejects a non-svg root', () => {
+    expect(sanitizeSvg('<html xmlns="http://www.w3.org/1999/xhtml"></html>').error).toMatch(/Root element must be <svg>/);
+  });
+
+  it('adds width and height from the viewBox when both are missing', () => {
+    expect(sanitized('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 40 20"/>').svg).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 40 20" width="40" height="20"/>'
+    );
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { continuousQuarters } from '../../../src/utils/chartScale';
+
+describe('continuousQuarters', () => {
+  it('fills in calendar quarters missing between the first and last', () => {
+    expect(continuousQuarters(['2009Q4', '2010Q2'])).toEqual(['2009Q4', '2010Q1', '2010Q2']);
+    expect(continuousQuarters(['2008Q3', '2008Q1'])).toEqual(['2008Q1', '2008Q2', '2008Q3']);
+  });
+
+  it('leaves single, empty and unrecognised quarter lists alone', () => {
+    expect(continuousQuarters(['2010Q2'])).toEqual(['2010Q2']);
+    expect(continuousQuarters([])).toEqual([]);
+    expect(continuousQuarters(['2010Q2', 'UNKNOWN'])).toEqual(['2010Q2', 'UNKNOWN']);
+  });
+});
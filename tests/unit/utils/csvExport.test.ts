@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { escapeCsvField, toCsv } from '../../../src/utils/csvExport';
+
+describe('escapeCsvField', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(escapeCsvField('Nike')).toBe('Nike');
+    expect(escapeCsvField('Dolce, Gabbana')).toBe('"Dolce, Gabbana"');
+    expect(escapeCsvField('Say "hi"')).toBe('"Say ""hi"""');
+    expect(escapeCsvField(null)).toBe('');
+  });
+
+  it('prefixes text that spreadsheets would evaluate as a formula', () => {
+    expect(escapeCsvField('=1+1')).toBe("'=1+1");
+    expect(escapeCsvField('+Brand')).toBe("'+Brand");
+    expect(escapeCsvField('-Brand')).toBe("'-Brand");
+    expect(escapeCsvField('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvField('=HYPERLINK("https://evil.example","x")')).toBe(
+      '"\'=HYPERLINK(""https://evil.example"",""x"")"'
+    );
+  });
+
+  it('leaves numbers alone', () => {
+    expect(escapeCsvField(-1.5)).toBe('-1.5');
+    expect(toCsv(['value'], [[-2]])).toBe('value\r\n-2\r\n');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { AppRoute, ViewRoute } from '../../../src/types/routes';
+import {
+  DEFAULT_GRID_FILTERS,
+  DEFAULT_HEATMAP,
+  DEFAULT_POWER_GRID,
+  buildRouteUrl,
+  getBackgroundRoute,
+  parseRoute,
+} from '../../../src/utils/routes';
+
+function roundTrip(route: AppRoute): AppRoute {
+  const url = new URL(buildRouteUrl(route), 'https://example.test');
+  return parseRoute(url.pathname, url.search);
+}
+
+const filters = { ...DEFAULT_GRID_FILTERS, search: 'cola', quarter: '2009Q4' };
+
+const heatmap: ViewRoute = {
+  name: 'heatmap',
+  heatmap: { ...DEFAULT_HEATMAP, metric: 'Brand_Asset_C', category: 'Technology', search: 'a,b', sort: 'change', direction: 'asc' },
+  filters,
+};
+
+describe('modal background routes', () => {
+  it('round-trips the view a brand modal was opened from', () => {
+    const route: AppRoute = { name: 'brand', brandKey: 'nike', filters, background: heatmap };
+    const parsed = roundTrip(route);
+
+    expect(parsed).toEqual(route);
+    expect(getBackgroundRoute(parsed)).toEqual(heatmap);
+  });
+
+  it('round-trips the background of comparisons and reports alongside their own query parameters', () => {
+    const background: ViewRoute = {
+      name: 'power-grid',
+      powerGrid: { ...DEFAULT_POWER_GRID, x: 'Brand_Asset_C', quarter: '2009Q2', markers: 'dot' },
+      filters,
+    };
+    const routes: AppRoute[] = [
+      {
+        name: 'compare',
+        brandKey: 'nike',
+        comparison: { quarters: ['2008Q1', '2009Q4'], metrics: ['Brand_Stature_C'] },
+        filters,
+        background,
+      },
+      { name: 'report', brandKey: 'nike', filters, background },
+      {
+        name: 'compare-brands',
+        brandKeys: ['nike', 'adidas'],
+        selection: { quarter: '2009Q4', metrics: ['Brand_Stature_C'] },
+        filters,
+        background,
+      },
+    ];
+
+    for (const route of routes) {
+      expect(roundTrip(route)).toEqual(route);
+    }
+  });
+
+  it('returns to the grid when a modal has no background view', () => {
+    expect(buildRouteUrl({ name: 'brand', brandKey: 'nike', filters, background: { name: 'grid', filters } })).toBe(
+      '/brands/nike?q=cola&quarter=2009Q4'
+    );
+    expect(getBackgroundRoute(parseRoute('/brands/nike', '?q=cola'))).toEqual({
+      name: 'grid',
+      filters: { ...DEFAULT_GRID_FILTERS, search: 'cola' },
+    });
+  });
+
+  it('ignores a from parameter that is not a view', () => {
+    for (const from of ['/brands/adidas', 'https://evil.example/leaderboard', '/unknown']) {
+      const route = parseRoute('/brands/nike', `?from=${encodeURIComponent(from)}`);
+      expect(getBackgroundRoute(route).name).toBe('grid');
+    }
+  });
+});
+
+describe('parseRoute', () => {
+  it('falls back to the grid on malformed percent-encoding', () => {
+    expect(parseRoute('/brands/%E0', '').name).toBe('grid');
+  });
+});